@@ -26,7 +26,7 @@ import {
   CIRCUIT_PATHS,
   RELAYER_URL,
 } from "@/lib/constants";
-import { buildPoolTree, buildASPTree } from "@/lib/merkleTree";
+import { getPoolProof, buildASPTree } from "@/lib/merkleTree";
 import ProofProgress from "./ProofProgress";
 
 const USE_MOCK_PROOFS = process.env.NEXT_PUBLIC_USE_MOCK_PROOFS === "true";
@@ -172,15 +172,9 @@ export default function SponsorForm() {
           body: JSON.stringify({ poolAddresses: allPoolAddresses }),
         });
 
-        // Reconstruct pool Merkle tree
-        const poolTree = await buildPoolTree(poolAddress, publicClient);
+        // Pool Merkle proof from the relayer index (falls back to Deposit events)
         const commitmentBigInt = BigInt(commitment);
-        const leafIndex = poolTree.indexOf(commitmentBigInt);
-        if (leafIndex === -1) {
-          throw new Error("Commitment not found in reconstructed Merkle tree.");
-        }
-
-        const poolProof = poolTree.getProof(leafIndex);
+        const poolProof = await getPoolProof(poolAddress, commitmentBigInt, publicClient);
         merkleRoot = toHex32(poolProof.root) as `0x${string}`;
 
         // Build real ASP tree from all pool deposits
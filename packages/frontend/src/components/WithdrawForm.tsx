@@ -6,10 +6,12 @@ import { ConnectButton } from "@rainbow-me/rainbowkit";
 import {
   type Address,
   encodeAbiParameters,
+  formatEther,
   parseAbiParameters,
 } from "viem";
 import {
   usePrivacyPool,
+  type RelayerQuote,
   parseNote,
   computeCommitmentAsync,
   computeNullifierHashAsync,
@@ -23,7 +25,7 @@ import {
   ACTIVE_CHAIN_ID,
   CIRCUIT_PATHS,
 } from "@/lib/constants";
-import { buildPoolTree, buildASPTree } from "@/lib/merkleTree";
+import { getPoolProof, buildASPTree } from "@/lib/merkleTree";
 import ProofProgress from "./ProofProgress";
 
 const USE_MOCK_PROOFS = process.env.NEXT_PUBLIC_USE_MOCK_PROOFS === "true";
@@ -58,6 +60,7 @@ export default function WithdrawForm() {
   const { isConnected } = useAccount();
   const publicClient = usePublicClient();
   const {
+    getRelayerQuote,
     withdrawViaRelayer,
     withdrawDirect,
     checkCommitmentOnChain,
@@ -85,6 +88,8 @@ export default function WithdrawForm() {
     nullifierHash: `0x${string}`;
     aspRoot: `0x${string}`;
     poolKey: string;
+    /** Set when proving for the relayer: its address and fee are in the proof */
+    quote: RelayerQuote | null;
   } | null>(null);
   const [relayerResult, setRelayerResult] = useState<{
     txHash: string;
@@ -146,6 +151,12 @@ export default function WithdrawForm() {
         throw new Error("Failed to fetch ASP root from chain.");
       }
 
+      // The relayer only submits proofs that name its address and pay at
+      // least its quoted fee, so both are fixed before proving
+      const contracts = CONTRACTS[ACTIVE_CHAIN_ID];
+      const poolAddress = contracts[poolKey as keyof typeof contracts] as Address;
+      const quote = useRelayer ? await getRelayerQuote(poolAddress) : null;
+
       let encodedProof: `0x${string}`;
       let poolRoot: `0x${string}`;
       let finalAspRoot = aspRoot;
@@ -160,9 +171,6 @@ export default function WithdrawForm() {
         // Real mode: reconstruct Merkle tree, generate Groth16 proof
         setProofStep(4);
 
-        const contracts = CONTRACTS[ACTIVE_CHAIN_ID];
-        const poolAddress = contracts[poolKey as keyof typeof contracts] as Address;
-
         // Sync ASP tree on-chain via relayer (devnet only)
         const allPoolAddresses = [
           contracts.privacyPool_BNB_01,
@@ -176,15 +184,9 @@ export default function WithdrawForm() {
           body: JSON.stringify({ poolAddresses: allPoolAddresses }),
         });
 
-        // Reconstruct pool Merkle tree from Deposit events
-        const poolTree = await buildPoolTree(poolAddress, publicClient);
+        // Pool Merkle proof from the relayer index (falls back to Deposit events)
         const commitmentBigInt = BigInt(commitment);
-        const leafIndex = poolTree.indexOf(commitmentBigInt);
-        if (leafIndex === -1) {
-          throw new Error("Commitment not found in reconstructed Merkle tree.");
-        }
-
-        const poolProof = poolTree.getProof(leafIndex);
+        const poolProof = await getPoolProof(poolAddress, commitmentBigInt, publicClient);
         poolRoot = toHex32(poolProof.root) as `0x${string}`;
 
         // Build real ASP tree from all pool deposits
@@ -213,8 +215,8 @@ export default function WithdrawForm() {
           root: poolProof.root.toString(),
           nullifierHash: BigInt(nullifierHash).toString(),
           recipient: recipientBigInt.toString(),
-          relayer: "0",
-          fee: "0",
+          relayer: quote ? BigInt(quote.relayer).toString() : "0",
+          fee: quote ? quote.fee : "0",
           refund: "0",
           aspRoot: BigInt(syncedAspRoot).toString(),
         };
@@ -238,6 +240,7 @@ export default function WithdrawForm() {
         nullifierHash,
         aspRoot: finalAspRoot!,
         poolKey,
+        quote,
       });
       setIsProofComplete(true);
       setStep("submit");
@@ -246,14 +249,14 @@ export default function WithdrawForm() {
         err instanceof Error ? err.message : "Unknown error during proving";
       setProofError(message);
     }
-  }, [parsedNote, isRecipientValid, publicClient, checkCommitmentOnChain, checkNullifierSpent, getPoolRoot, getASPRoot, recipient]);
+  }, [parsedNote, isRecipientValid, publicClient, checkCommitmentOnChain, checkNullifierSpent, getPoolRoot, getASPRoot, getRelayerQuote, useRelayer, recipient]);
 
   const handleWithdraw = useCallback(async () => {
     if (!proofData) return;
     setWithdrawError(null);
 
     try {
-      if (useRelayer) {
+      if (proofData.quote) {
         const contracts = CONTRACTS[ACTIVE_CHAIN_ID];
         const poolAddress = contracts[proofData.poolKey as keyof typeof contracts];
         const result = await withdrawViaRelayer({
@@ -265,6 +268,7 @@ export default function WithdrawForm() {
           nullifierHash: proofData.nullifierHash,
           aspRoot: proofData.aspRoot,
           poolAddress: poolAddress as string,
+          quote: proofData.quote,
         });
         setRelayerResult(result);
         setStep("done");
@@ -286,7 +290,6 @@ export default function WithdrawForm() {
     }
   }, [
     proofData,
-    useRelayer,
     noteString,
     recipient,
     withdrawViaRelayer,
@@ -430,11 +433,11 @@ export default function WithdrawForm() {
                 {recipient}
               </span>
             </div>
-            {useRelayer && (
+            {proofData?.quote && (
               <div className="flex items-center justify-between rounded-lg bg-surface-200 p-4">
                 <span className="text-sm text-slate-400">Relayer Fee</span>
                 <span className="text-sm text-yellow-400">
-                  {RELAYER_FEE_PERCENT}%
+                  {formatEther(BigInt(proofData.quote.fee))} {parsedNote?.token}
                 </span>
               </div>
             )}
@@ -45,6 +45,18 @@ export interface PoolStatEntry {
   maxAnonymity: number;
 }
 
+/** Relayer address and signed minimum fee from GET /api/relayer/quote. */
+export interface RelayerQuote {
+  poolAddress: string;
+  relayer: Address;
+  /** Minimum fee in the pool's token, wei */
+  fee: string;
+  feePercent: number;
+  /** Unix seconds after which the relayer no longer honours the quote */
+  expiresAt: number;
+  signature: string;
+}
+
 export interface WithdrawParams {
   noteString: string;
   recipientAddress: Address;
@@ -56,6 +68,9 @@ export interface WithdrawParams {
   refund?: string;
   aspRoot?: string;
   poolAddress?: string;
+  relayer?: string;
+  /** The quote whose relayer and fee the proof binds */
+  quote?: RelayerQuote;
 }
 
 export interface SponsorParams {
@@ -340,12 +355,34 @@ export function usePrivacyPool() {
     [address, walletClient, contracts, writeContract]
   );
 
+  /* ---- Fetch relayer quote ---- */
+  const getRelayerQuote = useCallback(
+    async (poolAddress: string): Promise<RelayerQuote> => {
+      const response = await fetch(
+        `${RELAYER_URL}/api/relayer/quote?pool=${encodeURIComponent(poolAddress)}`
+      );
+      if (!response.ok) {
+        const err = await response.json().catch(() => ({}));
+        throw new Error(err.error || "Failed to fetch relayer quote");
+      }
+      return response.json();
+    },
+    []
+  );
+
   /* ---- Withdraw via relayer ---- */
   const withdrawViaRelayer = useCallback(
     async (params: WithdrawParams) => {
       const parsed = parseNote(params.noteString);
       if (!parsed) throw new Error("Invalid note format");
 
+      // The proof must bind the quoted relayer and fee
+      const relayer = params.relayer ?? params.quote?.relayer;
+      const fee = params.fee ?? params.quote?.fee;
+      if (!relayer || !fee) {
+        throw new Error("Relayer quote required for a relayed withdrawal");
+      }
+
       const response = await fetch(`${RELAYER_URL}/api/withdraw`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
@@ -354,10 +391,16 @@ export function usePrivacyPool() {
           merkleRoot: params.merkleRoot,
           nullifierHash: params.nullifierHash,
           recipient: params.recipientAddress,
-          fee: params.fee || "0",
+          relayer,
+          fee,
           refund: params.refund || "0",
           aspRoot: params.aspRoot,
           poolAddress: params.poolAddress,
+          quote: params.quote && {
+            fee: params.quote.fee,
+            expiresAt: params.quote.expiresAt,
+            signature: params.quote.signature,
+          },
         }),
       });
 
@@ -501,6 +544,7 @@ export function usePrivacyPool() {
     // Actions
     fetchPoolStats,
     deposit,
+    getRelayerQuote,
     withdrawViaRelayer,
     withdrawDirect,
     getASPRoot,
@@ -4,6 +4,7 @@
  */
 
 import { getPoseidon } from "./poseidon";
+import { RELAYER_URL } from "./constants";
 import type { PublicClient, Address } from "viem";
 
 const TREE_DEPTH = 20;
@@ -198,6 +199,48 @@ export async function buildPoolTree(
   return tree;
 }
 
+/**
+ * Get the pool Merkle proof for a commitment. Asks the relayer's indexed pool
+ * tree first and only falls back to rescanning Deposit events with
+ * buildPoolTree() when the relayer cannot serve one (e.g. the devnet relayer).
+ */
+export async function getPoolProof(
+  poolAddress: Address,
+  commitment: bigint,
+  publicClient: PublicClient
+): Promise<MerkleProof> {
+  try {
+    const commitmentHex = "0x" + commitment.toString(16).padStart(64, "0");
+    const response = await fetch(
+      `${RELAYER_URL}/api/merkle/proof?commitment=${commitmentHex}`
+    );
+    if (response.ok) {
+      const data = (await response.json()) as {
+        poolAddress: string;
+        root: string;
+        pathElements: string[];
+        pathIndices: number[];
+      };
+      if (data.poolAddress.toLowerCase() === poolAddress.toLowerCase()) {
+        return {
+          pathElements: data.pathElements.map((e) => BigInt(e)),
+          pathIndices: data.pathIndices,
+          root: BigInt(data.root),
+        };
+      }
+    }
+  } catch {
+    // relayer unreachable, fall back to the chain
+  }
+
+  const poolTree = await buildPoolTree(poolAddress, publicClient);
+  const leafIndex = poolTree.indexOf(commitment);
+  if (leafIndex === -1) {
+    throw new Error("Commitment not found in reconstructed Merkle tree.");
+  }
+  return poolTree.getProof(leafIndex);
+}
+
 /**
  * Build an ASP Merkle tree from all pool deposits.
  * On devnet, all deposited commitments are considered ASP-approved.
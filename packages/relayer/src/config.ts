@@ -29,9 +29,8 @@ export const config = {
 
   // Contract addresses
   contracts: {
-    privacyPoolBNB: requireEnv("PRIVACY_POOL_BNB_ADDRESS"),
-    tokenPool: optionalEnv("TOKEN_POOL_ADDRESS", ""),
     aspRegistry: requireEnv("ASP_REGISTRY_ADDRESS"),
+    // Default paymaster for sponsorships not tied to a registered pool
     privacyPaymaster: requireEnv("PRIVACY_PAYMASTER_ADDRESS"),
     entryPoint: optionalEnv(
       "ENTRY_POINT_ADDRESS",
@@ -39,15 +38,69 @@ export const config = {
     ),
   },
 
-  // Bundler
+  // Verification keys exported by the circuits build (checked before relaying)
+  withdrawVkeyPath: optionalEnv(
+    "WITHDRAW_VKEY_PATH",
+    "../circuits/build/withdraw/withdraw_verification_key.json"
+  ),
+  membershipVkeyPath: optionalEnv(
+    "MEMBERSHIP_VKEY_PATH",
+    "../circuits/build/membership/membership_verification_key.json"
+  ),
+
+  // Pool registry: JSON file (see pools.example.json); unset = pools table
+  poolRegistryPath: optionalEnv("POOL_REGISTRY_PATH", ""),
+
+  // Deposit watcher
+  // Blocks a Deposit must be buried under before it is indexed (BSC reorgs are shallow)
+  depositConfirmations: parseInt(optionalEnv("DEPOSIT_CONFIRMATIONS", "15"), 10),
+  depositPollIntervalMs: parseInt(
+    optionalEnv("DEPOSIT_POLL_INTERVAL_MS", "3000"),
+    10
+  ),
+
+  // Bundler: "external" submits to BUNDLER_URL, "builtin" bundles sponsored
+  // UserOps into handleOps from the relayer wallet
   bundlerUrl: optionalEnv("BUNDLER_URL", ""),
+  bundlerMode: optionalEnv(
+    "BUNDLER_MODE",
+    process.env.BUNDLER_URL ? "external" : "builtin"
+  ) as "external" | "builtin",
+  bundlerIntervalMs: parseInt(optionalEnv("BUNDLER_INTERVAL_MS", "3000"), 10),
+  bundleMaxOps: parseInt(optionalEnv("BUNDLE_MAX_OPS", "10"), 10),
+  bundleMaxGas: parseInt(optionalEnv("BUNDLE_MAX_GAS", "10000000"), 10),
+  // JSON target/selector/factory allowlists and gas ceiling; empty sponsors any call
+  sponsorshipPolicyPath: optionalEnv("SPONSORSHIP_POLICY_PATH", ""),
+  // Sponsorship outcomes are indexed from EntryPoint/paymaster logs this deep
+  sponsorshipConfirmations: parseInt(optionalEnv("SPONSORSHIP_CONFIRMATIONS", "3"), 10),
+  sponsorshipPollIntervalMs: parseInt(
+    optionalEnv("SPONSORSHIP_POLL_INTERVAL_MS", "10000"),
+    10
+  ),
+
+  // Treasury: paymaster EntryPoint deposits below PAYMASTER_MIN_DEPOSIT (BNB)
+  // are refilled with PAYMASTER_REFILL_AMOUNT from TREASURY_PRIVATE_KEY, or
+  // pause sponsorships through that paymaster if no key is set
+  treasuryPrivateKey: optionalEnv("TREASURY_PRIVATE_KEY", ""),
+  paymasterMinDeposit: optionalEnv("PAYMASTER_MIN_DEPOSIT", "0.5"),
+  paymasterRefillAmount: optionalEnv("PAYMASTER_REFILL_AMOUNT", "2"),
+  relayerMinBalance: optionalEnv("RELAYER_MIN_BALANCE", "0.1"),
+  treasuryCheckIntervalMs: parseInt(
+    optionalEnv("TREASURY_CHECK_INTERVAL_MS", "60000"),
+    10
+  ),
+  treasuryAlertWebhookUrl: optionalEnv("TREASURY_ALERT_WEBHOOK_URL", ""),
 
   // Screening
   chainalysisSanctionsOracle: optionalEnv(
     "CHAINALYSIS_SANCTIONS_ORACLE",
     "0x40C57923924B5c5c5455c48D93317139ADDaC8fb"
   ),
+  // OFAC SDN export: sdn_advanced.xml, sdn.csv or a JSON address array
   ofacListPath: optionalEnv("OFAC_LIST_PATH", "./data/sdn_list.json"),
+  ofacListPollMs: parseInt(optionalEnv("OFAC_LIST_POLL_MS", "60000"), 10),
+  // JSON provider/threshold policy; empty uses Chainalysis + the OFAC list
+  screeningPolicyPath: optionalEnv("SCREENING_POLICY_PATH", ""),
 
   // Relayer tuning
   minWithdrawalDelayMs: parseInt(
@@ -58,7 +111,39 @@ export const config = {
     optionalEnv("MAX_WITHDRAWAL_DELAY_MS", "900000"),
     10
   ),
+  // Base delay before retrying a transient withdrawal failure, doubled per retry
+  withdrawalRetryBaseMs: parseInt(
+    optionalEnv("WITHDRAWAL_RETRY_BASE_MS", "60000"),
+    10
+  ),
   relayerFeePercent: parseFloat(optionalEnv("RELAYER_FEE_PERCENT", "0.5")),
+  // Gas budgeted for one withdraw() call when quoting fees
+  withdrawGasLimit: parseInt(optionalEnv("WITHDRAW_GAS_LIMIT", "400000"), 10),
+  quoteTtlMs: parseInt(optionalEnv("QUOTE_TTL_MS", "600000"), 10),
+
+  // Hot wallet transactions: re-sent with fees raised by TX_GAS_BUMP_PERCENT
+  // when unconfirmed for TX_REPLACE_AFTER_MS, never above TX_MAX_GAS_PRICE_GWEI
+  txReplaceAfterMs: parseInt(optionalEnv("TX_REPLACE_AFTER_MS", "60000"), 10),
+  txGasBumpPercent: parseInt(optionalEnv("TX_GAS_BUMP_PERCENT", "15"), 10),
+  txMaxGasPriceGwei: optionalEnv("TX_MAX_GAS_PRICE_GWEI", "20"),
+  txPollIntervalMs: parseInt(optionalEnv("TX_POLL_INTERVAL_MS", "3000"), 10),
+  // Longest a caller holding a lock waits for a receipt; the transaction
+  // keeps being tracked (and fee-bumped) after that
+  txConfirmTimeoutMs: parseInt(optionalEnv("TX_CONFIRM_TIMEOUT_MS", "300000"), 10),
+  txReconcileIntervalMs: parseInt(optionalEnv("TX_RECONCILE_INTERVAL_MS", "60000"), 10),
+
+  // Replicas: one leader (Postgres advisory lock) runs the singleton workers;
+  // withdrawals are claimed row by row, and a claim whose owner stopped
+  // refreshing it for WITHDRAWAL_CLAIM_TIMEOUT_MS is taken over
+  leaderElectionIntervalMs: parseInt(
+    optionalEnv("LEADER_ELECTION_INTERVAL_MS", "5000"),
+    10
+  ),
+  replicaSyncIntervalMs: parseInt(optionalEnv("REPLICA_SYNC_INTERVAL_MS", "5000"), 10),
+  withdrawalClaimTimeoutMs: parseInt(
+    optionalEnv("WITHDRAWAL_CLAIM_TIMEOUT_MS", "300000"),
+    10
+  ),
 
   // ASP
   aspUpdateIntervalMs: parseInt(
@@ -67,6 +152,25 @@ export const config = {
   ),
   aspTreeDepth: parseInt(optionalEnv("ASP_TREE_DEPTH", "20"), 10),
 
+  // Re-screening
+  rescreenIntervalMs: parseInt(
+    optionalEnv("RESCREEN_INTERVAL_MS", "60000"),
+    10
+  ),
+  rescreenBatchSize: parseInt(optionalEnv("RESCREEN_BATCH_SIZE", "50"), 10),
+  rescreenApprovedAfterMs: parseInt(
+    optionalEnv("RESCREEN_APPROVED_AFTER_MS", "86400000"),
+    10
+  ),
+  screeningRetryBaseMs: parseInt(
+    optionalEnv("SCREENING_RETRY_BASE_MS", "60000"),
+    10
+  ),
+  screeningRetryMaxMs: parseInt(
+    optionalEnv("SCREENING_RETRY_MAX_MS", "21600000"),
+    10
+  ),
+
   // Rate limiting
   rateLimitWindowMs: parseInt(
     optionalEnv("RATE_LIMIT_WINDOW_MS", "900000"),
@@ -77,6 +181,18 @@ export const config = {
     10
   ),
 
+  // Admin API
+  // Comma-separated bearer keys; empty disables key auth (owner signatures still work)
+  adminApiKeys: optionalEnv("ADMIN_API_KEYS", "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter((key) => key.length > 0),
+  // Max age of an EIP-191 signed admin request
+  adminSignatureTtlMs: parseInt(
+    optionalEnv("ADMIN_SIGNATURE_TTL_MS", "300000"),
+    10
+  ),
+
   // ZK proof artifacts
   withdrawCircuitWasm: optionalEnv(
     "WITHDRAW_CIRCUIT_WASM",
@@ -48,6 +48,29 @@ export async function withTransaction<T>(
   }
 }
 
+// Postgres advisory lock keys shared by every relayer replica
+export const ADVISORY_LOCKS = {
+  // Held for as long as a replica runs the singleton workers
+  leader: 7_301_001,
+  // Nonce assignment and fee bumps for the hot wallet
+  txNonce: 7_301_002,
+  // Mutations of the persisted ASP tree
+  aspTree: 7_301_003,
+  // Applying revocations and publishing ASP roots (aspUpdater or operator)
+  aspPublish: 7_301_004,
+} as const;
+
+/**
+ * Run fn while holding a transaction-scoped advisory lock, waiting for any
+ * other replica holding it. The lock is released when fn settles.
+ */
+export async function withAdvisoryLock<T>(key: number, fn: () => Promise<T>): Promise<T> {
+  return withTransaction(async (client) => {
+    await client.query("SELECT pg_advisory_xact_lock($1)", [key]);
+    return fn();
+  });
+}
+
 export async function healthCheck(): Promise<boolean> {
   try {
     const result = await query("SELECT 1 AS ok");
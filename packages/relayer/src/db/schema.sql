@@ -2,6 +2,20 @@
 
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
+-- Pool registry, used when POOL_REGISTRY_PATH is not set
+CREATE TABLE IF NOT EXISTS pools (
+    address         VARCHAR(42) PRIMARY KEY,
+    token           VARCHAR(42),               -- NULL = native BNB
+    symbol          VARCHAR(16) NOT NULL,
+    denomination    VARCHAR(78) NOT NULL,
+    decimals        SMALLINT NOT NULL DEFAULT 18,
+    deploy_block    BIGINT NOT NULL DEFAULT 0,
+    paymaster_address VARCHAR(42),
+    active          BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
 -- Tracked deposits from privacy pool contracts
 CREATE TABLE IF NOT EXISTS deposits (
     id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -17,13 +31,18 @@ CREATE TABLE IF NOT EXISTS deposits (
 
     -- Screening results
     screening_status VARCHAR(20) NOT NULL DEFAULT 'pending'
-        CHECK (screening_status IN ('pending', 'approved', 'blocked')),
+        CHECK (screening_status IN ('pending', 'review', 'approved', 'blocked')),
     risk_score      REAL,
     screening_flags TEXT[],
+    screening_providers JSONB,
     screened_at     TIMESTAMPTZ,
+    screening_attempts INTEGER NOT NULL DEFAULT 0,
+    next_screening_at TIMESTAMPTZ,
 
     -- ASP inclusion
     asp_included    BOOLEAN NOT NULL DEFAULT FALSE,
+    asp_revoked_at  TIMESTAMPTZ,
+    asp_revocation_reason TEXT,
 
     created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -32,9 +51,69 @@ CREATE TABLE IF NOT EXISTS deposits (
 CREATE INDEX idx_deposits_commitment ON deposits(commitment);
 CREATE INDEX idx_deposits_pool ON deposits(pool_address);
 CREATE INDEX idx_deposits_screening ON deposits(screening_status);
+CREATE INDEX idx_deposits_next_screening ON deposits(next_screening_at);
 CREATE INDEX idx_deposits_asp ON deposits(asp_included);
 CREATE INDEX idx_deposits_block ON deposits(block_number);
 
+-- Hashes of blocks the deposit watcher has indexed, per pool: every block
+-- with a Deposit plus the last block of each scan. Compared with the chain
+-- to detect reorgs; rows behind the reorg tracking window are pruned.
+CREATE TABLE IF NOT EXISTS processed_blocks (
+    pool_address    VARCHAR(42) NOT NULL,
+    block_number    BIGINT NOT NULL,
+    block_hash      VARCHAR(66) NOT NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (pool_address, block_number)
+);
+
+-- Last block each event type has been indexed up to, per pool. Scans resume
+-- from here (or the pool's deploy block on first start) regardless of whether
+-- the pool has seen any deposits yet.
+CREATE TABLE IF NOT EXISTS sync_checkpoints (
+    pool_address    VARCHAR(42) NOT NULL,
+    event_type      VARCHAR(32) NOT NULL,
+    last_block      BIGINT NOT NULL,
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (pool_address, event_type)
+);
+
+-- Persisted ASP Merkle tree nodes (level 0 = leaves, level = depth is the root).
+-- Only non-zero nodes are stored; the relayer loads them on startup instead of
+-- replaying every approved commitment.
+CREATE TABLE IF NOT EXISTS asp_tree_nodes (
+    level           SMALLINT NOT NULL,
+    node_index      INTEGER NOT NULL,
+    hash            VARCHAR(66) NOT NULL,
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (level, node_index)
+);
+
+-- Operator-requested removals of approved commitments from the ASP set.
+-- Applied right away (or by the ASP updater): the leaf is zeroed, the
+-- commitment blocked on-chain and the new root published. A failing
+-- on-chain block is retried until 'failed', then by an operator.
+CREATE TABLE IF NOT EXISTS asp_revocations (
+    id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    -- Not a foreign key: the audit trail outlives deposits rolled back by a
+    -- reorg or reindex
+    commitment      VARCHAR(66) NOT NULL,
+    reason          TEXT NOT NULL,
+    requested_by    VARCHAR(100) NOT NULL,
+    status          VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'completed', 'failed')),
+    -- Failed on-chain blockCommitment attempts; 'failed' after the limit
+    attempts        INTEGER NOT NULL DEFAULT 0,
+    asp_leaf_index  INTEGER,
+    block_tx_hash   VARCHAR(66),
+    error_message   TEXT,
+    processed_at    TIMESTAMPTZ,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_asp_revocations_commitment ON asp_revocations(commitment);
+CREATE INDEX idx_asp_revocations_status ON asp_revocations(status);
+
 -- Queued and processed withdrawals
 CREATE TABLE IF NOT EXISTS withdrawals (
     id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -59,7 +138,14 @@ CREATE TABLE IF NOT EXISTS withdrawals (
     block_number        BIGINT,
     gas_used            VARCHAR(78),
     error_message       TEXT,
+    -- Last failure: permanent (rejected) or transient (retried with backoff)
+    error_class         VARCHAR(20)
+        CHECK (error_class IN ('permanent', 'transient')),
     retry_count         INTEGER NOT NULL DEFAULT 0,
+    -- Replica process working on the withdrawal ('processing' or
+    -- 'submitted'), and its last heartbeat; a stale claim is taken over
+    claimed_by          VARCHAR(64),
+    claimed_at          TIMESTAMPTZ,
 
     created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
     updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
@@ -113,6 +199,133 @@ CREATE TABLE IF NOT EXISTS asp_roots (
 CREATE INDEX idx_asp_roots_root ON asp_roots(root);
 CREATE INDEX idx_asp_roots_status ON asp_roots(status);
 
+-- Ingested versions of the OFAC SDN list. Exactly one version is active;
+-- re-ingesting an identical file (same sha256) reactivates its version.
+CREATE TABLE IF NOT EXISTS sanctions_list_versions (
+    id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source          VARCHAR(20) NOT NULL DEFAULT 'ofac_sdn',
+    format          VARCHAR(10) NOT NULL
+        CHECK (format IN ('xml', 'csv', 'json')),
+    file_path       TEXT NOT NULL,
+    file_sha256     VARCHAR(64) NOT NULL UNIQUE,
+    publication_date DATE,
+    address_count   INTEGER NOT NULL,
+    active          BOOLEAN NOT NULL DEFAULT FALSE,
+    ingested_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_sanctions_list_active ON sanctions_list_versions(active) WHERE active;
+
+-- Sanctioned EVM addresses per list version
+CREATE TABLE IF NOT EXISTS sanctioned_addresses (
+    list_version_id UUID NOT NULL REFERENCES sanctions_list_versions(id) ON DELETE CASCADE,
+    address         VARCHAR(42) NOT NULL,
+    ticker          VARCHAR(16) NOT NULL,
+    sdn_entity_id   VARCHAR(20),
+    sdn_name        TEXT,
+    PRIMARY KEY (list_version_id, address, ticker)
+);
+
+CREATE INDEX idx_sanctioned_addresses_address ON sanctioned_addresses(address);
+
+-- Operator actions taken through the /admin API
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+    id              UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    actor           VARCHAR(100) NOT NULL,
+    auth_method     VARCHAR(20) NOT NULL
+        CHECK (auth_method IN ('api_key', 'signature')),
+    action          VARCHAR(50) NOT NULL,
+    target          VARCHAR(100),
+    params          JSONB,
+    outcome         VARCHAR(20) NOT NULL
+        CHECK (outcome IN ('success', 'failure')),
+    error_message   TEXT,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_admin_audit_action ON admin_audit_log(action);
+CREATE INDEX idx_admin_audit_created ON admin_audit_log(created_at);
+
+-- Signed admin requests already accepted, shared by every replica so a
+-- captured request cannot be replayed until its timestamp expires. Keyed on
+-- the signer and the signed message, so a re-encoded signature is the same
+CREATE TABLE IF NOT EXISTS admin_used_signatures (
+    signer          VARCHAR(42) NOT NULL,
+    message_hash    VARCHAR(66) NOT NULL,
+    expires_at      TIMESTAMPTZ NOT NULL,
+    created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (signer, message_hash)
+);
+
+CREATE INDEX idx_admin_used_signatures_expires ON admin_used_signatures(expires_at);
+
+-- Transactions sent from the relayer hot wallet. One row per nonce; a fee
+-- bump re-signs the row's transaction and moves the old hash to
+-- replaced_hashes. Pending rows are reconciled against the chain on startup.
+CREATE TABLE IF NOT EXISTS relayer_transactions (
+    id                  UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    from_address        VARCHAR(42) NOT NULL,
+    nonce               BIGINT NOT NULL,
+    purpose             VARCHAR(32) NOT NULL,
+    reference           VARCHAR(100),
+
+    to_address          VARCHAR(42) NOT NULL,
+    data                TEXT NOT NULL,
+    value               VARCHAR(78) NOT NULL DEFAULT '0',
+    gas_limit           VARCHAR(78) NOT NULL,
+    -- Legacy transactions set gas_price, EIP-1559 ones the max fee pair
+    gas_price           VARCHAR(78),
+    max_fee_per_gas     VARCHAR(78),
+    max_priority_fee_per_gas VARCHAR(78),
+
+    -- Latest signed transaction and the hashes it replaced
+    tx_hash             VARCHAR(66) NOT NULL,
+    raw_tx              TEXT NOT NULL,
+    replaced_hashes     TEXT[] NOT NULL DEFAULT '{}',
+    attempts            INTEGER NOT NULL DEFAULT 1,
+    last_sent_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    status              VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'confirmed', 'reverted', 'dropped')),
+    block_number        BIGINT,
+    gas_used            VARCHAR(78),
+    confirmed_at        TIMESTAMPTZ,
+
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    UNIQUE (from_address, nonce)
+);
+
+CREATE INDEX idx_relayer_transactions_status ON relayer_transactions(status);
+CREATE INDEX idx_relayer_transactions_reference ON relayer_transactions(purpose, reference);
+
+-- UserOperation mempool of the built-in bundler (BUNDLER_MODE=builtin)
+CREATE TABLE IF NOT EXISTS user_operations (
+    user_op_hash        VARCHAR(66) PRIMARY KEY,
+    sender              VARCHAR(42) NOT NULL,
+    nonce               VARCHAR(78) NOT NULL,
+    user_op             JSONB NOT NULL,
+    paymaster_address   VARCHAR(42) NOT NULL,
+
+    -- State
+    status              VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'bundling', 'submitted', 'included', 'failed')),
+    bundle_tx_id        UUID REFERENCES relayer_transactions(id),
+    tx_hash             VARCHAR(66),
+    block_number        BIGINT,
+    success             BOOLEAN,
+    actual_gas_cost     VARCHAR(78),
+    actual_gas_used     VARCHAR(78),
+    error_message       TEXT,
+
+    created_at          TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at          TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_user_operations_status ON user_operations(status);
+CREATE INDEX idx_user_operations_sender ON user_operations(sender, nonce);
+CREATE INDEX idx_user_operations_bundle ON user_operations(bundle_tx_id);
+
 -- Trigger to auto-update updated_at
 CREATE OR REPLACE FUNCTION update_updated_at_column()
 RETURNS TRIGGER AS $$
@@ -122,6 +335,10 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
+CREATE TRIGGER update_pools_updated_at
+    BEFORE UPDATE ON pools
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_deposits_updated_at
     BEFORE UPDATE ON deposits
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -133,3 +350,19 @@ CREATE TRIGGER update_withdrawals_updated_at
 CREATE TRIGGER update_sponsorships_updated_at
     BEFORE UPDATE ON sponsorships
     FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_sync_checkpoints_updated_at
+    BEFORE UPDATE ON sync_checkpoints
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_asp_revocations_updated_at
+    BEFORE UPDATE ON asp_revocations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_relayer_transactions_updated_at
+    BEFORE UPDATE ON relayer_transactions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_user_operations_updated_at
+    BEFORE UPDATE ON user_operations
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
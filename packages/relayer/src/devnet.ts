@@ -8,7 +8,12 @@
 
 import express from "express";
 import cors from "cors";
+import * as fs from "fs";
+import * as path from "path";
 import { ethers } from "ethers";
+import { getUserOpHash } from "@privacy-paymaster/sdk";
+import { ASPMerkleTree } from "./lib/merkleTree";
+import { initPoseidon } from "./lib/poseidon";
 
 /* -------------------------------------------------------------------------- */
 /*                              Configuration                                 */
@@ -31,7 +36,6 @@ const POOL_ABI = [
 const ENTRY_POINT_ABI = [
   "function handleOps(tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)[] ops, address payable beneficiary) external",
   "function getNonce(address sender, uint192 key) view returns (uint256 nonce)",
-  "function getUserOpHash(tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature) userOp) view returns (bytes32)",
 ];
 
 const ASP_REGISTRY_ABI = [
@@ -45,12 +49,16 @@ const DEPOSIT_EVENT_ABI = [
 
 const ASP_REGISTRY_ADDRESS = process.env.ASP_REGISTRY_ADDRESS || "0x30A71CC1aC52a461092F3C5feC3B850C7661Abe9";
 
-// Known devnet pool addresses
-const DEVNET_POOL_ADDRESSES = [
-  "0x170e030B879B5d5B2927f57a53F1DbdC92D32BB0", // 0.1 BNB
-  "0x790Df60e129568AAcB56b2304145DcEf539235de", // 1 BNB
-  "0x303c6c698DFa7Fe6144D7C1Eb89aB3Ce46fB3Ac5", // 10 BNB
-];
+// Devnet pools: the same registry file the production relayer reads
+// (POOL_REGISTRY_PATH), defaulting to the testnet pools in pools.example.json
+const POOL_REGISTRY_PATH =
+  process.env.POOL_REGISTRY_PATH || path.join(__dirname, "..", "pools.example.json");
+
+const DEVNET_POOLS: { address: string; deployBlock: number }[] = (() => {
+  const file = JSON.parse(fs.readFileSync(POOL_REGISTRY_PATH, "utf-8"));
+  const entries: { address: string; deployBlock?: number }[] = Array.isArray(file) ? file : file.pools ?? [];
+  return entries.map((e) => ({ address: e.address, deployBlock: e.deployBlock ?? 0 }));
+})();
 
 // Set via deploy logs — update after redeployment
 const ENTRY_POINT_ADDRESS = process.env.ENTRY_POINT_ADDRESS || "0xd1F132B4080841C0f8c5b3aD0a420405a48F4Bf8";
@@ -225,14 +233,9 @@ app.post("/api/sponsor", async (req, res) => {
       signature: signature || "0x",
     };
 
-    // Compute userOpHash for tracking
-    let userOpHash: string;
-    try {
-      userOpHash = await entryPoint.getUserOpHash(userOp);
-    } catch {
-      // If getUserOpHash fails, generate a tracking hash
-      userOpHash = ethers.keccak256(ethers.toUtf8Bytes(JSON.stringify({ sender, nonce: userOp.nonce })));
-    }
+    // Track the op by the hash the EntryPoint emits
+    const { chainId } = await provider.getNetwork();
+    const userOpHash = getUserOpHash(userOp, ENTRY_POINT_ADDRESS, chainId);
 
     sponsorships.set(userOpHash, { status: "queued", userOpHash });
 
@@ -283,7 +286,14 @@ app.get("/api/sponsor/:hash/status", (req, res) => {
 /* ---- Sync ASP tree (devnet only) ---- */
 app.post("/api/asp/sync", async (req, res) => {
   try {
-    const poolAddresses: string[] = req.body?.poolAddresses || DEVNET_POOL_ADDRESSES;
+    const requested: string[] | undefined = req.body?.poolAddresses;
+    const pools = requested
+      ? requested.map((address) => ({
+          address,
+          deployBlock:
+            DEVNET_POOLS.find((p) => p.address.toLowerCase() === address.toLowerCase())?.deployBlock ?? 0,
+        }))
+      : DEVNET_POOLS;
 
     const provider = new ethers.JsonRpcProvider(RPC_URL);
     const wallet = new ethers.Wallet(RELAYER_PRIVATE_KEY, provider);
@@ -291,13 +301,12 @@ app.post("/api/asp/sync", async (req, res) => {
     // Collect all deposit commitments from all pools
     const allCommitments: { commitment: string; leafIndex: number }[] = [];
 
-    const DEPLOY_BLOCK = 92962584;
     const CHUNK_SIZE = 9;
     const latestBlock = await provider.getBlockNumber();
 
-    for (const poolAddr of poolAddresses) {
-      const pool = new ethers.Contract(poolAddr, DEPOSIT_EVENT_ABI, provider);
-      let fromBlock = DEPLOY_BLOCK;
+    for (const { address, deployBlock } of pools) {
+      const pool = new ethers.Contract(address, DEPOSIT_EVENT_ABI, provider);
+      let fromBlock = deployBlock;
       while (fromBlock <= latestBlock) {
         const toBlock = Math.min(fromBlock + CHUNK_SIZE, latestBlock);
         try {
@@ -319,50 +328,13 @@ app.post("/api/asp/sync", async (req, res) => {
       return;
     }
 
-    // Build ASP Merkle tree using Poseidon (via circomlibjs)
-    // eslint-disable-next-line @typescript-eslint/no-var-requires
-    const { buildPoseidon } = require("circomlibjs") as { buildPoseidon: () => Promise<any> };
-    const poseidon = await buildPoseidon();
-    const F = poseidon.F;
-
-    function poseidonHash2(left: bigint, right: bigint): bigint {
-      const h = poseidon([left, right]);
-      return BigInt(F.toObject(h));
-    }
-
-    const TREE_DEPTH = 20;
-    const zeroValues: bigint[] = new Array(TREE_DEPTH + 1);
-    zeroValues[0] = 0n;
-    for (let i = 1; i <= TREE_DEPTH; i++) {
-      zeroValues[i] = poseidonHash2(zeroValues[i - 1], zeroValues[i - 1]);
-    }
-
-    const layers: bigint[][] = new Array(TREE_DEPTH + 1);
-    for (let i = 0; i <= TREE_DEPTH; i++) layers[i] = [];
-
-    const leaves: bigint[] = [];
+    // Build ASP Merkle tree with the same Poseidon tree the production relayer uses
+    await initPoseidon();
+    const aspTree = new ASPMerkleTree(20);
     for (const entry of allCommitments) {
-      const leaf = BigInt(entry.commitment);
-      const index = leaves.length;
-      leaves.push(leaf);
-      layers[0] = [...leaves];
-
-      // Rebuild from this leaf
-      let currentIndex = index;
-      for (let level = 0; level < TREE_DEPTH; level++) {
-        const pairIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
-        const leftIndex = Math.min(currentIndex, pairIndex);
-        const rightIndex = Math.max(currentIndex, pairIndex);
-        const left = layers[level][leftIndex] ?? zeroValues[level];
-        const right = layers[level][rightIndex] ?? zeroValues[level];
-        const parentIndex = Math.floor(currentIndex / 2);
-        layers[level + 1][parentIndex] = poseidonHash2(left, right);
-        currentIndex = parentIndex;
-      }
+      aspTree.insert(entry.commitment);
     }
-
-    const root = layers[TREE_DEPTH][0];
-    const aspRootHex = "0x" + root.toString(16).padStart(64, "0");
+    const aspRootHex = aspTree.root;
 
     // Update ASP registry on-chain
     const aspRegistry = new ethers.Contract(ASP_REGISTRY_ADDRESS, ASP_REGISTRY_ABI, wallet);
@@ -4,11 +4,31 @@ import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import { config } from "./config";
 import { healthCheck, closePool } from "./db";
-import { rebuildASPTreeFromDB } from "./services/asp.service";
+import {
+  rebuildASPTreeFromDB,
+  refreshASPSnapshots,
+  refreshASPTree,
+} from "./services/asp.service";
+import { loadSponsorshipPolicy } from "./services/bundler.service";
+import { rebuildPoolTreesFromDB } from "./services/pool.service";
+import { loadPoolRegistry } from "./services/poolRegistry.service";
+import { loadVerificationKeys } from "./services/proof.service";
+import { loadScreeningPolicy } from "./services/screening.service";
+import { isLeader, startLeaderElection } from "./services/leader.service";
+import { getTreasuryStatus } from "./services/treasury.service";
 import { startDepositWatcher } from "./workers/depositWatcher";
 import { startASPUpdater } from "./workers/aspUpdater";
+import { startRescreener } from "./workers/rescreener";
+import { startSanctionsListWatcher } from "./workers/sanctionsListWatcher";
 import { startWithdrawalProcessor } from "./workers/withdrawalProcessor";
+import { startReplicaSync } from "./workers/replicaSync";
+import { startTxReconciler } from "./workers/txReconciler";
+import { startBundler } from "./workers/bundler";
+import { startSponsorshipWatcher } from "./workers/sponsorshipWatcher";
+import { startTreasuryWatcher } from "./workers/treasury";
 import apiRouter from "./routes/api";
+import adminRouter from "./routes/admin";
+import { requireAdmin, RawBodyRequest } from "./middleware/adminAuth";
 
 async function main(): Promise<void> {
   const app = express();
@@ -25,12 +45,19 @@ async function main(): Promise<void> {
     cors({
       origin: process.env.CORS_ORIGIN ?? "*",
       methods: ["GET", "POST"],
-      allowedHeaders: ["Content-Type", "Authorization"],
+      allowedHeaders: ["Content-Type", "Authorization", "X-Admin-Signature", "X-Admin-Timestamp"],
     })
   );
 
-  // Body parsing
-  app.use(express.json({ limit: "1mb" }));
+  // Body parsing (raw bytes kept for admin request signatures)
+  app.use(
+    express.json({
+      limit: "1mb",
+      verify: (req, _res, buf) => {
+        (req as RawBodyRequest).rawBody = buf;
+      },
+    })
+  );
 
   // Rate limiting
   const limiter = rateLimit({
@@ -41,6 +68,7 @@ async function main(): Promise<void> {
     message: { error: "Too many requests, please try again later" },
   });
   app.use("/api/", limiter);
+  app.use("/admin/", limiter);
 
   // Request logging
   app.use((req, _res, next) => {
@@ -63,12 +91,17 @@ async function main(): Promise<void> {
       services: {
         database: dbOk ? "connected" : "disconnected",
       },
+      role: isLeader() ? "leader" : "follower",
+      treasury: getTreasuryStatus(),
     });
   });
 
   // API routes
   app.use("/api", apiRouter);
 
+  // Operator routes (API key or ASP owner signature)
+  app.use("/admin", requireAdmin, adminRouter);
+
   // 404 handler
   app.use((_req, res) => {
     res.status(404).json({ error: "Not found" });
@@ -101,13 +134,43 @@ async function main(): Promise<void> {
   }
   console.log("[Server] Database connected");
 
-  // Rebuild ASP tree from persisted state
-  await rebuildASPTreeFromDB();
+  await loadPoolRegistry();
+  loadScreeningPolicy();
+  loadVerificationKeys();
+  loadSponsorshipPolicy();
 
-  // Start background workers
-  const stopDepositWatcher = await startDepositWatcher();
-  const stopASPUpdater = await startASPUpdater();
+  // Rebuild ASP and pool trees from persisted state
+  await rebuildASPTreeFromDB();
+  await rebuildPoolTreesFromDB();
+
+  // Start background workers (sanctions list first: screening depends on it)
+  const stopSanctionsListWatcher = await startSanctionsListWatcher();
+
+  // Singleton workers run only on the elected leader replica
+  const stopLeaderElection = await startLeaderElection(async () => {
+    // As a follower this replica's trees were only as fresh as its last
+    // replica sync; the deposit watcher resumes from the persisted checkpoint
+    await rebuildPoolTreesFromDB();
+    await refreshASPTree();
+    await refreshASPSnapshots();
+
+    const stops: Array<() => void> = [];
+    try {
+      stops.push(await startDepositWatcher());
+      stops.push(await startASPUpdater());
+      stops.push(await startRescreener());
+      stops.push(await startTxReconciler());
+      stops.push(await startSponsorshipWatcher());
+    } catch (err) {
+      for (const stop of stops) stop();
+      throw err;
+    }
+    return stops;
+  });
+  const stopReplicaSync = await startReplicaSync();
+  const stopTreasuryWatcher = await startTreasuryWatcher();
   const stopWithdrawalProcessor = await startWithdrawalProcessor();
+  const stopBundler = config.bundlerMode === "builtin" ? await startBundler() : null;
 
   // Start HTTP server
   const server = app.listen(config.port, () => {
@@ -128,9 +191,12 @@ async function main(): Promise<void> {
     });
 
     // Stop workers
-    stopDepositWatcher();
-    stopASPUpdater();
+    stopLeaderElection();
+    stopReplicaSync();
+    stopTreasuryWatcher();
+    stopSanctionsListWatcher();
     stopWithdrawalProcessor();
+    stopBundler?.();
 
     // Close database pool
     await closePool();
@@ -0,0 +1,183 @@
+import { ethers } from "ethers";
+import type { Groth16Proof } from "snarkjs";
+
+/**
+ * Conversions between snarkjs Groth16 proofs and the encoding the pool and
+ * paymaster contracts decode: abi.encode(uint256[2] a, uint256[2][2] b,
+ * uint256[2] c), with each pair of B's G2 coordinates swapped as the
+ * Solidity verifier expects.
+ */
+
+const PROOF_TYPES = ["uint256[2]", "uint256[2][2]", "uint256[2]"];
+
+// 8 uint256 words
+export const CONTRACT_PROOF_BYTES = 256;
+
+/**
+ * Public inputs of withdraw.circom, in its `main {public [...]}` order.
+ */
+export interface WithdrawPublicInputs {
+  root: string;
+  nullifierHash: string;
+  recipient: string;
+  relayer: string;
+  fee: string;
+  refund: string;
+  aspRoot: string;
+}
+
+/**
+ * Public inputs of membership.circom, in its `main {public [...]}` order.
+ */
+export interface MembershipPublicInputs {
+  root: string;
+  nullifierHash: string;
+  aspRoot: string;
+}
+
+/**
+ * Decode contract proof bytes into a snarkjs proof. Throws on bytes that
+ * are not exactly one encoded proof.
+ */
+export function decodeContractProof(proofHex: string): Groth16Proof {
+  if (!ethers.isHexString(proofHex, CONTRACT_PROOF_BYTES)) {
+    throw new Error(`Invalid proof: expected ${CONTRACT_PROOF_BYTES} bytes of hex`);
+  }
+
+  const [a, b, c] = ethers.AbiCoder.defaultAbiCoder().decode(PROOF_TYPES, proofHex);
+  return {
+    pi_a: [a[0].toString(), a[1].toString(), "1"],
+    pi_b: [
+      [b[0][1].toString(), b[0][0].toString()],
+      [b[1][1].toString(), b[1][0].toString()],
+      ["1", "0"],
+    ],
+    pi_c: [c[0].toString(), c[1].toString(), "1"],
+    protocol: "groth16",
+    curve: "bn128",
+  };
+}
+
+/**
+ * Encode a snarkjs proof as the contracts' proof bytes.
+ */
+export function encodeContractProof(proof: Pick<Groth16Proof, "pi_a" | "pi_b" | "pi_c">): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(PROOF_TYPES, [
+    [BigInt(proof.pi_a[0]), BigInt(proof.pi_a[1])],
+    [
+      [BigInt(proof.pi_b[0][1]), BigInt(proof.pi_b[0][0])],
+      [BigInt(proof.pi_b[1][1]), BigInt(proof.pi_b[1][0])],
+    ],
+    [BigInt(proof.pi_c[0]), BigInt(proof.pi_c[1])],
+  ]);
+}
+
+// BN254 scalar field: every public signal is reduced below it
+const SNARK_SCALAR_FIELD =
+  21888242871839275222246405745257275088548364400416034343698204186575808495617n;
+
+function toField(value: unknown, name: string): bigint {
+  if (typeof value !== "string" && typeof value !== "number" && typeof value !== "bigint") {
+    throw new Error(`Invalid ${name}: not a field element`);
+  }
+  let field: bigint;
+  try {
+    field = BigInt(value);
+  } catch {
+    throw new Error(`Invalid ${name}: not a field element`);
+  }
+  if (field < 0n || field >= SNARK_SCALAR_FIELD) {
+    throw new Error(`Invalid ${name}: outside the scalar field`);
+  }
+  return field;
+}
+
+function toAddress(value: bigint, name: string): string {
+  if (value >= 1n << 160n) {
+    throw new Error(`Invalid ${name}: not an address`);
+  }
+  return ethers.getAddress(ethers.toBeHex(value, 20));
+}
+
+/**
+ * Read a proof in snarkjs output shape, checking every coordinate is a
+ * field element. Throws "Invalid proof: ..." otherwise.
+ */
+export function parseSnarkjsProof(value: unknown): Groth16Proof {
+  const proof = value as Partial<Groth16Proof> | null;
+  const isPair = (v: unknown): v is unknown[] => Array.isArray(v) && v.length >= 2;
+  if (
+    !proof ||
+    !isPair(proof.pi_a) ||
+    !isPair(proof.pi_c) ||
+    !isPair(proof.pi_b) ||
+    !isPair(proof.pi_b[0]) ||
+    !isPair(proof.pi_b[1])
+  ) {
+    throw new Error("Invalid proof: expected snarkjs pi_a, pi_b and pi_c");
+  }
+
+  const coord = (v: unknown) => toField(v, "proof coordinate").toString();
+  return {
+    pi_a: [coord(proof.pi_a[0]), coord(proof.pi_a[1]), "1"],
+    pi_b: [
+      [coord(proof.pi_b[0][0]), coord(proof.pi_b[0][1])],
+      [coord(proof.pi_b[1][0]), coord(proof.pi_b[1][1])],
+      ["1", "0"],
+    ],
+    pi_c: [coord(proof.pi_c[0]), coord(proof.pi_c[1]), "1"],
+    protocol: "groth16",
+    curve: "bn128",
+  };
+}
+
+/**
+ * Decode the 7 withdraw public signals (snarkjs `publicSignals`) into the
+ * request's formats: roots and the nullifier hash as bytes32 hex,
+ * recipient and relayer as checksummed addresses, fee and refund as
+ * decimal strings.
+ */
+export function decodeWithdrawPublicSignals(publicSignals: unknown): WithdrawPublicInputs {
+  if (!Array.isArray(publicSignals) || publicSignals.length !== 7) {
+    throw new Error("Invalid publicSignals: expected 7 withdraw signals");
+  }
+
+  const [root, nullifierHash, recipient, relayer, fee, refund, aspRoot] = publicSignals.map(
+    (signal, i) => toField(signal, `publicSignals[${i}]`)
+  );
+  return {
+    root: ethers.toBeHex(root, 32),
+    nullifierHash: ethers.toBeHex(nullifierHash, 32),
+    recipient: toAddress(recipient, "recipient signal"),
+    relayer: toAddress(relayer, "relayer signal"),
+    fee: fee.toString(),
+    refund: refund.toString(),
+    aspRoot: ethers.toBeHex(aspRoot, 32),
+  };
+}
+
+/**
+ * The 7 withdraw public signals as decimal strings, built the way
+ * PrivacyPool.withdraw() does (bytes32 and addresses as uint256).
+ */
+export function withdrawPublicSignals(inputs: WithdrawPublicInputs): string[] {
+  return [
+    inputs.root,
+    inputs.nullifierHash,
+    inputs.recipient,
+    inputs.relayer,
+    inputs.fee,
+    inputs.refund,
+    inputs.aspRoot,
+  ].map((value) => BigInt(value).toString());
+}
+
+/**
+ * The 3 membership public signals as decimal strings, built the way
+ * PrivacyPaymaster validates a sponsorship.
+ */
+export function membershipPublicSignals(inputs: MembershipPublicInputs): string[] {
+  return [inputs.root, inputs.nullifierHash, inputs.aspRoot].map((value) =>
+    BigInt(value).toString()
+  );
+}
@@ -0,0 +1,288 @@
+import { ethers } from "ethers";
+import { poseidonHash2 } from "./poseidon";
+
+/** A single tree node; level 0 holds the leaves, level `depth` the root. */
+export interface TreeNode {
+  level: number;
+  index: number;
+  hash: string;
+}
+
+/**
+ * Off-chain incremental Merkle tree that mirrors the on-chain
+ * MerkleTreeWithHistory structure (Poseidon, zeros[0] = 0). Roots and proofs
+ * are interchangeable with the SDK MerkleTree and the circuits.
+ *
+ * Only non-zero nodes are stored; missing nodes resolve to the zero value of
+ * their level. An insert rehashes the leaf-to-root path only (depth hashes),
+ * and the touched nodes can be persisted and later reloaded via loadNodes().
+ *
+ * Because leaves are append-only, the tree as it was after its first `n`
+ * leaves can be recovered from the current nodes: subtrees left of leaf `n`
+ * are unchanged, subtrees right of it are zero, and only the nodes on the
+ * path of leaf `n` need rehashing. rootAt()/getProof() use this to serve
+ * proofs against previously published roots. A leaf zeroed by zeroLeaf()
+ * keeps its slot, so this holds for every size after the zeroing, while
+ * earlier roots that still contained the leaf can no longer be reproduced.
+ *
+ * Requires initPoseidon() to have been awaited before construction.
+ */
+export class IncrementalMerkleTree {
+  readonly depth: number;
+  private nextIndex = 0;
+  private nodes: Map<number, string>[] = [];
+  private leafIndexes = new Map<string, number>();
+  private zeroValues: string[] = [];
+
+  constructor(depth: number = 20) {
+    this.depth = depth;
+    this.zeroValues = this.computeZeroValues();
+    this.nodes = Array.from({ length: depth + 1 }, () => new Map());
+  }
+
+  /**
+   * Compute zero values for each level:
+   * zeros[0] = 0, zeros[i] = Poseidon(zeros[i-1], zeros[i-1]).
+   * zeros[depth] is the root of the empty tree.
+   */
+  private computeZeroValues(): string[] {
+    const zeros: string[] = [ethers.ZeroHash];
+    for (let i = 1; i <= this.depth; i++) {
+      zeros.push(this.hashPair(zeros[i - 1], zeros[i - 1]));
+    }
+    return zeros;
+  }
+
+  private hashPair(left: string, right: string): string {
+    return poseidonHash2(left, right);
+  }
+
+  private getNode(level: number, index: number): string {
+    return this.nodes[level].get(index) ?? this.zeroValues[level];
+  }
+
+  /**
+   * Insert a leaf (approved commitment) into the tree.
+   */
+  insert(commitment: string): number {
+    const index = this.nextIndex;
+    if (index >= 2 ** this.depth) {
+      throw new Error("Merkle tree is full");
+    }
+
+    const leaf = ethers.zeroPadValue(commitment, 32);
+    this.nodes[0].set(index, leaf);
+    this.leafIndexes.set(leaf, index);
+    this.nextIndex = index + 1;
+
+    this.updatePath(index);
+    return index;
+  }
+
+  /**
+   * Replace the leaf at `index` with the zero value (ASP revocation). The
+   * slot stays occupied so later leaves keep their indexes.
+   */
+  zeroLeaf(index: number): void {
+    if (index < 0 || index >= this.nextIndex) {
+      throw new Error(`Leaf index ${index} out of range [0, ${this.nextIndex})`);
+    }
+
+    this.leafIndexes.delete(this.getNode(0, index));
+    // Stored explicitly (not deleted) so loadNodes() still counts the slot
+    this.nodes[0].set(index, ethers.ZeroHash);
+
+    this.updatePath(index);
+  }
+
+  /**
+   * Recompute the parents of the leaf at `index` up to the root.
+   */
+  private updatePath(index: number): void {
+    let currentIndex = index;
+    for (let level = 0; level < this.depth; level++) {
+      const leftIndex = currentIndex % 2 === 0 ? currentIndex : currentIndex - 1;
+      const parentHash = this.hashPair(
+        this.getNode(level, leftIndex),
+        this.getNode(level, leftIndex + 1)
+      );
+      currentIndex = Math.floor(currentIndex / 2);
+      this.nodes[level + 1].set(currentIndex, parentHash);
+    }
+  }
+
+  /**
+   * The nodes on the path from leaf `index` to the root, i.e. exactly the
+   * nodes an insert at `index` touched. Used to persist incremental updates.
+   */
+  getPathNodes(index: number): TreeNode[] {
+    const path: TreeNode[] = [];
+    let currentIndex = index;
+    for (let level = 0; level <= this.depth; level++) {
+      path.push({ level, index: currentIndex, hash: this.getNode(level, currentIndex) });
+      currentIndex = Math.floor(currentIndex / 2);
+    }
+    return path;
+  }
+
+  /**
+   * All stored (non-zero) nodes, for a full snapshot to storage.
+   */
+  getAllNodes(): TreeNode[] {
+    const all: TreeNode[] = [];
+    this.nodes.forEach((levelNodes, level) => {
+      for (const [index, hash] of levelNodes) {
+        all.push({ level, index, hash });
+      }
+    });
+    return all;
+  }
+
+  /**
+   * Replace the tree contents with previously persisted nodes.
+   * The leaf count is derived from the highest populated leaf index.
+   */
+  loadNodes(nodes: TreeNode[]): void {
+    this.nodes = Array.from({ length: this.depth + 1 }, () => new Map());
+    this.leafIndexes.clear();
+    this.nextIndex = 0;
+
+    for (const node of nodes) {
+      if (node.level < 0 || node.level > this.depth) {
+        throw new Error(`Node level ${node.level} out of range for depth ${this.depth}`);
+      }
+      const hash = node.hash.toLowerCase();
+      this.nodes[node.level].set(node.index, hash);
+      if (node.level === 0) {
+        if (hash !== ethers.ZeroHash) this.leafIndexes.set(hash, node.index);
+        this.nextIndex = Math.max(this.nextIndex, node.index + 1);
+      }
+    }
+  }
+
+  get root(): string {
+    return this.getNode(this.depth, 0);
+  }
+
+  get leafCount(): number {
+    return this.nextIndex;
+  }
+
+  /**
+   * Node value in the tree truncated to its first `leafCount` leaves.
+   */
+  private getNodeAt(level: number, index: number, leafCount: number): string {
+    const width = 2 ** level;
+    if (index * width >= leafCount) return this.zeroValues[level];
+    if ((index + 1) * width <= leafCount) return this.getNode(level, index);
+
+    // Subtree straddles the boundary: at most one such node per level
+    return this.hashPair(
+      this.getNodeAt(level - 1, index * 2, leafCount),
+      this.getNodeAt(level - 1, index * 2 + 1, leafCount)
+    );
+  }
+
+  /**
+   * Root of the tree as it was after its first `leafCount` leaves.
+   */
+  rootAt(leafCount: number): string {
+    if (leafCount < 0 || leafCount > this.nextIndex) {
+      throw new Error(`Leaf count ${leafCount} out of range [0, ${this.nextIndex}]`);
+    }
+    if (leafCount === this.nextIndex) return this.root;
+    return this.getNodeAt(this.depth, 0, leafCount);
+  }
+
+  /**
+   * Generate a Merkle proof for the leaf at `index`, optionally against the
+   * tree as it was after its first `leafCount` leaves (defaults to now).
+   */
+  getProof(
+    index: number,
+    leafCount: number = this.nextIndex
+  ): { pathElements: string[]; pathIndices: number[] } | null {
+    if (leafCount > this.nextIndex) return null;
+    if (index < 0 || index >= leafCount) return null;
+
+    const pathElements: string[] = [];
+    const pathIndices: number[] = [];
+    let currentIndex = index;
+
+    for (let level = 0; level < this.depth; level++) {
+      const siblingIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
+      pathElements.push(
+        leafCount === this.nextIndex
+          ? this.getNode(level, siblingIndex)
+          : this.getNodeAt(level, siblingIndex, leafCount)
+      );
+      pathIndices.push(currentIndex % 2);
+      currentIndex = Math.floor(currentIndex / 2);
+    }
+
+    return { pathElements, pathIndices };
+  }
+
+  /**
+   * Find the index of a commitment in the tree.
+   */
+  indexOf(commitment: string): number {
+    return this.leafIndexes.get(commitment.toLowerCase()) ?? -1;
+  }
+}
+
+/**
+ * ASP (Association Set Provider) tree: only includes commitments that pass
+ * sanctions screening, across all pools.
+ */
+export class ASPMerkleTree extends IncrementalMerkleTree {}
+
+/** Roots kept by MerkleTreeWithHistory (ROOT_HISTORY_SIZE). */
+export const ROOT_HISTORY_SIZE = 30;
+
+/** A root in a pool tree's history and the leaf count it was computed over. */
+export interface RootHistoryEntry {
+  root: string;
+  leafCount: number;
+}
+
+/**
+ * Per-pool deposit tree. Mirrors MerkleTreeWithHistory including its ring of
+ * the last ROOT_HISTORY_SIZE roots, so isKnownRoot() answers exactly like the
+ * contract once the tree is in sync with the pool's Deposit events.
+ */
+export class PoolMerkleTree extends IncrementalMerkleTree {
+  private rootHistory: RootHistoryEntry[] = [];
+
+  constructor(depth: number = 20) {
+    super(depth);
+    // The contract stores the empty-tree root as roots[0]
+    this.rootHistory = [{ root: this.root, leafCount: 0 }];
+  }
+
+  insert(commitment: string): number {
+    const index = super.insert(commitment);
+    this.rootHistory = [
+      { root: this.root, leafCount: this.leafCount },
+      ...this.rootHistory,
+    ].slice(0, ROOT_HISTORY_SIZE);
+    return index;
+  }
+
+  /**
+   * Roots in the on-chain history window, newest first.
+   */
+  get knownRoots(): RootHistoryEntry[] {
+    return this.rootHistory;
+  }
+
+  isKnownRoot(root: string): boolean {
+    return this.findRoot(root) !== null;
+  }
+
+  findRoot(root: string): RootHistoryEntry | null {
+    const normalized = root.toLowerCase();
+    if (normalized === ethers.ZeroHash) return null;
+    return this.rootHistory.find((entry) => entry.root === normalized) ?? null;
+  }
+}
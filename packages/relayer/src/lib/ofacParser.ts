@@ -0,0 +1,219 @@
+import { ethers } from "ethers";
+
+/**
+ * Parsers for the OFAC SDN list exports, extracting sanctioned digital
+ * currency addresses usable on EVM chains (Ethereum, BSC and tokens on them).
+ *
+ * Supported inputs:
+ *   - SDN advanced XML (sdn_advanced.xml): addresses are Features whose
+ *     FeatureType is "Digital Currency Address - <TICKER>".
+ *   - SDN CSV (sdn.csv, sdn_comments.csv): addresses appear in the remarks as
+ *     "Digital Currency Address - <TICKER> <address>;".
+ *   - A flat JSON array of addresses, or `{ addresses: [...] }` (legacy).
+ */
+
+// OFAC tickers whose addresses are EVM accounts. Addresses are still
+// validated, so e.g. TRON-format USDT addresses are skipped.
+export const EVM_TICKERS = new Set([
+  "ETH",
+  "ETC",
+  "BSC",
+  "BNB",
+  "ARB",
+  "MATIC",
+  "USDT",
+  "USDC",
+  "DAI",
+  "BUSD",
+]);
+
+export type SdnListFormat = "xml" | "csv" | "json";
+
+export interface SdnAddressEntry {
+  /** Lowercased 0x address */
+  address: string;
+  ticker: string;
+  /** SDN entity number (ent_num / FixedRef), if known */
+  entityId: string | null;
+  name: string | null;
+}
+
+export interface ParsedSdnList {
+  format: SdnListFormat;
+  /** ISO date (YYYY-MM-DD) the list was issued, if the export carries one */
+  publicationDate: string | null;
+  entries: SdnAddressEntry[];
+}
+
+const DIGITAL_CURRENCY_REMARK = /Digital Currency Address - ([A-Za-z0-9]+)\s+([A-Za-z0-9]+)/g;
+const FEATURE_TYPE = /<FeatureType\s+ID="(\d+)"[^>]*>\s*Digital Currency Address - ([A-Za-z0-9]+)\s*<\/FeatureType>/g;
+const DISTINCT_PARTY = /<DistinctParty\s+FixedRef="(\d+)"[^>]*>([\s\S]*?)<\/DistinctParty>/g;
+const FEATURE = /<Feature\s+ID="\d+"\s+FeatureTypeID="(\d+)"[^>]*>([\s\S]*?)<\/Feature>/g;
+const VERSION_DETAIL = /<VersionDetail[^>]*>([^<]+)<\/VersionDetail>/g;
+const NAME_PART = /<NamePartValue[^>]*>([^<]+)<\/NamePartValue>/;
+
+/**
+ * Keep EVM addresses only, deduplicated by address and ticker.
+ */
+function collect(
+  entries: SdnAddressEntry[],
+  seen: Set<string>,
+  ticker: string,
+  rawAddress: string,
+  entityId: string | null,
+  name: string | null
+): void {
+  const upperTicker = ticker.toUpperCase();
+  // Lowercase first: a bad EIP-55 checksum in the export must not drop the entry
+  const address = rawAddress.toLowerCase();
+  if (!EVM_TICKERS.has(upperTicker) || !ethers.isAddress(address)) return;
+
+  const key = `${address}:${upperTicker}`;
+  if (seen.has(key)) return;
+  seen.add(key);
+  entries.push({ address, ticker: upperTicker, entityId, name });
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Parse the SDN advanced XML export.
+ */
+export function parseSdnAdvancedXml(xml: string): ParsedSdnList {
+  const featureTickers = new Map<string, string>();
+  for (const match of xml.matchAll(FEATURE_TYPE)) {
+    featureTickers.set(match[1], match[2]);
+  }
+
+  const entries: SdnAddressEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const party of xml.matchAll(DISTINCT_PARTY)) {
+    const entityId = party[1];
+    const body = party[2];
+    const nameMatch = body.match(NAME_PART);
+    const name = nameMatch ? decodeXmlEntities(nameMatch[1].trim()) : null;
+
+    for (const feature of body.matchAll(FEATURE)) {
+      const ticker = featureTickers.get(feature[1]);
+      if (!ticker) continue;
+      for (const detail of feature[2].matchAll(VERSION_DETAIL)) {
+        collect(entries, seen, ticker, detail[1].trim(), entityId, name);
+      }
+    }
+  }
+
+  const issued = xml.match(
+    /<DateOfIssue>\s*<Year>(\d{4})<\/Year>\s*<Month>(\d{1,2})<\/Month>\s*<Day>(\d{1,2})<\/Day>/
+  );
+  const publicationDate = issued
+    ? `${issued[1]}-${issued[2].padStart(2, "0")}-${issued[3].padStart(2, "0")}`
+    : null;
+
+  return { format: "xml", publicationDate, entries };
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting).
+ */
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const ch = csv[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (csv[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && csv[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Parse the SDN CSV export (sdn.csv or sdn_comments.csv). Column 0 is the
+ * entity number and column 1 the name in sdn.csv; every column is scanned
+ * for digital currency remarks.
+ */
+export function parseSdnCsv(csv: string): ParsedSdnList {
+  const entries: SdnAddressEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const row of parseCsvRows(csv)) {
+    const entityId = /^\d+$/.test(row[0]?.trim() ?? "") ? row[0].trim() : null;
+    const rawName = row[1]?.trim();
+    // OFAC writes "-0-" for empty fields
+    const name = rawName && rawName !== "-0-" && !rawName.includes("Digital Currency") ? rawName : null;
+
+    for (const fieldValue of row) {
+      for (const match of fieldValue.matchAll(DIGITAL_CURRENCY_REMARK)) {
+        collect(entries, seen, match[1], match[2], entityId, name);
+      }
+    }
+  }
+
+  return { format: "csv", publicationDate: null, entries };
+}
+
+/**
+ * Parse a flat JSON address list (`[...]` or `{ addresses: [...] }`).
+ */
+export function parseAddressJson(json: string): ParsedSdnList {
+  const parsed = JSON.parse(json);
+  const addresses: unknown[] = Array.isArray(parsed) ? parsed : parsed.addresses ?? [];
+
+  const entries: SdnAddressEntry[] = [];
+  const seen = new Set<string>();
+  for (const addr of addresses) {
+    if (typeof addr === "string") {
+      collect(entries, seen, "ETH", addr, null, null);
+    }
+  }
+
+  return { format: "json", publicationDate: null, entries };
+}
+
+/**
+ * Parse an SDN export, choosing the parser by file extension.
+ */
+export function parseSdnFile(fileName: string, content: string): ParsedSdnList {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith(".xml")) return parseSdnAdvancedXml(content);
+  if (lower.endsWith(".csv")) return parseSdnCsv(content);
+  if (lower.endsWith(".json")) return parseAddressJson(content);
+  throw new Error(`Unsupported SDN list format: ${fileName} (expected .xml, .csv or .json)`);
+}
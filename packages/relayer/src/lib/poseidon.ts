@@ -0,0 +1,41 @@
+import { ethers } from "ethers";
+import { buildPoseidon } from "circomlibjs";
+
+/**
+ * Cached Poseidon hash for the relayer.
+ * Uses circomlibjs (wasm-backed) — same implementation as the SDK, the
+ * circuits and the on-chain PoseidonHasher.
+ */
+
+type Poseidon = Awaited<ReturnType<typeof buildPoseidon>>;
+
+let poseidon: Poseidon | null = null;
+
+/**
+ * Build and cache the Poseidon instance. Must be awaited once at startup
+ * before any tree is constructed or hashed.
+ */
+export async function initPoseidon(): Promise<void> {
+  if (!poseidon) {
+    poseidon = await buildPoseidon();
+  }
+}
+
+/**
+ * Convert a bigint field element to a bytes32 hex string.
+ */
+export function fieldToBytes32(value: bigint): string {
+  return ethers.toBeHex(value, 32);
+}
+
+/**
+ * Poseidon(left, right) over bytes32 hex strings, returned as bytes32.
+ * Matches MerkleTreeWithHistory._hashLeftRight.
+ */
+export function poseidonHash2(left: string, right: string): string {
+  if (!poseidon) {
+    throw new Error("Poseidon not initialized. Call initPoseidon() first.");
+  }
+  const hash = poseidon([BigInt(left), BigInt(right)]);
+  return fieldToBytes32(poseidon.F.toObject(hash));
+}
@@ -0,0 +1,180 @@
+import { ethers } from "ethers";
+
+/**
+ * Decoding and classification of failed PrivacyPool / TokenPool
+ * withdraw() calls. Permanent failures will revert the same way on every
+ * retry and are rejected; anything else (RPC errors, timeouts, unknown
+ * reverts) is retried. Also decodes EntryPoint rejections of sponsored
+ * UserOperations, down to the PrivacyPaymaster error behind them.
+ */
+
+export type FailureClass = "permanent" | "transient";
+
+export interface WithdrawFailure {
+  class: FailureClass;
+  /** Decoded revert reason, or the error message */
+  reason: string;
+}
+
+// Custom errors and require() messages shared by PrivacyPool and TokenPool
+const POOL_ERRORS = new ethers.Interface([
+  "error InvalidDenomination()",
+  "error CommitmentAlreadyExists()",
+  "error InvalidMerkleRoot()",
+  "error NullifierAlreadySpent()",
+  "error InvalidWithdrawProof()",
+  "error InvalidFee()",
+  "error PaymentFailed()",
+  "error FeeOnTransferNotSupported()",
+  "error MerkleTreeFull()",
+]);
+
+const PERMANENT_ERRORS: Record<string, string> = {
+  NullifierAlreadySpent: "Nullifier already spent",
+  InvalidMerkleRoot: "Merkle root not in the pool's root history",
+  InvalidWithdrawProof: "Withdraw proof rejected by the verifier",
+  InvalidFee: "Fee exceeds the pool denomination",
+  PaymentFailed: "Recipient or relayer rejected the payment",
+};
+
+const PERMANENT_MESSAGES = ["Invalid ASP root", "refund not supported for token pools"];
+
+// EntryPoint v0.7 validation failures; paymaster reverts arrive as the inner data
+const ENTRY_POINT_ERRORS = new ethers.Interface([
+  "error FailedOp(uint256 opIndex, string reason)",
+  "error FailedOpWithRevert(uint256 opIndex, string reason, bytes inner)",
+]);
+
+const PAYMASTER_ERRORS = new ethers.Interface([
+  "error NullifierAlreadyUsed()",
+  "error InvalidMerkleRoot()",
+  "error InvalidMembershipProof()",
+  "error GasCostExceedsMax()",
+  "error InvalidPaymasterDataLength()",
+]);
+
+const PAYMASTER_ERROR_MESSAGES: Record<string, string> = {
+  NullifierAlreadyUsed: "Sponsorship nullifier already used",
+  InvalidMerkleRoot: "Merkle root not in the pool's root history",
+  InvalidMembershipProof: "Membership proof rejected by the verifier",
+  GasCostExceedsMax: "Gas cost exceeds the paymaster's maxGasSponsorship",
+  InvalidPaymasterDataLength: "Malformed paymasterAndData",
+};
+
+// Paymaster errors that reject the sponsorship itself, however the op is signed
+const PAYMASTER_REJECTIONS = [
+  "NullifierAlreadyUsed",
+  "InvalidMerkleRoot",
+  "InvalidMembershipProof",
+  "GasCostExceedsMax",
+];
+
+/**
+ * Find revert data in an ethers error, which nests the node's JSON-RPC
+ * error differently depending on the call and provider.
+ */
+export function findRevertData(err: unknown): string | null {
+  const seen = new Set<unknown>();
+  const stack: unknown[] = [err];
+  while (stack.length > 0) {
+    const current = stack.pop();
+    if (!current || typeof current !== "object" || seen.has(current)) continue;
+    seen.add(current);
+
+    const data = (current as { data?: unknown }).data;
+    if (typeof data === "string" && ethers.isHexString(data) && data.length >= 10) {
+      return data;
+    }
+    const { error, info } = current as { error?: unknown; info?: unknown };
+    stack.push(data, error, info);
+  }
+  return null;
+}
+
+/**
+ * Decode revert data into an error name (custom errors) or message
+ * (require / revert strings). Null if it matches neither.
+ */
+export function decodeRevertData(data: string): string | null {
+  try {
+    const parsed = POOL_ERRORS.parseError(data);
+    if (!parsed) return null;
+    if (parsed.name === "Error") return String(parsed.args[0]);
+    if (parsed.name === "Panic") return `Panic(${parsed.args[0]})`;
+    return parsed.name;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classify an error thrown while simulating or sending a withdrawal.
+ */
+export function classifyWithdrawError(err: unknown): WithdrawFailure {
+  const data = findRevertData(err);
+  const decoded = data ? decodeRevertData(data) : null;
+
+  if (decoded) {
+    if (decoded in PERMANENT_ERRORS) {
+      return { class: "permanent", reason: `${decoded}: ${PERMANENT_ERRORS[decoded]}` };
+    }
+    if (PERMANENT_MESSAGES.includes(decoded)) {
+      return { class: "permanent", reason: decoded };
+    }
+    return { class: "transient", reason: `Reverted: ${decoded}` };
+  }
+
+  const message = err instanceof Error ? err.message : String(err);
+  return { class: "transient", reason: message };
+}
+
+/**
+ * Decode an EntryPoint FailedOp / FailedOpWithRevert revert into its AA
+ * code and, for paymaster reverts, the PrivacyPaymaster error, e.g.
+ * "AA33 reverted: NullifierAlreadyUsed: Sponsorship nullifier already used".
+ * Null if the data is not an EntryPoint validation failure.
+ */
+export function decodeUserOpRevert(data: string): string | null {
+  let parsed: ethers.ErrorDescription | null;
+  try {
+    parsed = ENTRY_POINT_ERRORS.parseError(data);
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+  if (parsed.name === "Error") return String(parsed.args[0]);
+  if (parsed.name !== "FailedOp" && parsed.name !== "FailedOpWithRevert") return null;
+
+  const reason = String(parsed.args.reason);
+  if (parsed.name === "FailedOp") return reason;
+
+  const inner: string = parsed.args.inner;
+  try {
+    const innerError = PAYMASTER_ERRORS.parseError(inner);
+    if (innerError?.name === "Error") return `${reason}: ${innerError.args[0]}`;
+    if (innerError && innerError.name in PAYMASTER_ERROR_MESSAGES) {
+      return `${reason}: ${innerError.name}: ${PAYMASTER_ERROR_MESSAGES[innerError.name]}`;
+    }
+  } catch {
+    // Not a paymaster error; report the AA code alone
+  }
+  return reason;
+}
+
+/**
+ * Decode a FailedOpWithRevert carrying one of the PAYMASTER_REJECTIONS, in
+ * the form decodeUserOpRevert returns. Null for any other revert.
+ */
+export function decodePaymasterRejection(data: string): string | null {
+  let parsed: ethers.ErrorDescription | null;
+  let inner: ethers.ErrorDescription | null;
+  try {
+    parsed = ENTRY_POINT_ERRORS.parseError(data);
+    if (parsed?.name !== "FailedOpWithRevert") return null;
+    inner = PAYMASTER_ERRORS.parseError(parsed.args.inner);
+  } catch {
+    return null;
+  }
+  if (!inner || !PAYMASTER_REJECTIONS.includes(inner.name)) return null;
+  return `${parsed.args.reason}: ${inner.name}: ${PAYMASTER_ERROR_MESSAGES[inner.name]}`;
+}
@@ -0,0 +1,99 @@
+/**
+ * Screening policy: combines per-provider results into a single decision.
+ *
+ *   1. A veto provider scoring 1.0 (an exact sanctions-list hit) blocks.
+ *   2. Otherwise an allowlist match approves (trusted exchange wallets).
+ *   3. Otherwise the weighted mean of the scores that came back is compared
+ *      with the review and block thresholds.
+ *
+ * Providers that failed are recorded with an `<name>_unavailable` flag and
+ * left out of the mean. If no weighted provider answered, evaluation throws
+ * so the caller can retry instead of approving unscreened. If a veto
+ * provider failed, the address was not checked against that sanctions
+ * list, so it is never approved: the decision is at least review.
+ */
+
+export type ScreeningDecision = "approve" | "review" | "block";
+
+/** What a single provider said about an address. */
+export interface ProviderResult {
+  provider: string;
+  /** 0.0 = clean … 1.0 = sanctioned; null if the provider has no opinion. */
+  score: number | null;
+  flags: string[];
+  /** Set by allowlist providers for a trusted address. */
+  allow?: boolean;
+  error?: string;
+}
+
+export interface ScreeningPolicy {
+  reviewThreshold: number;
+  blockThreshold: number;
+  /** Provider name -> weight in the mean. Unlisted providers weigh 0. */
+  weights: Record<string, number>;
+  /** Providers whose 1.0 score blocks regardless of the mean. */
+  vetoProviders: string[];
+}
+
+export interface ScreeningEvaluation {
+  decision: ScreeningDecision;
+  riskScore: number;
+  flags: string[];
+}
+
+export function evaluateScreening(
+  results: ProviderResult[],
+  policy: ScreeningPolicy
+): ScreeningEvaluation {
+  const flags: string[] = [];
+  for (const result of results) {
+    flags.push(...result.flags);
+    if (result.error) flags.push(`${result.provider}_unavailable`);
+  }
+
+  const vetoed = results.some(
+    (r) => r.score !== null && r.score >= 1 && policy.vetoProviders.includes(r.provider)
+  );
+  if (vetoed) {
+    return { decision: "block", riskScore: 1.0, flags };
+  }
+
+  let weightSum = 0;
+  let weightedScore = 0;
+  for (const result of results) {
+    const weight = policy.weights[result.provider] ?? 0;
+    if (result.error || result.score === null || weight <= 0) continue;
+    weightSum += weight;
+    weightedScore += weight * Math.min(Math.max(result.score, 0), 1);
+  }
+
+  const vetoUnavailable = results.some(
+    (r) => r.error && policy.vetoProviders.includes(r.provider)
+  );
+
+  if (results.some((r) => r.allow)) {
+    return {
+      decision: vetoUnavailable ? "review" : "approve",
+      riskScore: weightSum > 0 ? weightedScore / weightSum : 0,
+      flags,
+    };
+  }
+
+  if (weightSum === 0) {
+    throw new Error(
+      `No screening provider returned a score (${flags.join(", ") || "no providers"})`
+    );
+  }
+
+  const riskScore = weightedScore / weightSum;
+  const decision: ScreeningDecision =
+    riskScore >= policy.blockThreshold
+      ? "block"
+      : riskScore >= policy.reviewThreshold
+        ? "review"
+        : vetoUnavailable
+          ? "review"
+          : "approve";
+
+  return { decision, riskScore, flags };
+}
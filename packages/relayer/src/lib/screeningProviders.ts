@@ -0,0 +1,151 @@
+import { ethers } from "ethers";
+import { ProviderResult } from "./screeningPolicy";
+
+/**
+ * A source of screening information about an address. Implementations
+ * report failures by throwing; the caller records them as unavailable.
+ */
+export interface ScreeningProvider {
+  readonly name: string;
+  screen(address: string): Promise<ProviderResult>;
+}
+
+const SANCTIONS_ORACLE_ABI = [
+  "function isSanctioned(address addr) external view returns (bool)",
+];
+
+/**
+ * Chainalysis Sanctions Oracle (on-chain): 1.0 if sanctioned, else 0.0.
+ */
+export class ChainalysisOracleProvider implements ScreeningProvider {
+  readonly name = "chainalysis";
+  private readonly oracle: ethers.Contract;
+
+  constructor(rpcUrl: string, oracleAddress: string) {
+    const provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.oracle = new ethers.Contract(oracleAddress, SANCTIONS_ORACLE_ABI, provider);
+  }
+
+  async screen(address: string): Promise<ProviderResult> {
+    const sanctioned: boolean = await this.oracle.isSanctioned(address);
+    return {
+      provider: this.name,
+      score: sanctioned ? 1.0 : 0.0,
+      flags: sanctioned ? ["chainalysis_sanctioned"] : [],
+    };
+  }
+}
+
+/**
+ * Membership in an address list (OFAC SDN, internal denylist): `hitScore`
+ * with `hitFlag` on a match, 0.0 otherwise. The lookup is called per screen
+ * so the underlying list can be reloaded.
+ */
+export class AddressListProvider implements ScreeningProvider {
+  constructor(
+    readonly name: string,
+    private readonly lookup: (address: string) => boolean | Promise<boolean>,
+    private readonly hitFlag: string,
+    private readonly hitScore: number = 1.0
+  ) {}
+
+  async screen(address: string): Promise<ProviderResult> {
+    const hit = await this.lookup(address.toLowerCase());
+    return {
+      provider: this.name,
+      score: hit ? this.hitScore : 0.0,
+      flags: hit ? [this.hitFlag] : [],
+    };
+  }
+}
+
+/**
+ * Trusted addresses (e.g. exchange hot wallets). Has no score of its own;
+ * a match lets the policy approve unless a veto provider hits.
+ */
+export class AllowlistProvider implements ScreeningProvider {
+  constructor(
+    readonly name: string,
+    private readonly addresses: Set<string>
+  ) {}
+
+  async screen(address: string): Promise<ProviderResult> {
+    const allowed = this.addresses.has(address.toLowerCase());
+    return {
+      provider: this.name,
+      score: null,
+      flags: allowed ? [`${this.name}_allowlisted`] : [],
+      allow: allowed,
+    };
+  }
+}
+
+export interface HttpRiskApiOptions {
+  /** URL with an `{address}` placeholder, e.g. https://risk.example/v1/address/{address} */
+  url: string;
+  apiKey?: string;
+  /** Header carrying the API key (default: Authorization, sent as `Bearer <key>`). */
+  apiKeyHeader?: string;
+  /** JSON field holding the score (dot path, default: riskScore). */
+  scoreField?: string;
+  /** JSON field holding a string array of flags (dot path, default: flags). */
+  flagsField?: string;
+  /** Divisor mapping the API's score range to 0..1 (e.g. 100 for 0-100). */
+  scoreScale?: number;
+  timeoutMs?: number;
+}
+
+function readPath(body: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) =>
+      value !== null && typeof value === "object"
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    body
+  );
+}
+
+/**
+ * Generic HTTP risk-scoring API. GETs the configured URL for the address
+ * and reads a numeric score (and optional flags) from the JSON response.
+ */
+export class HttpRiskApiProvider implements ScreeningProvider {
+  constructor(
+    readonly name: string,
+    private readonly options: HttpRiskApiOptions
+  ) {}
+
+  async screen(address: string): Promise<ProviderResult> {
+    const { apiKey, apiKeyHeader = "Authorization" } = this.options;
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (apiKey) {
+      headers[apiKeyHeader] = apiKeyHeader === "Authorization" ? `Bearer ${apiKey}` : apiKey;
+    }
+
+    const url = this.options.url.replace("{address}", encodeURIComponent(address));
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 5000),
+    });
+    if (!response.ok) {
+      throw new Error(`${this.name} returned HTTP ${response.status}`);
+    }
+
+    const body: unknown = await response.json();
+    const rawScore = Number(readPath(body, this.options.scoreField ?? "riskScore"));
+    if (!Number.isFinite(rawScore)) {
+      throw new Error(`${this.name} response has no numeric score`);
+    }
+
+    const rawFlags = readPath(body, this.options.flagsField ?? "flags");
+    const flags = Array.isArray(rawFlags)
+      ? rawFlags.filter((f): f is string => typeof f === "string").map((f) => `${this.name}:${f}`)
+      : [];
+
+    return {
+      provider: this.name,
+      score: Math.min(Math.max(rawScore / (this.options.scoreScale ?? 1), 0), 1),
+      flags,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Gas limits and fee caps for sponsored UserOperations. The EntryPoint
+ * charges the paymaster's prefund as the sum of all five gas limits times
+ * maxFeePerGas, and PrivacyPaymaster reverts with GasCostExceedsMax when
+ * that exceeds its maxGasSponsorship; the fee caps are lowered to fit.
+ */
+
+export interface UserOpGasLimits {
+  preVerificationGas: bigint;
+  verificationGasLimit: bigint;
+  callGasLimit: bigint;
+  paymasterVerificationGasLimit: bigint;
+  paymasterPostOpGasLimit: bigint;
+}
+
+export interface UserOpGasFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/** Limits used before (or without) a bundler estimate */
+export const DEFAULT_GAS_LIMITS: UserOpGasLimits = {
+  preVerificationGas: 50000n,
+  verificationGasLimit: 500000n,
+  callGasLimit: 300000n,
+  paymasterVerificationGasLimit: 500000n,
+  paymasterPostOpGasLimit: 100000n,
+};
+
+/**
+ * Total gas the EntryPoint reserves for the op (its requiredPrefund is
+ * this times maxFeePerGas).
+ */
+export function totalGasLimit(limits: UserOpGasLimits): bigint {
+  return (
+    limits.preVerificationGas +
+    limits.verificationGasLimit +
+    limits.callGasLimit +
+    limits.paymasterVerificationGasLimit +
+    limits.paymasterPostOpGasLimit
+  );
+}
+
+export function sameGasLimits(a: UserOpGasLimits, b: UserOpGasLimits): boolean {
+  return (
+    a.preVerificationGas === b.preVerificationGas &&
+    a.verificationGasLimit === b.verificationGasLimit &&
+    a.callGasLimit === b.callGasLimit &&
+    a.paymasterVerificationGasLimit === b.paymasterVerificationGasLimit &&
+    a.paymasterPostOpGasLimit === b.paymasterPostOpGasLimit
+  );
+}
+
+/**
+ * Fit the fee caps under maxGasSponsorship: maxFeePerGas is lowered to
+ * the most the paymaster will cover for these limits, and the priority fee
+ * to at most maxFeePerGas. Returns null if that would fall below
+ * minFeePerGas (the network base fee), so the op could never be included.
+ */
+export function fitFeesToSponsorship(
+  limits: UserOpGasLimits,
+  fees: UserOpGasFees,
+  maxGasSponsorship: bigint,
+  minFeePerGas: bigint
+): UserOpGasFees | null {
+  const maxFeePerGas = maxGasSponsorship / totalGasLimit(limits);
+  if (fees.maxFeePerGas <= maxFeePerGas) return fees;
+  if (maxFeePerGas === 0n || maxFeePerGas < minFeePerGas) return null;
+
+  return {
+    maxFeePerGas,
+    maxPriorityFeePerGas:
+      fees.maxPriorityFeePerGas < maxFeePerGas ? fees.maxPriorityFeePerGas : maxFeePerGas,
+  };
+}
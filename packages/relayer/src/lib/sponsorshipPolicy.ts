@@ -0,0 +1,173 @@
+import { ethers } from "ethers";
+
+/**
+ * Sponsorship policy: decides which UserOperations the paymaster pays for.
+ *
+ *   1. initCode must deploy through an allowlisted factory (if configured).
+ *   2. callData must be a SimpleAccount execute / executeBatch call; each
+ *      inner call's target must be allowlisted and, where the target lists
+ *      selectors, call one of them (if targets are configured).
+ *   3. The op's total gas limit must not exceed maxGasPerOp (if set).
+ *
+ * A rejection carries a machine-readable code plus the offending call.
+ */
+
+export type PolicyViolationCode =
+  | "factory_not_allowed"
+  | "unsupported_call"
+  | "target_not_allowed"
+  | "selector_not_allowed"
+  | "gas_limit_exceeded";
+
+export interface PolicyViolation {
+  code: PolicyViolationCode;
+  message: string;
+  /** Index of the offending inner call in an executeBatch */
+  callIndex?: number;
+  target?: string;
+  selector?: string;
+}
+
+export interface SponsorshipPolicy {
+  /** Lowercased account factories; null allows any initCode */
+  factories: string[] | null;
+  /**
+   * Lowercased target -> allowed 4-byte selectors (empty allows any
+   * function); null allows any target.
+   */
+  targets: Record<string, string[]> | null;
+  /** Ceiling on the op's summed gas limits; null for none */
+  maxGasPerOp: bigint | null;
+}
+
+/** An inner call made by the smart account. */
+export interface AccountCall {
+  target: string;
+  value: bigint;
+  data: string;
+}
+
+export class SponsorshipPolicyError extends Error {
+  readonly violation: PolicyViolation;
+
+  constructor(violation: PolicyViolation) {
+    super(`Sponsorship policy violation: ${violation.message}`);
+    this.name = "SponsorshipPolicyError";
+    this.violation = violation;
+  }
+}
+
+const ACCOUNT_INTERFACE = new ethers.Interface([
+  "function execute(address dest, uint256 value, bytes func)",
+  // SimpleAccount v0.7
+  "function executeBatch(address[] dest, uint256[] value, bytes[] func)",
+  // SimpleAccount v0.6 (no values)
+  "function executeBatch(address[] dest, bytes[] func)",
+]);
+
+/**
+ * Normalize a selector given as 4-byte hex ("0xa9059cbb") or a function
+ * signature ("transfer(address,uint256)").
+ */
+export function toSelector(value: string): string {
+  if (ethers.isHexString(value, 4)) return value.toLowerCase();
+  if (value.includes("(")) return ethers.id(value.replace(/\s/g, "")).slice(0, 10);
+  throw new Error(`Invalid selector: ${value}`);
+}
+
+/**
+ * Decode SimpleAccount execute / executeBatch callData into its inner
+ * calls. Null if callData is neither.
+ */
+export function decodeAccountCalls(callData: string): AccountCall[] | null {
+  let parsed: ethers.TransactionDescription | null;
+  try {
+    parsed = ACCOUNT_INTERFACE.parseTransaction({ data: callData });
+  } catch {
+    return null;
+  }
+  if (!parsed) return null;
+
+  if (parsed.name === "execute") {
+    return [{ target: parsed.args[0], value: parsed.args[1], data: parsed.args[2] }];
+  }
+
+  const dests: string[] = [...parsed.args[0]];
+  const withValues = parsed.args.length === 3;
+  const funcs: string[] = [...(withValues ? parsed.args[2] : parsed.args[1])];
+  const values: bigint[] = withValues ? [...parsed.args[1]] : [];
+  // SimpleAccount accepts an empty value array as all zeros
+  if (funcs.length !== dests.length) return null;
+  if (values.length !== 0 && values.length !== dests.length) return null;
+  return dests.map((target, i) => ({
+    target,
+    value: values[i] ?? 0n,
+    data: funcs[i],
+  }));
+}
+
+/**
+ * Check a UserOperation against the policy. Returns the first violation,
+ * or null if the op may be sponsored.
+ */
+export function evaluateSponsorship(
+  op: { initCode: string; callData: string; gasLimit: bigint },
+  policy: SponsorshipPolicy
+): PolicyViolation | null {
+  if (policy.factories && op.initCode && op.initCode !== "0x") {
+    const factory =
+      ethers.dataLength(op.initCode) >= 20 ? ethers.dataSlice(op.initCode, 0, 20).toLowerCase() : "";
+    if (!policy.factories.includes(factory)) {
+      return {
+        code: "factory_not_allowed",
+        message: `account factory ${factory || "(malformed initCode)"} is not allowlisted`,
+        target: factory || undefined,
+      };
+    }
+  }
+
+  if (policy.targets) {
+    const calls = decodeAccountCalls(op.callData);
+    if (!calls) {
+      return {
+        code: "unsupported_call",
+        message: "callData is not a SimpleAccount execute or executeBatch call",
+        selector: op.callData.slice(0, 10).toLowerCase(),
+      };
+    }
+
+    for (const [i, call] of calls.entries()) {
+      const target = call.target.toLowerCase();
+      const selectors = policy.targets[target];
+      if (!selectors) {
+        return {
+          code: "target_not_allowed",
+          message: `call ${i} targets ${target}, which is not allowlisted`,
+          callIndex: i,
+          target,
+        };
+      }
+      // A plain value transfer has no selector: "0x"
+      const selector =
+        ethers.dataLength(call.data) >= 4 ? call.data.slice(0, 10).toLowerCase() : "0x";
+      if (selectors.length > 0 && !selectors.includes(selector)) {
+        return {
+          code: "selector_not_allowed",
+          message: `call ${i} to ${target} uses selector ${selector}, which is not allowlisted`,
+          callIndex: i,
+          target,
+          selector,
+        };
+      }
+    }
+  }
+
+  if (policy.maxGasPerOp !== null && op.gasLimit > policy.maxGasPerOp) {
+    return {
+      code: "gas_limit_exceeded",
+      message: `gas limit ${op.gasLimit} exceeds the per-op ceiling of ${policy.maxGasPerOp}`,
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,108 @@
+import { ethers } from "ethers";
+import EntryPointSimulations from "@account-abstraction/contracts/artifacts/EntryPointSimulations.json";
+import type { PackedUserOperation } from "../services/bundler.service";
+import { decodePaymasterRejection, decodeUserOpRevert } from "./revertReasons";
+
+/**
+ * Validation of UserOperations with EntryPoint v0.7's simulateValidation.
+ * v0.7 moved it into the off-chain EntryPointSimulations contract, which
+ * is run with eth_call by overriding the code at the EntryPoint address,
+ * so the op is validated against the EntryPoint's own deposits and nonces.
+ * The relayer chooses a sponsored op's gas limits and fees, so the account
+ * signs it only afterwards: a failed account signature means the
+ * signature is pending, while a PrivacyPaymaster rejection is final.
+ */
+
+export type SimulationOutcome =
+  /** Account and paymaster validation passed */
+  | { status: "valid" }
+  /** Only the account signature failed */
+  | { status: "signaturePending"; reason: string }
+  /** PrivacyPaymaster rejected the sponsorship */
+  | { status: "rejected"; reason: string }
+  /** Any other validation failure */
+  | { status: "failed"; reason: string };
+
+/**
+ * Stand-in for a missing signature: 65 bytes ecrecover accepts, so ECDSA
+ * accounts report sigFailed instead of reverting on the length.
+ */
+export const DUMMY_SIGNATURE =
+  "0xfffffffffffffffffffffffffffffff0000000000000000000000000000000007aaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa1c";
+
+// Account reverts a wrong signature can cause (accounts that revert instead of returning sigFailed)
+const SIGNATURE_FAILURES = ["AA23 reverted", "AA24 signature error"];
+
+// validationData: aggregator (0 = ok, 1 = sigFailed) | validUntil << 160 | validAfter << 208
+const SIG_FAILED = 1n;
+const ADDRESS_MASK = (1n << 160n) - 1n;
+const UINT48_MASK = (1n << 48n) - 1n;
+
+const simulationsInterface = new ethers.Interface(EntryPointSimulations.abi);
+
+/**
+ * eth_call parameters running simulateValidation on the op, with
+ * EntryPointSimulations in place of the EntryPoint at `entryPoint`. An
+ * unsigned op ("0x") is simulated with DUMMY_SIGNATURE.
+ */
+export function simulateValidationCall(
+  entryPoint: string,
+  userOp: PackedUserOperation
+): [{ to: string; data: string }, string, Record<string, { code: string }>] {
+  const op = userOp.signature === "0x" ? { ...userOp, signature: DUMMY_SIGNATURE } : userOp;
+  return [
+    { to: entryPoint, data: simulationsInterface.encodeFunctionData("simulateValidation", [op]) },
+    "latest",
+    { [entryPoint]: { code: EntryPointSimulations.deployedBytecode } },
+  ];
+}
+
+function outOfTimeRange(validationData: bigint, now: number): boolean {
+  const validUntil = Number((validationData >> 160n) & UINT48_MASK);
+  const validAfter = Number((validationData >> 208n) & UINT48_MASK);
+  return now < validAfter || (validUntil !== 0 && now > validUntil);
+}
+
+/**
+ * Classify a simulateValidationCall result: its return data, or its revert
+ * data if it reverted. `now` is the current time in seconds.
+ */
+export function classifySimulation(
+  result: { returnData: string } | { revertData: string },
+  now: number
+): SimulationOutcome {
+  if ("revertData" in result) {
+    const rejection = decodePaymasterRejection(result.revertData);
+    if (rejection) return { status: "rejected", reason: rejection };
+    const reason =
+      decodeUserOpRevert(result.revertData) ?? `reverted with ${result.revertData.slice(0, 10)}`;
+    if (SIGNATURE_FAILURES.some((failure) => reason.startsWith(failure))) {
+      return { status: "signaturePending", reason };
+    }
+    return { status: "failed", reason };
+  }
+
+  const [validation] = simulationsInterface.decodeFunctionResult(
+    "simulateValidation",
+    result.returnData
+  );
+  const account: bigint = validation.returnInfo.accountValidationData;
+  const paymaster: bigint = validation.returnInfo.paymasterValidationData;
+  if ((paymaster & ADDRESS_MASK) !== 0n) {
+    return { status: "failed", reason: "AA34 signature error" };
+  }
+  if (outOfTimeRange(paymaster, now)) {
+    return { status: "failed", reason: "AA32 paymaster expired or not due" };
+  }
+  const aggregator = account & ADDRESS_MASK;
+  if (aggregator > SIG_FAILED) {
+    return { status: "failed", reason: "AA24 signature error: aggregators are not supported" };
+  }
+  if (outOfTimeRange(account, now)) {
+    return { status: "failed", reason: "AA22 expired or not due" };
+  }
+  if (aggregator === SIG_FAILED) {
+    return { status: "signaturePending", reason: "AA24 signature error" };
+  }
+  return { status: "valid" };
+}
@@ -0,0 +1,168 @@
+import crypto from "crypto";
+import { ethers } from "ethers";
+import { NextFunction, Request, Response } from "express";
+import { config } from "../config";
+import { AdminIdentity, claimAdminSignature } from "../services/admin.service";
+
+/**
+ * Authentication for the /admin router. A request is accepted with either:
+ *
+ *   - `Authorization: Bearer <key>` matching one of ADMIN_API_KEYS, or
+ *   - an EIP-191 personal_sign signature by the ASPRegistry owner over
+ *     adminSigningMessage(), sent as `X-Admin-Signature` together with the
+ *     unix `X-Admin-Timestamp` (seconds) it signed.
+ *
+ * The authenticated identity is stored in `res.locals.admin`.
+ */
+
+const ASP_REGISTRY_ABI = ["function owner() view returns (address)"];
+
+// How long the on-chain owner lookup is reused
+const OWNER_CACHE_MS = 60_000;
+
+let ownerCache: { address: string; fetchedAt: number } | null = null;
+
+/** Request with the raw JSON body captured by express.json({ verify }). */
+export type RawBodyRequest = Request & { rawBody?: Buffer };
+
+/**
+ * The message an operator signs for a request. The body hash binds the
+ * signature to the exact JSON payload.
+ */
+export function adminSigningMessage(
+  method: string,
+  path: string,
+  timestamp: string,
+  body: Buffer | undefined
+): string {
+  const bodyHash = ethers.keccak256(body ?? new Uint8Array());
+  return [
+    "ZGas relayer admin request",
+    `${method.toUpperCase()} ${path}`,
+    `Timestamp: ${timestamp}`,
+    `Body: ${bodyHash}`,
+  ].join("\n");
+}
+
+async function getASPOwner(): Promise<string> {
+  if (ownerCache && Date.now() - ownerCache.fetchedAt < OWNER_CACHE_MS) {
+    return ownerCache.address;
+  }
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const registry = new ethers.Contract(
+    config.contracts.aspRegistry,
+    ASP_REGISTRY_ABI,
+    provider
+  );
+  const owner: string = await registry.owner();
+  ownerCache = { address: owner.toLowerCase(), fetchedAt: Date.now() };
+  return ownerCache.address;
+}
+
+/**
+ * Compare against every configured key in constant time. Returns a short
+ * fingerprint identifying the matched key, never the key itself.
+ */
+function matchApiKey(presented: string): string | null {
+  const digest = crypto.createHash("sha256").update(presented).digest();
+  let matched: string | null = null;
+  for (const key of config.adminApiKeys) {
+    const keyDigest = crypto.createHash("sha256").update(key).digest();
+    if (crypto.timingSafeEqual(digest, keyDigest)) {
+      matched = keyDigest.toString("hex").slice(0, 8);
+    }
+  }
+  return matched;
+}
+
+export async function requireAdmin(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const authorization = req.header("authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    const fingerprint = matchApiKey(authorization.slice("Bearer ".length).trim());
+    if (!fingerprint) {
+      res.status(401).json({ error: "Invalid API key" });
+      return;
+    }
+    const admin: AdminIdentity = { actor: `api-key:${fingerprint}`, authMethod: "api_key" };
+    res.locals.admin = admin;
+    next();
+    return;
+  }
+
+  const signature = req.header("x-admin-signature");
+  const timestamp = req.header("x-admin-timestamp");
+  if (!signature || !timestamp) {
+    res.status(401).json({ error: "Missing admin credentials" });
+    return;
+  }
+
+  const now = Date.now();
+  const signedAtMs = parseInt(timestamp, 10) * 1000;
+  if (!Number.isFinite(signedAtMs) || Math.abs(now - signedAtMs) > config.adminSignatureTtlMs) {
+    res.status(401).json({ error: "Signature timestamp expired or invalid" });
+    return;
+  }
+
+  let signer: string;
+  let messageHash: string;
+  try {
+    const message = adminSigningMessage(
+      req.method,
+      req.originalUrl,
+      timestamp,
+      (req as RawBodyRequest).rawBody
+    );
+    messageHash = ethers.hashMessage(message);
+    signer = ethers.recoverAddress(messageHash, signature).toLowerCase();
+  } catch {
+    res.status(401).json({ error: "Invalid signature" });
+    return;
+  }
+
+  let owner: string;
+  try {
+    owner = await getASPOwner();
+  } catch (err) {
+    console.error(
+      "[Admin] Failed to read ASP registry owner:",
+      err instanceof Error ? err.message : err
+    );
+    res.status(503).json({ error: "Unable to verify ASP owner" });
+    return;
+  }
+
+  if (signer !== owner) {
+    res.status(403).json({ error: "Signer is not the ASP owner" });
+    return;
+  }
+
+  // Replays are detected by signer and signed message rather than the raw
+  // signature, which can be re-encoded (v as 0/1, EIP-2098 compact form)
+  let fresh: boolean;
+  try {
+    fresh = await claimAdminSignature(
+      signer,
+      messageHash,
+      new Date(signedAtMs + config.adminSignatureTtlMs)
+    );
+  } catch (err) {
+    console.error(
+      "[Admin] Failed to record admin signature:",
+      err instanceof Error ? err.message : err
+    );
+    res.status(503).json({ error: "Unable to verify signature freshness" });
+    return;
+  }
+  if (!fresh) {
+    res.status(401).json({ error: "Signature already used" });
+    return;
+  }
+
+  const admin: AdminIdentity = { actor: signer, authMethod: "signature" };
+  res.locals.admin = admin;
+  next();
+}
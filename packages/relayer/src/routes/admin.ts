@@ -0,0 +1,326 @@
+import { Router, Request, Response } from "express";
+import { ethers } from "ethers";
+import { query } from "../db";
+import {
+  applyRevocationsAndPublish,
+  approvePendingCommitment,
+  retryRevocation,
+  revokeCommitment,
+  unblockCommitment,
+} from "../services/asp.service";
+import { requeueFailedWithdrawal } from "../services/relayer.service";
+import {
+  AdminIdentity,
+  getAdminAuditLog,
+  recordAdminAction,
+} from "../services/admin.service";
+import { getActiveSanctionsListInfo } from "../services/sanctions.service";
+
+/**
+ * Operator endpoints. Mounted behind requireAdmin; every action is written
+ * to admin_audit_log whether it succeeds or fails.
+ */
+const router = Router();
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Map a service error to an HTTP status by its message.
+ */
+function statusForError(message: string): number {
+  if (message.includes("not found")) return 404;
+  if (
+    message.includes("not pending") ||
+    message.includes("not blocked") ||
+    message.includes("not failed") ||
+    message.includes("not in the ASP set") ||
+    message.includes("already")
+  ) {
+    return 409;
+  }
+  return 500;
+}
+
+/**
+ * Run an operator action, audit its outcome and send the response.
+ */
+async function runAdminAction(
+  res: Response,
+  action: string,
+  target: string | null,
+  params: Record<string, unknown> | null,
+  fn: () => Promise<Record<string, unknown>>
+): Promise<void> {
+  const admin = res.locals.admin as AdminIdentity;
+
+  let result: Record<string, unknown>;
+  try {
+    result = await fn();
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    await recordAdminAction({ admin, action, target, params, outcome: "failure", error: message })
+      .catch((auditErr) => console.error("[Admin] Failed to write audit log:", auditErr));
+
+    const status = statusForError(message);
+    if (status === 500) {
+      console.error(`[Admin] ${action} failed:`, err);
+    }
+    res.status(status).json({ error: message });
+    return;
+  }
+
+  await recordAdminAction({ admin, action, target, params, outcome: "success" })
+    .catch((auditErr) => console.error("[Admin] Failed to write audit log:", auditErr));
+
+  console.log(`[Admin] ${admin.actor} ${action}${target ? ` ${target}` : ""}`);
+  res.json({ action, target, ...result });
+}
+
+function isCommitment(value: string): boolean {
+  return ethers.isHexString(value, 32);
+}
+
+// ---------------------------------------------------------------------------
+// GET /admin/deposits/pending
+// Deposits whose screening is pending or held for review, oldest first.
+// Query: ?limit=100
+// ---------------------------------------------------------------------------
+router.get("/deposits/pending", async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "100"), 10) || 100, 1), 1000);
+    const result = await query<{
+      commitment: string;
+      screening_status: string;
+      risk_score: number | null;
+      screening_flags: string[] | null;
+      screening_providers: unknown;
+      depositor: string | null;
+      pool_address: string;
+      block_number: string;
+      created_at: Date;
+    }>(
+      `SELECT commitment, screening_status, risk_score, screening_flags, screening_providers,
+              depositor, pool_address, block_number, created_at
+       FROM deposits
+       WHERE screening_status IN ('pending', 'review')
+       ORDER BY block_number ASC
+       LIMIT $1`,
+      [limit]
+    );
+
+    res.json({
+      deposits: result.rows.map((row) => ({
+        commitment: row.commitment,
+        status: row.screening_status,
+        riskScore: row.risk_score,
+        flags: row.screening_flags,
+        providers: row.screening_providers,
+        depositor: row.depositor,
+        poolAddress: row.pool_address,
+        blockNumber: parseInt(row.block_number, 10),
+        timestamp: row.created_at,
+      })),
+    });
+  } catch (err) {
+    console.error("[Admin] GET /deposits/pending error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/deposits/:commitment/approve
+// Approve a deposit whose screening is pending or in review and add it to
+// the ASP tree.
+// Body: { note?: string }
+// ---------------------------------------------------------------------------
+router.post("/deposits/:commitment/approve", async (req: Request, res: Response) => {
+  const { commitment } = req.params;
+  if (!isCommitment(commitment)) {
+    res.status(400).json({ error: "Invalid commitment format" });
+    return;
+  }
+
+  const note = typeof req.body?.note === "string" ? req.body.note : null;
+  await runAdminAction(res, "approve_screening", commitment, { note }, () =>
+    approvePendingCommitment(commitment)
+  );
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/deposits/:commitment/unblock
+// Lift an on-chain block and add the commitment back to the ASP set.
+// Body: { reason: string }
+// ---------------------------------------------------------------------------
+router.post("/deposits/:commitment/unblock", async (req: Request, res: Response) => {
+  const { commitment } = req.params;
+  const { reason } = req.body ?? {};
+  if (!isCommitment(commitment)) {
+    res.status(400).json({ error: "Invalid commitment format" });
+    return;
+  }
+  if (!reason || typeof reason !== "string") {
+    res.status(400).json({ error: "Missing or invalid reason" });
+    return;
+  }
+
+  await runAdminAction(res, "unblock_commitment", commitment, { reason }, () =>
+    unblockCommitment(commitment)
+  );
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/deposits/:commitment/revoke
+// Remove an approved commitment from the ASP set now: its leaf is zeroed,
+// it is blocked on-chain and the new root is published. A failed on-chain
+// block is retried by the ASP updater; see GET /admin/revocations.
+// Body: { reason: string }
+// ---------------------------------------------------------------------------
+router.post("/deposits/:commitment/revoke", async (req: Request, res: Response) => {
+  const { commitment } = req.params;
+  const { reason } = req.body ?? {};
+  if (!isCommitment(commitment)) {
+    res.status(400).json({ error: "Invalid commitment format" });
+    return;
+  }
+  if (!reason || typeof reason !== "string") {
+    res.status(400).json({ error: "Missing or invalid reason" });
+    return;
+  }
+
+  const admin = res.locals.admin as AdminIdentity;
+  await runAdminAction(res, "revoke_commitment", commitment, { reason }, async () => ({
+    ...(await revokeCommitment(commitment, reason, admin.actor)),
+  }));
+});
+
+// ---------------------------------------------------------------------------
+// GET /admin/revocations
+// Revocations, newest first; ?status=failed lists those whose on-chain block
+// gave up and need a retry.
+// Query: ?status=pending|completed|failed&limit=100
+// ---------------------------------------------------------------------------
+router.get("/revocations", async (req: Request, res: Response) => {
+  const status = req.query.status ? String(req.query.status) : null;
+  if (status && !["pending", "completed", "failed"].includes(status)) {
+    res.status(400).json({ error: "Invalid status" });
+    return;
+  }
+
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "100"), 10) || 100, 1), 1000);
+    const result = await query<{
+      id: string;
+      commitment: string;
+      reason: string;
+      requested_by: string;
+      status: string;
+      attempts: number;
+      asp_leaf_index: number | null;
+      block_tx_hash: string | null;
+      error_message: string | null;
+      processed_at: Date | null;
+      created_at: Date;
+    }>(
+      `SELECT id, commitment, reason, requested_by, status, attempts, asp_leaf_index,
+              block_tx_hash, error_message, processed_at, created_at
+       FROM asp_revocations
+       WHERE ($1::varchar IS NULL OR status = $1)
+       ORDER BY created_at DESC
+       LIMIT $2`,
+      [status, limit]
+    );
+
+    res.json({
+      revocations: result.rows.map((row) => ({
+        id: row.id,
+        commitment: row.commitment,
+        reason: row.reason,
+        requestedBy: row.requested_by,
+        status: row.status,
+        attempts: row.attempts,
+        aspLeafIndex: row.asp_leaf_index,
+        blockTxHash: row.block_tx_hash,
+        error: row.error_message,
+        processedAt: row.processed_at,
+        createdAt: row.created_at,
+      })),
+    });
+  } catch (err) {
+    console.error("[Admin] GET /revocations error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/revocations/:id/retry
+// Retry the on-chain block of a failed revocation with a fresh attempt budget.
+// ---------------------------------------------------------------------------
+router.post("/revocations/:id/retry", async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!UUID_REGEX.test(id)) {
+    res.status(400).json({ error: "Invalid revocation id" });
+    return;
+  }
+
+  await runAdminAction(res, "retry_revocation", id, null, async () => ({
+    ...(await retryRevocation(id)),
+  }));
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/withdrawals/:id/requeue
+// Re-queue a failed withdrawal with a fresh retry budget.
+// ---------------------------------------------------------------------------
+router.post("/withdrawals/:id/requeue", async (req: Request, res: Response) => {
+  const { id } = req.params;
+  if (!UUID_REGEX.test(id)) {
+    res.status(400).json({ error: "Invalid withdrawal id" });
+    return;
+  }
+
+  await runAdminAction(res, "requeue_withdrawal", id, null, () =>
+    requeueFailedWithdrawal(id)
+  );
+});
+
+// ---------------------------------------------------------------------------
+// POST /admin/asp/publish
+// Apply pending revocations and publish the current ASP root now instead of
+// waiting for the next ASP update. Waits for an update in progress on any
+// replica.
+// ---------------------------------------------------------------------------
+router.post("/asp/publish", async (_req: Request, res: Response) => {
+  await runAdminAction(res, "publish_asp_root", null, null, () =>
+    applyRevocationsAndPublish()
+  );
+});
+
+// ---------------------------------------------------------------------------
+// GET /admin/sanctions-list
+// The OFAC list version currently used for screening.
+// ---------------------------------------------------------------------------
+router.get("/sanctions-list", (_req: Request, res: Response) => {
+  const info = getActiveSanctionsListInfo();
+  if (!info) {
+    res.status(404).json({ error: "No OFAC list ingested" });
+    return;
+  }
+  res.json(info);
+});
+
+// ---------------------------------------------------------------------------
+// GET /admin/audit
+// Recent operator actions, newest first.
+// Query: ?limit=100
+// ---------------------------------------------------------------------------
+router.get("/audit", async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(parseInt(String(req.query.limit ?? "100"), 10) || 100, 1), 1000);
+    res.json({ entries: await getAdminAuditLog(limit) });
+  } catch (err) {
+    console.error("[Admin] GET /audit error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+export default router;
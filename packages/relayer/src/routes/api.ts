@@ -1,8 +1,22 @@
 import { Router, Request, Response } from "express";
+import { ethers } from "ethers";
 import { query } from "../db";
-import { queueWithdrawal, getWithdrawalStatus } from "../services/relayer.service";
-import { sponsorUserOp } from "../services/bundler.service";
-import { getASPProof, getASPTree } from "../services/asp.service";
+import {
+  decodeWithdrawPublicSignals,
+  encodeContractProof,
+  parseSnarkjsProof,
+} from "../lib/groth16";
+import { SponsorshipPolicyError } from "../lib/sponsorshipPolicy";
+import {
+  getWithdrawQuote,
+  getWithdrawalStatus,
+  queueWithdrawal,
+  WithdrawRequest,
+} from "../services/relayer.service";
+import { getSponsorshipStatus, sponsorUserOp } from "../services/bundler.service";
+import { getASPProof, getASPSnapshot, getASPTree } from "../services/asp.service";
+import { getPoolProof, isPoolTreeInSync } from "../services/pool.service";
+import { findPools, getPool, getPools } from "../services/poolRegistry.service";
 import { checkAddress } from "../services/screening.service";
 
 const router = Router();
@@ -63,32 +77,102 @@ router.post("/deposit/status", async (req: Request, res: Response) => {
   }
 });
 
+// ---------------------------------------------------------------------------
+// GET /api/relayer/quote?pool=
+// Relayer address and minimum fee for a pool, to bind into the withdrawal
+// proof. The signed quote is honoured until expiresAt when passed back as
+// `quote` with the withdrawal.
+// ---------------------------------------------------------------------------
+router.get("/relayer/quote", async (req: Request, res: Response) => {
+  try {
+    const poolAddress = typeof req.query.pool === "string" ? req.query.pool : undefined;
+    if (!poolAddress || !ethers.isAddress(poolAddress)) {
+      res.status(400).json({ error: "Missing or invalid pool" });
+      return;
+    }
+
+    const pool = getPool(poolAddress);
+    if (!pool) {
+      res.status(404).json({ error: "Pool not found" });
+      return;
+    }
+
+    res.json(await getWithdrawQuote(pool));
+  } catch (err) {
+    console.error("[API] GET /relayer/quote error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
+// Flat withdraw body fields and the public signal each one is bound to
+const SIGNAL_FIELDS = {
+  merkleRoot: "root",
+  nullifierHash: "nullifierHash",
+  recipient: "recipient",
+  relayer: "relayer",
+  fee: "fee",
+  refund: "refund",
+  aspRoot: "aspRoot",
+} as const;
+
+/**
+ * Build a withdraw request from the snarkjs shape the SDK posts
+ * ({ proof: Groth16Proof, publicSignals, poolAddress }). Any flat field sent
+ * alongside must match its public signal.
+ */
+function withdrawRequestFromSnarkjs(body: Record<string, unknown>): WithdrawRequest {
+  const proof = encodeContractProof(parseSnarkjsProof(body.proof));
+  const signals = decodeWithdrawPublicSignals(body.publicSignals);
+
+  for (const [field, signal] of Object.entries(SIGNAL_FIELDS)) {
+    const value = body[field];
+    if (value === undefined || value === null) continue;
+
+    let matches: boolean;
+    try {
+      matches = BigInt(value as string) === BigInt(signals[signal]);
+    } catch {
+      matches = false;
+    }
+    if (!matches) {
+      throw new Error(`Inconsistent ${field}: does not match publicSignals`);
+    }
+  }
+
+  return {
+    proof,
+    merkleRoot: signals.root,
+    nullifierHash: signals.nullifierHash,
+    recipient: signals.recipient,
+    relayer: signals.relayer,
+    fee: signals.fee,
+    refund: signals.refund,
+    aspRoot: signals.aspRoot,
+    poolAddress: body.poolAddress as string,
+    quote: body.quote as WithdrawRequest["quote"],
+  };
+}
+
 // ---------------------------------------------------------------------------
 // POST /api/withdraw
-// Queue a withdrawal request with randomized jitter.
-// Body: { proof, merkleRoot, nullifierHash, recipient, fee, refund, aspRoot, poolAddress }
+// Queue a withdrawal request with randomized jitter. `relayer` must be this
+// relayer's address and `fee` at least the quoted fee.
+// Body, either:
+//   { proof: hex, merkleRoot, nullifierHash, recipient, relayer, fee, refund,
+//     aspRoot, poolAddress, quote? }
+//   { proof: Groth16Proof, publicSignals, poolAddress, quote? } (snarkjs output)
+// quote: { fee, expiresAt, signature } from /api/relayer/quote
 // ---------------------------------------------------------------------------
 router.post("/withdraw", async (req: Request, res: Response) => {
   try {
-    const {
-      proof,
-      merkleRoot,
-      nullifierHash,
-      recipient,
-      fee,
-      refund,
-      aspRoot,
-      poolAddress,
-    } = req.body;
+    const body = req.body ?? {};
+    const snarkjsShape = body.proof !== null && typeof body.proof === "object";
 
     // Validate required fields
-    const missing: string[] = [];
-    if (!proof) missing.push("proof");
-    if (!merkleRoot) missing.push("merkleRoot");
-    if (!nullifierHash) missing.push("nullifierHash");
-    if (!recipient) missing.push("recipient");
-    if (!aspRoot) missing.push("aspRoot");
-    if (!poolAddress) missing.push("poolAddress");
+    const required = snarkjsShape
+      ? ["publicSignals", "poolAddress"]
+      : ["proof", "merkleRoot", "nullifierHash", "recipient", "relayer", "aspRoot", "poolAddress"];
+    const missing = required.filter((field) => !body[field]);
 
     if (missing.length > 0) {
       res.status(400).json({
@@ -97,8 +181,23 @@ router.post("/withdraw", async (req: Request, res: Response) => {
       return;
     }
 
+    const withdrawRequest: WithdrawRequest = snarkjsShape
+      ? withdrawRequestFromSnarkjs(body)
+      : {
+          proof: body.proof,
+          merkleRoot: body.merkleRoot,
+          nullifierHash: body.nullifierHash,
+          recipient: body.recipient,
+          relayer: body.relayer,
+          fee: body.fee ?? "0",
+          refund: body.refund ?? "0",
+          aspRoot: body.aspRoot,
+          poolAddress: body.poolAddress,
+          quote: body.quote,
+        };
+
     // Screen the recipient address
-    const screening = await checkAddress(recipient);
+    const screening = await checkAddress(withdrawRequest.recipient);
     if (!screening.approved) {
       res.status(403).json({
         error: "Recipient address is sanctioned or blocked",
@@ -107,16 +206,7 @@ router.post("/withdraw", async (req: Request, res: Response) => {
       return;
     }
 
-    const result = await queueWithdrawal({
-      proof,
-      merkleRoot,
-      nullifierHash,
-      recipient,
-      fee: fee ?? "0",
-      refund: refund ?? "0",
-      aspRoot,
-      poolAddress,
-    });
+    const result = await queueWithdrawal(withdrawRequest);
 
     res.status(202).json({
       id: result.id,
@@ -131,6 +221,7 @@ router.post("/withdraw", async (req: Request, res: Response) => {
     // Client errors (validation failures)
     if (
       message.includes("Invalid") ||
+      message.includes("Inconsistent") ||
       message.includes("already") ||
       message.includes("Unable to verify")
     ) {
@@ -172,6 +263,7 @@ router.get(
         scheduledAt: status.scheduledAt,
         submittedAt: status.submittedAt,
         error: status.error,
+        errorClass: status.errorClass,
       });
     } catch (err) {
       console.error("[API] GET /withdraw/:nullifierHash/status error:", err);
@@ -183,7 +275,8 @@ router.get(
 // ---------------------------------------------------------------------------
 // POST /api/sponsor/userOp
 // Create a sponsored UserOperation with paymaster data and submit to bundler.
-// Body: { sender, callData, initCode?, signature?, proof, merkleRoot, nullifierHash, aspRoot }
+// Body: { sender, callData, initCode?, signature?, proof, merkleRoot, nullifierHash, aspRoot, poolAddress? }
+// Ops outside the sponsorship policy get 403 with a structured `reason`.
 // ---------------------------------------------------------------------------
 router.post("/sponsor/userOp", async (req: Request, res: Response) => {
   try {
@@ -196,6 +289,7 @@ router.post("/sponsor/userOp", async (req: Request, res: Response) => {
       merkleRoot,
       nullifierHash,
       aspRoot,
+      poolAddress,
     } = req.body;
 
     const missing: string[] = [];
@@ -222,6 +316,7 @@ router.post("/sponsor/userOp", async (req: Request, res: Response) => {
       merkleRoot,
       nullifierHash,
       aspRoot,
+      poolAddress,
     });
 
     res.json({
@@ -231,17 +326,33 @@ router.post("/sponsor/userOp", async (req: Request, res: Response) => {
         preVerificationGas: result.preVerificationGas,
         verificationGasLimit: result.verificationGasLimit,
         callGasLimit: result.callGasLimit,
+        paymasterVerificationGasLimit: result.paymasterVerificationGasLimit,
+        paymasterPostOpGasLimit: result.paymasterPostOpGasLimit,
         maxFeePerGas: result.maxFeePerGas,
         maxPriorityFeePerGas: result.maxPriorityFeePerGas,
       },
     });
   } catch (err) {
+    if (err instanceof SponsorshipPolicyError) {
+      res.status(403).json({ error: err.message, reason: err.violation });
+      return;
+    }
+
     const message = err instanceof Error ? err.message : "Unknown error";
 
-    if (message.includes("Invalid") || message.includes("already used")) {
+    if (
+      message.includes("Invalid") ||
+      message.includes("already used") ||
+      message.includes("Unable to verify") ||
+      message.includes("exceeds maxGasSponsorship")
+    ) {
       res.status(400).json({ error: message });
       return;
     }
+    if (message.includes("Sponsorship paused")) {
+      res.status(503).json({ error: message });
+      return;
+    }
 
     console.error("[API] POST /sponsor/userOp error:", err);
     res.status(500).json({ error: "Internal server error" });
@@ -249,94 +360,113 @@ router.post("/sponsor/userOp", async (req: Request, res: Response) => {
 });
 
 // ---------------------------------------------------------------------------
-// GET /api/pool/:token/:denomination/stats
-// Get pool statistics (deposit count, pending withdrawals, etc.)
-// :token is "BNB" for native or a token address for ERC-20
-// :denomination in wei
+// GET /api/sponsor/:userOpHash/status
+// Get the status of a sponsored UserOperation and the gas it cost.
 // ---------------------------------------------------------------------------
 router.get(
-  "/pool/:token/:denomination/stats",
+  "/sponsor/:userOpHash/status",
   async (req: Request, res: Response) => {
     try {
-      const { token, denomination } = req.params;
+      const { userOpHash } = req.params;
 
-      // Build pool filter
-      const isNative = token.toUpperCase() === "BNB";
-      const tokenFilter = isNative ? "token IS NULL" : "LOWER(token) = LOWER($3)";
+      if (!ethers.isHexString(userOpHash, 32)) {
+        res.status(400).json({ error: "Invalid userOpHash format" });
+        return;
+      }
 
-      const params: unknown[] = [denomination];
-      let paramIndex = 2;
+      const status = await getSponsorshipStatus(userOpHash);
 
-      let tokenParam: string | undefined;
-      if (!isNative) {
-        paramIndex++;
-        tokenParam = token;
+      if (!status) {
+        res.status(404).json({ error: "Sponsored UserOp not found" });
+        return;
       }
 
-      // Total deposits
-      const depositCountResult = await query<{ count: string }>(
-        `SELECT COUNT(*) as count FROM deposits
-         WHERE denomination = $1 ${!isNative ? `AND LOWER(token) = LOWER($2)` : "AND token IS NULL"}`,
-        isNative ? [denomination] : [denomination, tokenParam]
-      );
+      res.json(status);
+    } catch (err) {
+      console.error("[API] GET /sponsor/:userOpHash/status error:", err);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  }
+);
 
-      // Approved deposits (ASP included)
-      const approvedResult = await query<{ count: string }>(
-        `SELECT COUNT(*) as count FROM deposits
-         WHERE denomination = $1 AND asp_included = TRUE
-         ${!isNative ? `AND LOWER(token) = LOWER($2)` : "AND token IS NULL"}`,
-        isNative ? [denomination] : [denomination, tokenParam]
-      );
+// ---------------------------------------------------------------------------
+// GET /api/pools
+// Pools served by this relayer, from the pool registry.
+// ---------------------------------------------------------------------------
+router.get("/pools", (_req: Request, res: Response) => {
+  res.json({
+    pools: getPools().map((pool) => ({
+      address: pool.address,
+      token: pool.token,
+      symbol: pool.symbol,
+      denomination: pool.denomination.toString(),
+      decimals: pool.decimals,
+      paymaster: pool.paymaster,
+    })),
+  });
+});
 
-      // Blocked deposits
-      const blockedResult = await query<{ count: string }>(
-        `SELECT COUNT(*) as count FROM deposits
-         WHERE denomination = $1 AND screening_status = 'blocked'
-         ${!isNative ? `AND LOWER(token) = LOWER($2)` : "AND token IS NULL"}`,
-        isNative ? [denomination] : [denomination, tokenParam]
-      );
+// ---------------------------------------------------------------------------
+// GET /api/pool/:token/:denomination/stats
+// Get pool statistics (deposit count, pending withdrawals, etc.)
+// :token is a registry symbol (e.g. "BNB") or an ERC-20 token address
+// :denomination in wei
+// ---------------------------------------------------------------------------
+router.get(
+  "/pool/:token/:denomination/stats",
+  async (req: Request, res: Response) => {
+    try {
+      const { token, denomination } = req.params;
 
-      // Pending withdrawals
-      const pendingWithdrawals = await query<{ count: string }>(
-        `SELECT COUNT(*) as count FROM withdrawals
-         WHERE status IN ('queued', 'processing')
-         ${!isNative ? `AND pool_address IN (
-           SELECT DISTINCT pool_address FROM deposits WHERE LOWER(token) = LOWER($1) AND denomination = $2
-         )` : `AND pool_address IN (
-           SELECT DISTINCT pool_address FROM deposits WHERE token IS NULL AND denomination = $1
-         )`}`,
-        isNative ? [denomination] : [tokenParam, denomination]
+      if (!/^\d+$/.test(denomination)) {
+        res.status(400).json({ error: "Invalid denomination" });
+        return;
+      }
+
+      const pools = findPools(token, BigInt(denomination));
+      if (pools.length === 0) {
+        res.status(404).json({ error: "Pool not found" });
+        return;
+      }
+      const poolAddresses = pools.map((p) => p.address);
+
+      const deposits = await query<{ total: string; approved: string; blocked: string }>(
+        `SELECT COUNT(*) AS total,
+                COUNT(*) FILTER (WHERE asp_included = TRUE) AS approved,
+                COUNT(*) FILTER (WHERE screening_status = 'blocked') AS blocked
+         FROM deposits
+         WHERE pool_address = ANY($1)`,
+        [poolAddresses]
       );
 
-      // Completed withdrawals
-      const completedWithdrawals = await query<{ count: string }>(
-        `SELECT COUNT(*) as count FROM withdrawals
-         WHERE status = 'confirmed'
-         ${!isNative ? `AND pool_address IN (
-           SELECT DISTINCT pool_address FROM deposits WHERE LOWER(token) = LOWER($1) AND denomination = $2
-         )` : `AND pool_address IN (
-           SELECT DISTINCT pool_address FROM deposits WHERE token IS NULL AND denomination = $1
-         )`}`,
-        isNative ? [denomination] : [tokenParam, denomination]
+      const withdrawals = await query<{ pending: string; completed: string }>(
+        `SELECT COUNT(*) FILTER (WHERE status IN ('queued', 'processing')) AS pending,
+                COUNT(*) FILTER (WHERE status = 'confirmed') AS completed
+         FROM withdrawals
+         WHERE LOWER(pool_address) = ANY($1)`,
+        [poolAddresses]
       );
 
       const tree = getASPTree();
 
       res.json({
-        token: isNative ? "BNB" : token,
+        token: pools[0].token ?? pools[0].symbol,
+        symbol: pools[0].symbol,
         denomination,
+        pools: poolAddresses,
         deposits: {
-          total: parseInt(depositCountResult.rows[0].count, 10),
-          approved: parseInt(approvedResult.rows[0].count, 10),
-          blocked: parseInt(blockedResult.rows[0].count, 10),
+          total: parseInt(deposits.rows[0].total, 10),
+          approved: parseInt(deposits.rows[0].approved, 10),
+          blocked: parseInt(deposits.rows[0].blocked, 10),
         },
         withdrawals: {
-          pending: parseInt(pendingWithdrawals.rows[0].count, 10),
-          completed: parseInt(completedWithdrawals.rows[0].count, 10),
+          pending: parseInt(withdrawals.rows[0].pending, 10),
+          completed: parseInt(withdrawals.rows[0].completed, 10),
         },
         asp: {
           treeSize: tree.leafCount,
           currentRoot: tree.root,
+          publishedRoot: getASPSnapshot()?.root ?? null,
         },
       });
     } catch (err) {
@@ -346,21 +476,92 @@ router.get(
   }
 );
 
+// ---------------------------------------------------------------------------
+// GET /api/merkle/proof?commitment=&root=
+// Get the pool Merkle proof for a commitment from the relayer's indexed pool
+// tree. `root` (optional) selects any root still in the pool's on-chain root
+// history; defaults to the latest root.
+// ---------------------------------------------------------------------------
+router.get("/merkle/proof", async (req: Request, res: Response) => {
+  try {
+    const commitment =
+      typeof req.query.commitment === "string" ? req.query.commitment : undefined;
+    const requestedRoot =
+      typeof req.query.root === "string" ? req.query.root : undefined;
+
+    if (!commitment || !/^0x[0-9a-fA-F]{64}$/.test(commitment)) {
+      res.status(400).json({ error: "Missing or invalid commitment" });
+      return;
+    }
+
+    if (requestedRoot !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(requestedRoot)) {
+      res.status(400).json({ error: "Invalid root format" });
+      return;
+    }
+
+    const depositResult = await query<{ pool_address: string; leaf_index: number }>(
+      "SELECT pool_address, leaf_index FROM deposits WHERE commitment = $1",
+      [commitment.toLowerCase()]
+    );
+
+    if (depositResult.rows.length === 0) {
+      res.status(404).json({ error: "Commitment not found" });
+      return;
+    }
+
+    const { pool_address: poolAddress, leaf_index: leafIndex } = depositResult.rows[0];
+
+    if (!isPoolTreeInSync(poolAddress)) {
+      res.status(503).json({ error: "Pool tree is not in sync, try again later" });
+      return;
+    }
+
+    const proof = getPoolProof(poolAddress, leafIndex, requestedRoot);
+    if (!proof) {
+      res.status(404).json({
+        error: "Root is unknown, no longer in the pool root history, or does not include this commitment",
+      });
+      return;
+    }
+
+    res.json({
+      commitment,
+      poolAddress,
+      root: proof.root,
+      leafIndex,
+      pathElements: proof.pathElements,
+      pathIndices: proof.pathIndices,
+    });
+  } catch (err) {
+    console.error("[API] GET /merkle/proof error:", err);
+    res.status(500).json({ error: "Internal server error" });
+  }
+});
+
 // ---------------------------------------------------------------------------
 // GET /api/merkle/proof/:commitment
-// Get the ASP Merkle proof for a commitment.
+// Get the ASP Merkle proof for a commitment against a published ASP root.
+// Query: ?root= (optional) any root still in the on-chain history;
+// defaults to the latest confirmed root.
 // ---------------------------------------------------------------------------
 router.get(
   "/merkle/proof/:commitment",
   async (req: Request, res: Response) => {
     try {
       const { commitment } = req.params;
+      const requestedRoot =
+        typeof req.query.root === "string" ? req.query.root : undefined;
 
       if (!commitment || !commitment.startsWith("0x")) {
         res.status(400).json({ error: "Invalid commitment format" });
         return;
       }
 
+      if (requestedRoot !== undefined && !/^0x[0-9a-fA-F]{64}$/.test(requestedRoot)) {
+        res.status(400).json({ error: "Invalid root format" });
+        return;
+      }
+
       // Verify the commitment exists and is approved
       const depositResult = await query<{
         screening_status: string;
@@ -384,10 +585,21 @@ router.get(
         return;
       }
 
-      const proof = getASPProof(commitment);
-      if (!proof) {
+      const snapshot = getASPSnapshot(requestedRoot);
+      if (!snapshot) {
         res.status(404).json({
-          error: "Proof not available (commitment may not be indexed yet)",
+          error: requestedRoot
+            ? "ASP root is unknown or no longer in the on-chain root history"
+            : "No ASP root has been published yet",
+        });
+        return;
+      }
+
+      const proof = getASPProof(commitment, snapshot);
+      if (!proof) {
+        res.status(409).json({
+          error: "Commitment is not yet included in this ASP root; retry after the next root publish",
+          root: snapshot.root,
         });
         return;
       }
@@ -395,6 +607,8 @@ router.get(
       res.json({
         commitment,
         root: proof.root,
+        leafIndex: proof.leafIndex,
+        blockNumber: snapshot.blockNumber,
         pathElements: proof.pathElements,
         pathIndices: proof.pathIndices,
       });
@@ -0,0 +1,44 @@
+import { ethers } from "ethers";
+import { closePool } from "../db";
+import { rebuildASPTreeFromDB } from "../services/asp.service";
+import { loadPoolRegistry } from "../services/poolRegistry.service";
+import { refreshSanctionsList } from "../services/sanctions.service";
+import { loadScreeningPolicy } from "../services/screening.service";
+import { reindexDeposits } from "../workers/depositWatcher";
+
+/**
+ * Re-index pool deposits from a block and rebuild the ASP tree.
+ *
+ * Usage: yarn reindex <fromBlock> [poolAddress]
+ *
+ * Deposits from <fromBlock> on are rolled back and replayed from the chain,
+ * including screening. A block at or below every pool's deploy block
+ * rebuilds the ASP tree from scratch. Stop the relayer first; it publishes
+ * the rebuilt root on its next ASP update once restarted.
+ */
+async function main(): Promise<void> {
+  const [fromArg, poolAddress] = process.argv.slice(2);
+  const fromBlock = Number(fromArg);
+
+  if (!fromArg || !Number.isInteger(fromBlock) || fromBlock < 0 ||
+      (poolAddress !== undefined && !ethers.isAddress(poolAddress))) {
+    console.error("Usage: yarn reindex <fromBlock> [poolAddress]");
+    process.exit(1);
+  }
+
+  try {
+    await loadPoolRegistry();
+    loadScreeningPolicy();
+    await rebuildASPTreeFromDB();
+    await refreshSanctionsList();
+    await reindexDeposits(fromBlock, poolAddress);
+    console.log(`[Reindex] Deposits reindexed from block ${fromBlock}`);
+  } finally {
+    await closePool();
+  }
+}
+
+main().catch((err) => {
+  console.error("[Reindex] Failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,45 @@
+import { ethers } from "ethers";
+import * as os from "os";
+import { closePool } from "../db";
+import { revokeCommitment } from "../services/asp.service";
+
+/**
+ * Revoke an approved commitment right away.
+ *
+ * Usage: yarn asp:revoke <commitment> <reason...>
+ *
+ * The leaf is zeroed, the commitment is blocked on ASPRegistry and a new
+ * root is published. If the on-chain block fails, the running relayer
+ * retries it on its ASP update cycles.
+ */
+async function main(): Promise<void> {
+  const [commitment, ...reasonParts] = process.argv.slice(2);
+  const reason = reasonParts.join(" ").trim();
+
+  if (!commitment || !ethers.isHexString(commitment, 32) || !reason) {
+    console.error("Usage: yarn asp:revoke <commitment> <reason...>");
+    process.exit(1);
+  }
+
+  try {
+    const outcome = await revokeCommitment(commitment, reason, `cli:${os.userInfo().username}`);
+    if (outcome.status === "completed") {
+      console.log(
+        `[Revoke] Revocation ${outcome.revocationId} applied to ${commitment}, ` +
+        `blocked in tx ${outcome.blockTxHash}, root tx ${outcome.rootTxHash ?? "(not published)"}`
+      );
+    } else {
+      console.warn(
+        `[Revoke] Revocation ${outcome.revocationId}: leaf zeroed but on-chain block is ` +
+        `${outcome.status} (${outcome.error}); the relayer retries it`
+      );
+    }
+  } finally {
+    await closePool();
+  }
+}
+
+main().catch((err) => {
+  console.error("[Revoke] Failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,103 @@
+import { query } from "../db";
+
+export type AdminAuthMethod = "api_key" | "signature";
+
+/** The authenticated operator behind an /admin request. */
+export interface AdminIdentity {
+  actor: string;
+  authMethod: AdminAuthMethod;
+}
+
+export interface AdminAuditEntry {
+  id: string;
+  actor: string;
+  authMethod: AdminAuthMethod;
+  action: string;
+  target: string | null;
+  params: Record<string, unknown> | null;
+  outcome: "success" | "failure";
+  error: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Write an operator action to admin_audit_log.
+ */
+export async function recordAdminAction(entry: {
+  admin: AdminIdentity;
+  action: string;
+  target: string | null;
+  params: Record<string, unknown> | null;
+  outcome: "success" | "failure";
+  error?: string;
+}): Promise<void> {
+  await query(
+    `INSERT INTO admin_audit_log
+      (actor, auth_method, action, target, params, outcome, error_message)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      entry.admin.actor,
+      entry.admin.authMethod,
+      entry.action,
+      entry.target,
+      entry.params ? JSON.stringify(entry.params) : null,
+      entry.outcome,
+      entry.error ?? null,
+    ]
+  );
+}
+
+/**
+ * Record a signed admin request as used. Returns false if the same signer
+ * already used a signature over the same message (on any replica), i.e.
+ * the request is a replay. Expired entries are pruned on the way.
+ */
+export async function claimAdminSignature(
+  signer: string,
+  messageHash: string,
+  expiresAt: Date
+): Promise<boolean> {
+  await query("DELETE FROM admin_used_signatures WHERE expires_at <= NOW()");
+  const result = await query(
+    `INSERT INTO admin_used_signatures (signer, message_hash, expires_at)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (signer, message_hash) DO NOTHING`,
+    [signer.toLowerCase(), messageHash.toLowerCase(), expiresAt.toISOString()]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Most recent audit entries, newest first.
+ */
+export async function getAdminAuditLog(limit: number): Promise<AdminAuditEntry[]> {
+  const result = await query<{
+    id: string;
+    actor: string;
+    auth_method: AdminAuthMethod;
+    action: string;
+    target: string | null;
+    params: Record<string, unknown> | null;
+    outcome: "success" | "failure";
+    error_message: string | null;
+    created_at: Date;
+  }>(
+    `SELECT id, actor, auth_method, action, target, params, outcome, error_message, created_at
+     FROM admin_audit_log
+     ORDER BY created_at DESC
+     LIMIT $1`,
+    [limit]
+  );
+
+  return result.rows.map((row) => ({
+    id: row.id,
+    actor: row.actor,
+    authMethod: row.auth_method,
+    action: row.action,
+    target: row.target,
+    params: row.params,
+    outcome: row.outcome,
+    error: row.error_message,
+    createdAt: row.created_at,
+  }));
+}
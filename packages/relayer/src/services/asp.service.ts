@@ -1,7 +1,21 @@
 import { ethers } from "ethers";
 import { config } from "../config";
-import { query } from "../db";
+import { PoolClient } from "pg";
+import { ADVISORY_LOCKS, query, withAdvisoryLock, withTransaction } from "../db";
+import { ASPMerkleTree, TreeNode } from "../lib/merkleTree";
+import { initPoseidon } from "../lib/poseidon";
+import { getPool } from "./poolRegistry.service";
 import { checkAddress, ScreeningResult } from "./screening.service";
+import {
+  findTransaction,
+  findTransactionReceipt,
+  getTransactionStatus,
+  ManagedTransaction,
+  sendAndWait,
+  TransactionPendingError,
+  TransactionRequest,
+  waitForTransaction,
+} from "./txManager.service";
 
 // Minimal ABIs for contract interaction
 const PRIVACY_POOL_ABI = [
@@ -12,144 +26,211 @@ const PRIVACY_POOL_ABI = [
 const ASP_REGISTRY_ABI = [
   "function updateASPRoot(bytes32 newRoot) external",
   "function blockCommitment(bytes32 commitment, string reason) external",
+  "function unblockCommitment(bytes32 commitment) external",
+  "function isBlocked(bytes32 commitment) view returns (bool)",
   "function getLastASPRoot() view returns (bytes32)",
   "function isKnownASPRoot(bytes32 root) view returns (bool)",
 ];
 
+// Number of recent ASP roots the registry accepts (ASPRegistry.ROOT_HISTORY_SIZE)
+const ASP_ROOT_HISTORY_SIZE = 30;
+
+// On-chain block attempts before a revocation is marked failed
+const MAX_REVOCATION_ATTEMPTS = 5;
+
 /**
- * Off-chain incremental Merkle tree for the ASP (Association Set Provider).
- * Mirrors the on-chain MerkleTreeWithHistory structure but only includes
- * commitments that pass sanctions screening.
- */
-export class ASPMerkleTree {
-  private depth: number;
-  private leaves: string[] = [];
-  private layers: string[][] = [];
-  private zeroValues: string[] = [];
-
-  constructor(depth: number = 20) {
-    this.depth = depth;
-    this.zeroValues = this.computeZeroValues();
-    this.layers = Array.from({ length: depth + 1 }, () => []);
-    this.rebuildTree();
-  }
-
-  /**
-   * Compute zero values for each level using keccak256 as a stand-in
-   * for Poseidon. In production, replace with Poseidon hashing via
-   * circomlibjs or snarkjs to match the on-chain hasher.
-   */
-  private computeZeroValues(): string[] {
-    const zeros: string[] = [];
-    let current = ethers.ZeroHash;
-    for (let i = 0; i < this.depth; i++) {
-      zeros.push(current);
-      current = ethers.solidityPackedKeccak256(
-        ["bytes32", "bytes32"],
-        [current, current]
-      );
-    }
-    return zeros;
-  }
+ * A published ASP root and the tree size it was computed over. Proofs for
+ * that root are regenerated from the live tree truncated to `leafCount`.
+ */
+export interface ASPRootSnapshot {
+  root: string;
+  leafCount: number;
+  blockNumber: number;
+}
 
-  private hashPair(left: string, right: string): string {
-    return ethers.solidityPackedKeccak256(
-      ["bytes32", "bytes32"],
-      [left, right]
-    );
-  }
+/**
+ * Result of applying a revocation: the leaf is zeroed whatever the status;
+ * 'pending' or 'failed' means the on-chain block has not gone through.
+ */
+export interface RevocationOutcome {
+  revocationId: string;
+  status: string;
+  attempts: number;
+  blockTxHash: string | null;
+  /** Root publish tx, null if the root was already known or failed to publish */
+  rootTxHash: string | null;
+  error: string | null;
+}
 
-  /**
-   * Insert a leaf (approved commitment) into the tree.
-   */
-  insert(commitment: string): number {
-    const index = this.leaves.length;
-    this.leaves.push(commitment);
-    this.rebuildTree();
-    return index;
-  }
+// Confirmed on-chain roots, newest first, capped at ASP_ROOT_HISTORY_SIZE
+let aspSnapshots: ASPRootSnapshot[] = [];
 
-  /**
-   * Rebuild all layers from leaves. For large trees consider incremental
-   * updates, but correctness-first here.
-   */
-  private rebuildTree(): void {
-    const maxLeaves = 2 ** this.depth;
-    this.layers = [];
+// Singleton ASP tree instance
+let aspTree: ASPMerkleTree | null = null;
 
-    // Layer 0: leaves padded with zeros
-    const layer0: string[] = [];
-    for (let i = 0; i < maxLeaves; i++) {
-      layer0.push(i < this.leaves.length ? this.leaves[i] : this.zeroValues[0]);
-    }
-    this.layers.push(layer0);
-
-    // Build up
-    for (let level = 1; level <= this.depth; level++) {
-      const prevLayer = this.layers[level - 1];
-      const currentLayer: string[] = [];
-      for (let i = 0; i < prevLayer.length; i += 2) {
-        const left = prevLayer[i];
-        const right =
-          i + 1 < prevLayer.length ? prevLayer[i + 1] : this.zeroValues[level - 1];
-        currentLayer.push(this.hashPair(left, right));
-      }
-      this.layers.push(currentLayer);
-    }
+export function getASPTree(): ASPMerkleTree {
+  if (!aspTree) {
+    aspTree = new ASPMerkleTree(config.aspTreeDepth);
   }
+  return aspTree;
+}
 
-  get root(): string {
-    if (this.layers.length === 0 || this.layers[this.depth].length === 0) {
-      return ethers.ZeroHash;
-    }
-    return this.layers[this.depth][0];
-  }
+// asp_tree_nodes row count and last write when the local tree last matched
+// it; another replica changed the tree if these differ
+let aspTreeVersion: string | null = null;
 
-  get leafCount(): number {
-    return this.leaves.length;
+async function readASPTreeVersion(): Promise<string> {
+  const result = await query<{ count: string; updated: string | null }>(
+    "SELECT COUNT(*) AS count, MAX(updated_at)::text AS updated FROM asp_tree_nodes"
+  );
+  return `${result.rows[0].count}:${result.rows[0].updated ?? ""}`;
+}
+
+/**
+ * Replace the local tree with the persisted one. Returns the node count.
+ */
+async function loadASPTreeNodes(): Promise<number> {
+  const nodes = await query<{ level: number; node_index: number; hash: string }>(
+    "SELECT level, node_index, hash FROM asp_tree_nodes"
+  );
+  aspTree = new ASPMerkleTree(config.aspTreeDepth);
+  if (nodes.rows.length > 0) {
+    aspTree.loadNodes(
+      nodes.rows.map((row) => ({ level: row.level, index: row.node_index, hash: row.hash }))
+    );
   }
+  return nodes.rows.length;
+}
 
-  /**
-   * Generate a Merkle proof for the leaf at `index`.
-   */
-  getProof(index: number): { pathElements: string[]; pathIndices: number[] } | null {
-    if (index < 0 || index >= this.leaves.length) return null;
+async function reloadIfChanged(): Promise<boolean> {
+  const version = await readASPTreeVersion();
+  if (version === aspTreeVersion) return false;
 
-    const pathElements: string[] = [];
-    const pathIndices: number[] = [];
-    let currentIndex = index;
+  await loadASPTreeNodes();
+  aspTreeVersion = version;
+  await loadASPSnapshotsFromDB();
+  return true;
+}
 
-    for (let level = 0; level < this.depth; level++) {
-      const siblingIndex = currentIndex % 2 === 0 ? currentIndex + 1 : currentIndex - 1;
-      const sibling =
-        siblingIndex < this.layers[level].length
-          ? this.layers[level][siblingIndex]
-          : this.zeroValues[level];
+/**
+ * Reload the ASP tree and its published snapshots if another replica
+ * changed the persisted tree. Returns true if it was reloaded.
+ */
+export async function refreshASPTree(): Promise<boolean> {
+  return withAdvisoryLock(ADVISORY_LOCKS.aspTree, async () => {
+    await initPoseidon();
+    return reloadIfChanged();
+  });
+}
 
-      pathElements.push(sibling);
-      pathIndices.push(currentIndex % 2);
-      currentIndex = Math.floor(currentIndex / 2);
+/**
+ * Mutate the ASP tree under the cross-replica tree lock, starting from the
+ * persisted state. fn must persist what it changes before returning.
+ */
+async function withASPTreeLock<T>(fn: (tree: ASPMerkleTree) => Promise<T>): Promise<T> {
+  return withAdvisoryLock(ADVISORY_LOCKS.aspTree, async () => {
+    await initPoseidon();
+    await reloadIfChanged();
+    try {
+      const result = await fn(getASPTree());
+      aspTreeVersion = await readASPTreeVersion();
+      return result;
+    } catch (err) {
+      // The local tree may be ahead of what was persisted; reload next time
+      aspTreeVersion = null;
+      throw err;
     }
+  });
+}
+
+// Max rows per upsert statement when persisting many tree nodes at once
+const NODE_WRITE_BATCH_SIZE = 5000;
 
-    return { pathElements, pathIndices };
+/**
+ * Upsert ASP tree nodes into asp_tree_nodes.
+ */
+async function saveTreeNodes(client: PoolClient, nodes: TreeNode[]): Promise<void> {
+  for (let i = 0; i < nodes.length; i += NODE_WRITE_BATCH_SIZE) {
+    const batch = nodes.slice(i, i + NODE_WRITE_BATCH_SIZE);
+    await client.query(
+      `INSERT INTO asp_tree_nodes (level, node_index, hash)
+       SELECT * FROM UNNEST($1::smallint[], $2::integer[], $3::varchar[])
+       ON CONFLICT (level, node_index)
+       DO UPDATE SET hash = EXCLUDED.hash, updated_at = NOW()`,
+      [batch.map((n) => n.level), batch.map((n) => n.index), batch.map((n) => n.hash)]
+    );
   }
+}
 
-  /**
-   * Find the index of a commitment in the tree.
-   */
-  indexOf(commitment: string): number {
-    return this.leaves.indexOf(commitment);
+/**
+ * Send an ASP registry transaction and wait at most TX_CONFIRM_TIMEOUT_MS
+ * for it, since callers hold the ASP publish lock. If one sent earlier for
+ * the same purpose and reference is still pending, that one is waited on
+ * instead of sending another.
+ */
+async function sendRegistryTransaction(
+  request: TransactionRequest & { reference: string },
+  onSent?: (tx: ManagedTransaction) => Promise<unknown>
+): Promise<ethers.TransactionReceipt> {
+  const previous = await findTransaction(request.purpose, request.reference);
+  if (previous && (await getTransactionStatus(previous.id)) === "pending") {
+    console.log(`[ASP] Waiting for ${request.purpose} tx ${previous.hash} sent earlier`);
+    return waitForTransaction(previous.id, config.txConfirmTimeoutMs);
   }
+  return sendAndWait(request, onSent, config.txConfirmTimeoutMs);
 }
 
-// Singleton ASP tree instance
-let aspTree: ASPMerkleTree | null = null;
+/**
+ * Call ASPRegistry.blockCommitment and wait for the receipt.
+ */
+async function blockCommitmentOnChain(commitment: string, reason: string): Promise<string> {
+  const registry = new ethers.Interface(ASP_REGISTRY_ABI);
+  const receipt = await sendRegistryTransaction({
+    to: config.contracts.aspRegistry,
+    data: registry.encodeFunctionData("blockCommitment", [commitment, reason]),
+    purpose: "asp_block",
+    reference: commitment,
+  });
+  return receipt.hash;
+}
 
-export function getASPTree(): ASPMerkleTree {
-  if (!aspTree) {
-    aspTree = new ASPMerkleTree(config.aspTreeDepth);
+/**
+ * Add an approved commitment to the ASP tree and persist the updated path
+ * together with the inclusion flag. `onInsert` runs in the same transaction
+ * (also when the commitment is already in the tree); if it throws, nothing
+ * is added. Returns the ASP leaf index.
+ */
+async function addToASPTree(
+  commitment: string,
+  onInsert?: (client: PoolClient) => Promise<void>
+): Promise<number> {
+  const aspLeafIndex = await withASPTreeLock(async (tree) => {
+    const existingIndex = tree.indexOf(commitment);
+    if (existingIndex !== -1) {
+      console.log(`[ASP] Commitment ${commitment.slice(0, 10)}... already in ASP tree`);
+      if (onInsert) await withTransaction(onInsert);
+      return null;
+    }
+
+    const index = tree.insert(commitment);
+    await withTransaction(async (client) => {
+      await saveTreeNodes(client, tree.getPathNodes(index));
+      await client.query(
+        `UPDATE deposits SET asp_included = TRUE, updated_at = NOW() WHERE commitment = $1`,
+        [commitment]
+      );
+      if (onInsert) await onInsert(client);
+    });
+    return index;
+  });
+  if (aspLeafIndex === null) {
+    return getASPTree().indexOf(commitment);
   }
-  return aspTree;
+
+  console.log(
+    `[ASP] Commitment ${commitment.slice(0, 10)}... approved and added to ASP tree (leaf ${aspLeafIndex})`
+  );
+  return aspLeafIndex;
 }
 
 /**
@@ -166,52 +247,109 @@ export async function processDeposit(
   blockNumber: number,
   txHash: string
 ): Promise<void> {
-  // Persist the deposit
+  const pool = getPool(poolAddress);
+  if (!pool) {
+    throw new Error(`Deposit from unregistered pool ${poolAddress}`);
+  }
+  if (BigInt(denomination) !== pool.denomination) {
+    console.warn(
+      `[ASP] Deposit ${commitment.slice(0, 10)}... has denomination ${denomination}, registry says ${pool.denomination} for ${poolAddress.slice(0, 10)}...`
+    );
+  }
+
+  // Persist the deposit. A row kept across a rollback (revoked) takes the
+  // position the deposit was re-mined at
   await query(
     `INSERT INTO deposits
       (commitment, leaf_index, depositor, pool_address, token, denomination, block_number, tx_hash)
      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-     ON CONFLICT (commitment) DO NOTHING`,
+     ON CONFLICT (commitment) DO UPDATE
+     SET leaf_index = EXCLUDED.leaf_index, block_number = EXCLUDED.block_number,
+         tx_hash = EXCLUDED.tx_hash, updated_at = NOW()`,
     [commitment, leafIndex, depositor, poolAddress, token, denomination, blockNumber, txHash]
   );
 
-  // Screen the depositor
+  // A revoked commitment must not be screened back into the ASP set
+  const existing = await query<{ asp_revoked_at: Date | null }>(
+    "SELECT asp_revoked_at FROM deposits WHERE commitment = $1",
+    [commitment]
+  );
+  if (existing.rows[0]?.asp_revoked_at) {
+    console.log(`[ASP] Commitment ${commitment.slice(0, 10)}... was revoked, skipping screening`);
+    return;
+  }
+
+  await screenDeposit(commitment, depositor, 0);
+}
+
+/**
+ * Delay before the next screening attempt after `attempts` failures:
+ * exponential from SCREENING_RETRY_BASE_MS, capped at SCREENING_RETRY_MAX_MS.
+ */
+function screeningRetryDelayMs(attempts: number): number {
+  return Math.min(
+    config.screeningRetryBaseMs * 2 ** Math.max(attempts - 1, 0),
+    config.screeningRetryMaxMs
+  );
+}
+
+/**
+ * Screen a deposit's depositor and apply the result: approved deposits join
+ * the ASP tree, blocked ones are blocked on-chain. If screening throws, the
+ * deposit stays pending and is scheduled for a retry with backoff.
+ * `previousAttempts` is the number of failed attempts so far.
+ */
+async function screenDeposit(
+  commitment: string,
+  depositor: string,
+  previousAttempts: number
+): Promise<void> {
   let screeningResult: ScreeningResult;
   try {
     screeningResult = await checkAddress(depositor);
   } catch (err) {
+    const attempts = previousAttempts + 1;
+    const retryAt = new Date(Date.now() + screeningRetryDelayMs(attempts));
     console.error(
-      `[ASP] Screening failed for depositor ${depositor}:`,
+      `[ASP] Screening failed for depositor ${depositor} (attempt ${attempts}, retry at ${retryAt.toISOString()}):`,
       err instanceof Error ? err.message : err
     );
     await query(
-      `UPDATE deposits SET screening_status = 'pending', updated_at = NOW()
-       WHERE commitment = $1`,
-      [commitment]
+      `UPDATE deposits
+       SET screening_status = 'pending', screening_attempts = $1,
+           next_screening_at = $2, updated_at = NOW()
+       WHERE commitment = $3`,
+      [attempts, retryAt.toISOString(), commitment]
     );
     return;
   }
 
-  const status = screeningResult.approved ? "approved" : "blocked";
+  const status =
+    screeningResult.decision === "approve"
+      ? "approved"
+      : screeningResult.decision === "review"
+        ? "review"
+        : "blocked";
   await query(
     `UPDATE deposits
-     SET screening_status = $1, risk_score = $2, screening_flags = $3, screened_at = NOW(), updated_at = NOW()
-     WHERE commitment = $4`,
-    [status, screeningResult.riskScore, screeningResult.flags, commitment]
+     SET screening_status = $1, risk_score = $2, screening_flags = $3, screening_providers = $4,
+         screened_at = NOW(), next_screening_at = NULL, updated_at = NOW()
+     WHERE commitment = $5`,
+    [
+      status,
+      screeningResult.riskScore,
+      screeningResult.flags,
+      JSON.stringify(screeningResult.providers),
+      commitment,
+    ]
   );
 
-  if (screeningResult.approved) {
-    // Add to ASP Merkle tree
-    const tree = getASPTree();
-    tree.insert(commitment);
-
-    await query(
-      `UPDATE deposits SET asp_included = TRUE, updated_at = NOW() WHERE commitment = $1`,
-      [commitment]
-    );
-
-    console.log(
-      `[ASP] Commitment ${commitment.slice(0, 10)}... approved and added to ASP tree (leaf ${tree.leafCount - 1})`
+  if (screeningResult.decision === "approve") {
+    await addToASPTree(commitment);
+  } else if (screeningResult.decision === "review") {
+    // Held out of the ASP set until an operator approves it via /admin
+    console.warn(
+      `[ASP] Commitment ${commitment.slice(0, 10)}... held for review (risk ${screeningResult.riskScore.toFixed(2)}): ${screeningResult.flags.join(", ")}`
     );
   } else {
     console.warn(
@@ -220,17 +358,9 @@ export async function processDeposit(
 
     // Block on-chain via ASP registry
     try {
-      const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-      const wallet = new ethers.Wallet(config.privateKey, provider);
-      const registry = new ethers.Contract(
-        config.contracts.aspRegistry,
-        ASP_REGISTRY_ABI,
-        wallet
-      );
       const reason = `Sanctioned: ${screeningResult.flags.join(", ")}`;
-      const tx = await registry.blockCommitment(commitment, reason);
-      await tx.wait();
-      console.log(`[ASP] Commitment blocked on-chain, tx: ${tx.hash}`);
+      const txHash = await blockCommitmentOnChain(commitment, reason);
+      console.log(`[ASP] Commitment blocked on-chain, tx: ${txHash}`);
     } catch (err) {
       console.error(
         "[ASP] Failed to block commitment on-chain:",
@@ -240,40 +370,179 @@ export async function processDeposit(
   }
 }
 
+/**
+ * Retry screening for pending deposits whose backoff has elapsed.
+ * Returns the number of deposits attempted.
+ */
+export async function retryPendingScreenings(limit: number): Promise<number> {
+  const result = await query<{ commitment: string; depositor: string; screening_attempts: number }>(
+    `SELECT commitment, depositor, screening_attempts FROM deposits
+     WHERE screening_status = 'pending' AND depositor IS NOT NULL
+       AND asp_revoked_at IS NULL
+       AND (next_screening_at IS NULL OR next_screening_at <= NOW())
+     ORDER BY next_screening_at ASC NULLS FIRST
+     LIMIT $1`,
+    [limit]
+  );
+
+  for (const row of result.rows) {
+    await screenDeposit(row.commitment, row.depositor, row.screening_attempts);
+  }
+  return result.rows.length;
+}
+
+/**
+ * Re-screen approved depositors whose last screening is older than
+ * RESCREEN_APPROVED_AFTER_MS, so later sanctions-list updates are caught.
+ * A new hit requests revocation of the commitment from the ASP set.
+ */
+export async function rescreenApprovedDeposits(
+  limit: number
+): Promise<{ screened: number; flagged: number }> {
+  const result = await query<{ commitment: string; depositor: string }>(
+    `SELECT commitment, depositor FROM deposits
+     WHERE screening_status = 'approved' AND asp_included = TRUE
+       AND depositor IS NOT NULL
+       AND (screened_at IS NULL OR screened_at <= NOW() - $1 * INTERVAL '1 millisecond')
+     ORDER BY screened_at ASC NULLS FIRST
+     LIMIT $2`,
+    [config.rescreenApprovedAfterMs, limit]
+  );
+
+  let screened = 0;
+  let flagged = 0;
+  for (const row of result.rows) {
+    let screeningResult: ScreeningResult;
+    try {
+      screeningResult = await checkAddress(row.depositor);
+    } catch (err) {
+      // Keep screened_at so the deposit is picked up again next cycle
+      console.error(
+        `[ASP] Re-screening failed for depositor ${row.depositor}:`,
+        err instanceof Error ? err.message : err
+      );
+      continue;
+    }
+    screened++;
+
+    await query(
+      `UPDATE deposits
+       SET risk_score = $1, screening_flags = $2, screening_providers = $3,
+           screened_at = NOW(), updated_at = NOW()
+       WHERE commitment = $4`,
+      [
+        screeningResult.riskScore,
+        screeningResult.flags,
+        JSON.stringify(screeningResult.providers),
+        row.commitment,
+      ]
+    );
+
+    if (screeningResult.decision === "approve") continue;
+    if (screeningResult.decision === "review") {
+      // Elevated but below the block threshold: surface it, keep it in the set
+      console.warn(
+        `[ASP] Approved commitment ${row.commitment.slice(0, 10)}... re-screened to review (risk ${screeningResult.riskScore.toFixed(2)})`
+      );
+      continue;
+    }
+
+    flagged++;
+    console.warn(
+      `[ASP] Approved commitment ${row.commitment.slice(0, 10)}... now flagged: ${screeningResult.flags.join(", ")}`
+    );
+    try {
+      await requestRevocation(
+        row.commitment,
+        `Re-screening: ${screeningResult.flags.join(", ")}`,
+        "rescreener"
+      );
+    } catch (err) {
+      // Already pending or revoked through another path
+      console.log(
+        `[ASP] Revocation for ${row.commitment.slice(0, 10)}... not queued:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+
+  return { screened, flagged };
+}
+
+async function recordRootConfirmed(
+  root: string,
+  leafCount: number,
+  receipt: ethers.TransactionReceipt
+): Promise<void> {
+  await query(
+    `UPDATE asp_roots
+     SET tx_hash = $1, block_number = $2, status = 'confirmed'
+     WHERE root = $3`,
+    [receipt.hash, receipt.blockNumber, root]
+  );
+  registerASPSnapshot({ root, leafCount, blockNumber: receipt.blockNumber });
+
+  console.log(
+    `[ASP] Root published on-chain: ${root.slice(0, 10)}... (tx: ${receipt.hash})`
+  );
+}
+
+/**
+ * Record a root whose transaction was mined after its publish stopped
+ * waiting (or the relayer restarted), so it is served like any other.
+ */
+async function recoverSubmittedRoot(root: string, leafCount: number): Promise<void> {
+  const row = await query<{ status: string }>("SELECT status FROM asp_roots WHERE root = $1", [
+    root,
+  ]);
+  if (row.rows[0]?.status !== "submitted") return;
+
+  const tx = await findTransaction("asp_root", root);
+  const receipt = tx ? await findTransactionReceipt(tx.id) : null;
+  if (receipt?.status === 1) {
+    await recordRootConfirmed(root, leafCount, receipt);
+  }
+}
+
 /**
  * Publish the current ASP tree root on-chain.
  * Called periodically by the aspUpdater worker.
  */
 export async function publishASPRoot(): Promise<string | null> {
+  // Pick up approvals made through another replica's admin API
+  await refreshASPTree();
   const tree = getASPTree();
+  // Capture root and size together; deposits may be inserted while we await
   const newRoot = tree.root;
+  const leafCount = tree.leafCount;
 
-  if (newRoot === ethers.ZeroHash) {
+  if (leafCount === 0) {
     console.log("[ASP] Tree is empty, skipping root update");
     return null;
   }
 
   // Check if this root is already known on-chain
   const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const wallet = new ethers.Wallet(config.privateKey, provider);
   const registry = new ethers.Contract(
     config.contracts.aspRegistry,
     ASP_REGISTRY_ABI,
-    wallet
+    provider
   );
 
+  let alreadyKnown = false;
   try {
-    const alreadyKnown = await registry.isKnownASPRoot(newRoot);
-    if (alreadyKnown) {
-      console.log("[ASP] Current root already known on-chain, skipping");
-      return null;
-    }
+    alreadyKnown = await registry.isKnownASPRoot(newRoot);
   } catch (err) {
     console.error(
       "[ASP] Failed to check existing root:",
       err instanceof Error ? err.message : err
     );
   }
+  if (alreadyKnown) {
+    console.log("[ASP] Current root already known on-chain, skipping");
+    await recoverSubmittedRoot(newRoot, leafCount);
+    return null;
+  }
 
   // Persist pending root
   const blockedCount = (
@@ -286,26 +555,32 @@ export async function publishASPRoot(): Promise<string | null> {
     `INSERT INTO asp_roots (root, leaf_count, blocked_count, status)
      VALUES ($1, $2, $3, 'pending')
      ON CONFLICT (root) DO NOTHING`,
-    [newRoot, tree.leafCount, parseInt(blockedCount, 10)]
+    [newRoot, leafCount, parseInt(blockedCount, 10)]
   );
 
   // Submit on-chain
   try {
-    const tx = await registry.updateASPRoot(newRoot);
-    const receipt = await tx.wait();
-
-    await query(
-      `UPDATE asp_roots
-       SET tx_hash = $1, block_number = $2, status = 'confirmed'
-       WHERE root = $3`,
-      [tx.hash, receipt.blockNumber, newRoot]
+    const receipt = await sendRegistryTransaction(
+      {
+        to: config.contracts.aspRegistry,
+        data: registry.interface.encodeFunctionData("updateASPRoot", [newRoot]),
+        purpose: "asp_root",
+        reference: newRoot,
+      },
+      (tx) =>
+        query("UPDATE asp_roots SET tx_hash = $1, status = 'submitted' WHERE root = $2", [
+          tx.hash,
+          newRoot,
+        ])
     );
-
-    console.log(
-      `[ASP] Root published on-chain: ${newRoot.slice(0, 10)}... (tx: ${tx.hash})`
-    );
-    return tx.hash;
+    await recordRootConfirmed(newRoot, leafCount, receipt);
+    return receipt.hash;
   } catch (err) {
+    if (err instanceof TransactionPendingError) {
+      // Left submitted; the next cycle waits on the same transaction
+      console.warn(`[ASP] Root ${newRoot.slice(0, 10)}... still pending, checked again next cycle`);
+      return null;
+    }
     await query(
       `UPDATE asp_roots SET status = 'failed' WHERE root = $1`,
       [newRoot]
@@ -319,41 +594,558 @@ export async function publishASPRoot(): Promise<string | null> {
 }
 
 /**
- * Get a Merkle proof for a commitment in the ASP tree.
+ * Apply pending revocations and publish the resulting root under the ASP
+ * publish lock, so an operator-forced publish and the aspUpdater on another
+ * replica never block a commitment or submit a root twice.
+ */
+export async function applyRevocationsAndPublish(): Promise<{
+  revocationsApplied: number;
+  txHash: string | null;
+}> {
+  return withAdvisoryLock(ADVISORY_LOCKS.aspPublish, async () => {
+    const revocationsApplied = await processPendingRevocations();
+    const txHash = await publishASPRoot();
+    return { revocationsApplied, txHash };
+  });
+}
+
+/**
+ * Record a confirmed root as servable, after checking that the live tree
+ * truncated to its leaf count still reproduces it.
+ */
+function registerASPSnapshot(snapshot: ASPRootSnapshot): boolean {
+  const tree = getASPTree();
+  const root = snapshot.root.toLowerCase();
+
+  if (snapshot.leafCount > tree.leafCount || tree.rootAt(snapshot.leafCount) !== root) {
+    console.warn(
+      `[ASP] Root ${root.slice(0, 10)}... (${snapshot.leafCount} leaves) does not match the local tree, not serving proofs for it`
+    );
+    return false;
+  }
+
+  aspSnapshots = [
+    { ...snapshot, root },
+    ...aspSnapshots.filter((s) => s.root !== root),
+  ]
+    .sort((a, b) => b.blockNumber - a.blockNumber)
+    .slice(0, ASP_ROOT_HISTORY_SIZE);
+  return true;
+}
+
+/**
+ * Drop snapshots the live tree no longer reproduces. After a revocation this
+ * removes every root that still contained the revoked commitment, so the
+ * relayer stops serving proofs against them.
+ */
+function pruneASPSnapshots(): void {
+  const tree = getASPTree();
+  const before = aspSnapshots.length;
+  aspSnapshots = aspSnapshots.filter(
+    (s) => s.leafCount <= tree.leafCount && tree.rootAt(s.leafCount) === s.root
+  );
+  if (aspSnapshots.length < before) {
+    console.log(
+      `[ASP] Stopped serving proofs for ${before - aspSnapshots.length} root(s) that include revoked commitments`
+    );
+  }
+}
+
+/**
+ * Load the most recent confirmed ASP roots from asp_roots.
+ * Must run after the tree itself has been loaded.
+ */
+async function loadASPSnapshotsFromDB(): Promise<void> {
+  const result = await query<{ root: string; leaf_count: number; block_number: string }>(
+    `SELECT root, leaf_count, block_number FROM asp_roots
+     WHERE status = 'confirmed' AND block_number IS NOT NULL
+     ORDER BY block_number DESC, created_at DESC
+     LIMIT $1`,
+    [ASP_ROOT_HISTORY_SIZE]
+  );
+
+  aspSnapshots = [];
+  latestLoadedRoot = result.rows[0]?.root.toLowerCase() ?? null;
+  // Oldest first so the newest ends up at the front
+  for (const row of [...result.rows].reverse()) {
+    registerASPSnapshot({
+      root: row.root,
+      leafCount: row.leaf_count,
+      blockNumber: parseInt(row.block_number, 10),
+    });
+  }
+
+  console.log(`[ASP] Serving proofs for ${aspSnapshots.length} published ASP root(s)`);
+}
+
+// Newest confirmed root when snapshots were last loaded from asp_roots
+let latestLoadedRoot: string | null = null;
+
+/**
+ * Reload snapshots if a root was confirmed since they were last loaded,
+ * e.g. one published by the leader replica. Returns true if reloaded.
+ */
+export async function refreshASPSnapshots(): Promise<boolean> {
+  const result = await query<{ root: string }>(
+    `SELECT root FROM asp_roots
+     WHERE status = 'confirmed' AND block_number IS NOT NULL
+     ORDER BY block_number DESC, created_at DESC
+     LIMIT 1`
+  );
+  const latest = result.rows[0]?.root.toLowerCase() ?? null;
+  if (latest === latestLoadedRoot) return false;
+
+  await loadASPSnapshotsFromDB();
+  return true;
+}
+
+/**
+ * Look up a published ASP root. Without `root`, returns the latest confirmed
+ * one; returns null if the root is unknown or has left the on-chain history.
+ */
+export function getASPSnapshot(root?: string): ASPRootSnapshot | null {
+  if (!root) return aspSnapshots[0] ?? null;
+  const normalized = root.toLowerCase();
+  return aspSnapshots.find((s) => s.root === normalized) ?? null;
+}
+
+/**
+ * Get a Merkle proof for a commitment in the ASP tree, against a published
+ * root snapshot. Returns null if the commitment is not in the tree or was
+ * approved after that root was published.
  */
 export function getASPProof(
-  commitment: string
-): { root: string; pathElements: string[]; pathIndices: number[] } | null {
+  commitment: string,
+  snapshot: ASPRootSnapshot
+): { root: string; leafIndex: number; pathElements: string[]; pathIndices: number[] } | null {
   const tree = getASPTree();
   const index = tree.indexOf(commitment);
   if (index === -1) return null;
 
-  const proof = tree.getProof(index);
+  const proof = tree.getProof(index, snapshot.leafCount);
   if (!proof) return null;
 
   return {
-    root: tree.root,
+    root: snapshot.root,
+    leafIndex: index,
     ...proof,
   };
 }
 
 /**
- * Rebuild the ASP tree from the database on startup.
+ * Undo deposits of a pool above `afterBlock` after a chain reorg or for a
+ * reindex: their ASP leaves are zeroed (later leaves keep their indexes) and
+ * the rows are deleted so the watcher can index the chain again. With
+ * `keepRevoked`, revoked deposits keep their rows so replaying them does not
+ * screen them back into the ASP set. Returns the number of deposits rolled
+ * back.
  */
-export async function rebuildASPTreeFromDB(): Promise<void> {
-  const tree = getASPTree();
+export async function rollbackDeposits(
+  poolAddress: string,
+  afterBlock: number,
+  keepRevoked = false
+): Promise<number> {
+  const result = await query<{ commitment: string; asp_revoked_at: Date | null }>(
+    `SELECT commitment, asp_revoked_at FROM deposits
+     WHERE pool_address = $1 AND block_number > $2`,
+    [poolAddress.toLowerCase(), afterBlock]
+  );
+  if (result.rows.length === 0) return 0;
 
-  const result = await query<{ commitment: string }>(
-    `SELECT commitment FROM deposits
-     WHERE asp_included = TRUE
-     ORDER BY leaf_index ASC`
+  const zeroed = await withASPTreeLock(async (tree) => {
+    const leaves: number[] = [];
+    for (const row of result.rows) {
+      const aspLeafIndex = tree.indexOf(row.commitment);
+      if (aspLeafIndex !== -1) {
+        tree.zeroLeaf(aspLeafIndex);
+        leaves.push(aspLeafIndex);
+      }
+    }
+    if (leaves.length > 0) pruneASPSnapshots();
+
+    await withTransaction(async (client) => {
+      for (const aspLeafIndex of leaves) {
+        await saveTreeNodes(client, tree.getPathNodes(aspLeafIndex));
+      }
+      await client.query(
+        `DELETE FROM deposits
+         WHERE pool_address = $1 AND block_number > $2
+           AND ($3::boolean = FALSE OR asp_revoked_at IS NULL)`,
+        [poolAddress.toLowerCase(), afterBlock, keepRevoked]
+      );
+    });
+    return leaves;
+  });
+
+  console.warn(
+    `[ASP] Rolled back ${result.rows.length} deposit(s) of ${poolAddress.slice(0, 10)}... after block ${afterBlock} (${zeroed.length} ASP leaves zeroed)`
   );
+  return result.rows.length;
+}
 
-  for (const row of result.rows) {
-    tree.insert(row.commitment);
+/**
+ * Discard the ASP tree (in memory and asp_tree_nodes) and every served
+ * snapshot, for a full reindex. Approved deposits are re-added as the
+ * reindex replays them; the next ASP update publishes the rebuilt root.
+ */
+export async function resetASPTree(): Promise<void> {
+  await withASPTreeLock(async () => {
+    await withTransaction(async (client) => {
+      await client.query("DELETE FROM asp_tree_nodes");
+      await client.query(
+        "UPDATE deposits SET asp_included = FALSE, updated_at = NOW() WHERE asp_included"
+      );
+    });
+    aspTree = new ASPMerkleTree(config.aspTreeDepth);
+    aspSnapshots = [];
+  });
+  console.warn("[ASP] ASP tree reset, rebuilding from reindexed deposits");
+}
+
+/**
+ * Request removal of an approved commitment from the ASP set. The request is
+ * recorded in asp_revocations and applied by the next ASP update; see
+ * revokeCommitment to apply it right away.
+ */
+export async function requestRevocation(
+  commitment: string,
+  reason: string,
+  requestedBy: string
+): Promise<string> {
+  const deposit = await query<{ asp_included: boolean; asp_revoked_at: Date | null }>(
+    "SELECT asp_included, asp_revoked_at FROM deposits WHERE commitment = $1",
+    [commitment.toLowerCase()]
+  );
+  if (deposit.rows.length === 0) {
+    throw new Error("Deposit not found");
+  }
+  if (deposit.rows[0].asp_revoked_at) {
+    throw new Error("Commitment already revoked");
+  }
+  if (!deposit.rows[0].asp_included) {
+    throw new Error("Commitment is not in the ASP set");
+  }
+
+  const pending = await query(
+    "SELECT 1 FROM asp_revocations WHERE commitment = $1 AND status = 'pending'",
+    [commitment.toLowerCase()]
+  );
+  if (pending.rows.length > 0) {
+    throw new Error("Revocation already pending");
   }
 
+  const result = await query<{ id: string }>(
+    `INSERT INTO asp_revocations (commitment, reason, requested_by)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [commitment.toLowerCase(), reason, requestedBy]
+  );
+
   console.log(
-    `[ASP] Rebuilt ASP tree from DB: ${tree.leafCount} leaves, root: ${tree.root.slice(0, 10)}...`
+    `[ASP] Revocation of ${commitment.slice(0, 10)}... requested by ${requestedBy}: ${reason}`
   );
+  return result.rows[0].id;
+}
+
+/**
+ * Apply one revocation: zero the commitment's ASP leaf, persist the path and
+ * the audit fields, then block the commitment on-chain. Re-applying is safe;
+ * the leaf is only zeroed once.
+ */
+async function applyRevocation(revocation: {
+  id: string;
+  commitment: string;
+  reason: string;
+}): Promise<void> {
+  const { id, commitment, reason } = revocation;
+
+  await withASPTreeLock(async (tree) => {
+    const aspLeafIndex = tree.indexOf(commitment);
+    if (aspLeafIndex === -1) return;
+
+    tree.zeroLeaf(aspLeafIndex);
+    pruneASPSnapshots();
+
+    await withTransaction(async (client) => {
+      await saveTreeNodes(client, tree.getPathNodes(aspLeafIndex));
+      await client.query(
+        `UPDATE deposits
+         SET asp_included = FALSE, screening_status = 'blocked',
+             asp_revoked_at = NOW(), asp_revocation_reason = $1, updated_at = NOW()
+         WHERE commitment = $2`,
+        [reason, commitment]
+      );
+      await client.query(
+        "UPDATE asp_revocations SET asp_leaf_index = $1 WHERE id = $2",
+        [aspLeafIndex, id]
+      );
+    });
+
+    console.warn(
+      `[ASP] Commitment ${commitment.slice(0, 10)}... REVOKED (leaf ${aspLeafIndex} zeroed): ${reason}`
+    );
+  });
+
+  try {
+    const txHash = await blockCommitmentOnChain(commitment, `Revoked: ${reason}`);
+    await query(
+      `UPDATE asp_revocations
+       SET status = 'completed', block_tx_hash = $1, error_message = NULL, processed_at = NOW()
+       WHERE id = $2`,
+      [txHash, id]
+    );
+    console.log(`[ASP] Revoked commitment blocked on-chain, tx: ${txHash}`);
+  } catch (err) {
+    if (err instanceof TransactionPendingError) {
+      // Not a failed attempt: the next cycle waits on the same transaction
+      console.warn(`[ASP] Block of revoked commitment ${commitment.slice(0, 10)}... still pending`);
+      return;
+    }
+    // Left pending so the next updater cycle retries the on-chain block,
+    // until MAX_REVOCATION_ATTEMPTS; then failed until an operator retries
+    const message = err instanceof Error ? err.message : String(err);
+    const result = await query<{ status: string; attempts: number }>(
+      `UPDATE asp_revocations
+       SET error_message = $1, attempts = attempts + 1,
+           status = CASE WHEN attempts + 1 >= $2 THEN 'failed' ELSE 'pending' END
+       WHERE id = $3
+       RETURNING status, attempts`,
+      [message, MAX_REVOCATION_ATTEMPTS, id]
+    );
+    console.error(
+      `[ASP] Failed to block revoked commitment on-chain (attempt ${result.rows[0]?.attempts}):`,
+      message
+    );
+    if (result.rows[0]?.status === "failed") {
+      console.error(
+        `[ASP] Revocation ${id} FAILED after ${MAX_REVOCATION_ATTEMPTS} attempts; retry via /admin/revocations/${id}/retry`
+      );
+    }
+  }
+}
+
+/**
+ * Apply all pending revocations, oldest first. Returns the number processed;
+ * the caller publishes the resulting root.
+ */
+export async function processPendingRevocations(): Promise<number> {
+  const result = await query<{ id: string; commitment: string; reason: string }>(
+    `SELECT id, commitment, reason FROM asp_revocations
+     WHERE status = 'pending'
+     ORDER BY created_at ASC`
+  );
+
+  for (const row of result.rows) {
+    await applyRevocation(row);
+  }
+  return result.rows.length;
+}
+
+/**
+ * Apply pending revocations (including `id`) and publish the resulting root
+ * under the ASP publish lock, without waiting for the next ASP update. A
+ * root that fails to publish is left to the aspUpdater.
+ */
+async function applyRevocationNow(id: string): Promise<RevocationOutcome> {
+  const rootTxHash = await withAdvisoryLock(ADVISORY_LOCKS.aspPublish, async () => {
+    await processPendingRevocations();
+    try {
+      return await publishASPRoot();
+    } catch {
+      // Logged by publishASPRoot
+      return null;
+    }
+  });
+
+  const result = await query<{
+    status: string;
+    attempts: number;
+    block_tx_hash: string | null;
+    error_message: string | null;
+  }>(
+    "SELECT status, attempts, block_tx_hash, error_message FROM asp_revocations WHERE id = $1",
+    [id]
+  );
+  const row = result.rows[0];
+  return {
+    revocationId: id,
+    status: row.status,
+    attempts: row.attempts,
+    blockTxHash: row.block_tx_hash,
+    rootTxHash,
+    error: row.error_message,
+  };
+}
+
+/**
+ * Revoke an approved commitment now: record the request, zero its leaf,
+ * block it on-chain and publish the new root.
+ */
+export async function revokeCommitment(
+  commitment: string,
+  reason: string,
+  requestedBy: string
+): Promise<RevocationOutcome> {
+  const id = await requestRevocation(commitment, reason, requestedBy);
+  return applyRevocationNow(id);
+}
+
+/**
+ * Operator retry of a failed revocation with a fresh attempt budget.
+ */
+export async function retryRevocation(id: string): Promise<RevocationOutcome> {
+  const result = await query(
+    `UPDATE asp_revocations
+     SET status = 'pending', attempts = 0, error_message = NULL
+     WHERE id = $1 AND status = 'failed'
+     RETURNING id`,
+    [id]
+  );
+  if (result.rows.length === 0) {
+    const existing = await query<{ status: string }>(
+      "SELECT status FROM asp_revocations WHERE id = $1",
+      [id]
+    );
+    if (existing.rows.length === 0) {
+      throw new Error("Revocation not found");
+    }
+    throw new Error(`Revocation is ${existing.rows[0].status}, not failed`);
+  }
+
+  console.log(`[ASP] Revocation ${id} retried by operator`);
+  return applyRevocationNow(id);
+}
+
+/**
+ * Operator approval of a deposit whose screening is pending (e.g. the
+ * screening providers were unavailable) or held for review by the policy.
+ * Adds it to the ASP tree.
+ */
+export async function approvePendingCommitment(
+  commitment: string
+): Promise<{ aspLeafIndex: number }> {
+  const normalized = commitment.toLowerCase();
+  await assertDepositExists(normalized);
+
+  // The status only changes together with the tree insert, so a failed
+  // insert leaves the deposit pending and the approval can be retried
+  const aspLeafIndex = await addToASPTree(normalized, async (client) => {
+    const result = await client.query(
+      `UPDATE deposits
+       SET screening_status = 'approved', screened_at = NOW(), updated_at = NOW()
+       WHERE commitment = $1 AND screening_status IN ('pending', 'review')`,
+      [normalized]
+    );
+    if (result.rowCount === 0) {
+      throw new Error("Deposit screening is not pending or in review");
+    }
+  });
+  return { aspLeafIndex };
+}
+
+/**
+ * Operator override for a blocked or revoked commitment: lift the on-chain
+ * block if set and add the commitment back to the ASP set. A revoked
+ * commitment gets a new leaf; its old slot stays zero.
+ */
+export async function unblockCommitment(
+  commitment: string
+): Promise<{ txHash: string | null; aspLeafIndex: number }> {
+  const normalized = commitment.toLowerCase();
+  const deposit = await query<{ screening_status: string }>(
+    "SELECT screening_status FROM deposits WHERE commitment = $1",
+    [normalized]
+  );
+  if (deposit.rows.length === 0) {
+    throw new Error("Deposit not found");
+  }
+  if (deposit.rows[0].screening_status !== "blocked") {
+    throw new Error("Commitment is not blocked");
+  }
+
+  const pending = await query(
+    "SELECT 1 FROM asp_revocations WHERE commitment = $1 AND status = 'pending'",
+    [normalized]
+  );
+  if (pending.rows.length > 0) {
+    throw new Error("Revocation already pending");
+  }
+
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const registry = new ethers.Contract(
+    config.contracts.aspRegistry,
+    ASP_REGISTRY_ABI,
+    provider
+  );
+
+  let txHash: string | null = null;
+  if (await registry.isBlocked(normalized)) {
+    const receipt = await sendAndWait({
+      to: config.contracts.aspRegistry,
+      data: registry.interface.encodeFunctionData("unblockCommitment", [normalized]),
+      purpose: "asp_unblock",
+      reference: normalized,
+    });
+    txHash = receipt.hash;
+    console.log(`[ASP] Commitment ${normalized.slice(0, 10)}... unblocked on-chain, tx: ${txHash}`);
+  }
+
+  const aspLeafIndex = await addToASPTree(normalized, async (client) => {
+    await client.query(
+      `UPDATE deposits
+       SET screening_status = 'approved', asp_revoked_at = NULL,
+           asp_revocation_reason = NULL, updated_at = NOW()
+       WHERE commitment = $1`,
+      [normalized]
+    );
+  });
+  return { txHash, aspLeafIndex };
+}
+
+async function assertDepositExists(commitment: string): Promise<void> {
+  const result = await query("SELECT 1 FROM deposits WHERE commitment = $1", [commitment]);
+  if (result.rows.length === 0) {
+    throw new Error("Deposit not found");
+  }
+}
+
+/**
+ * Load the ASP tree from persisted nodes on startup.
+ *
+ * If no nodes have been persisted yet (first start after upgrading), the tree
+ * is replayed once from approved commitments in chain order and its nodes are
+ * written to asp_tree_nodes so later restarts only need the load.
+ */
+export async function rebuildASPTreeFromDB(): Promise<void> {
+  await initPoseidon();
+  const version = await readASPTreeVersion();
+  const nodeCount = await loadASPTreeNodes();
+  const tree = getASPTree();
+
+  if (nodeCount > 0) {
+    aspTreeVersion = version;
+    console.log(
+      `[ASP] Loaded ASP tree from ${nodeCount} persisted nodes: ${tree.leafCount} leaves, root: ${tree.root.slice(0, 10)}...`
+    );
+  } else {
+    const result = await query<{ commitment: string }>(
+      `SELECT commitment FROM deposits
+       WHERE asp_included = TRUE
+       ORDER BY block_number ASC, leaf_index ASC`
+    );
+
+    for (const row of result.rows) {
+      tree.insert(row.commitment);
+    }
+
+    if (tree.leafCount > 0) {
+      await withTransaction((client) => saveTreeNodes(client, tree.getAllNodes()));
+    }
+
+    console.log(
+      `[ASP] Rebuilt ASP tree from DB: ${tree.leafCount} leaves, root: ${tree.root.slice(0, 10)}...`
+    );
+  }
+
+  await loadASPSnapshotsFromDB();
 }
@@ -1,17 +1,40 @@
+import { getUserOpHash } from "@privacy-paymaster/sdk";
 import { ethers } from "ethers";
+import * as fs from "fs";
 import { config } from "../config";
 import { query } from "../db";
+import {
+  DEFAULT_GAS_LIMITS,
+  fitFeesToSponsorship,
+  sameGasLimits,
+  totalGasLimit,
+  UserOpGasFees,
+  UserOpGasLimits,
+} from "../lib/sponsorshipGas";
+import {
+  evaluateSponsorship,
+  SponsorshipPolicy,
+  SponsorshipPolicyError,
+  toSelector,
+} from "../lib/sponsorshipPolicy";
+import { addUserOp, simulateUserOp, userOpGas } from "./mempool.service";
+import { getPool } from "./poolRegistry.service";
+import { assertKnownRoots, verifyMembershipProof } from "./proof.service";
+import { assertSponsorshipAvailable } from "./treasury.service";
 
 // ERC-4337 EntryPoint ABI (minimal)
 const ENTRY_POINT_ABI = [
   "function getNonce(address sender, uint192 key) view returns (uint256)",
-  "function getUserOpHash(tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature) userOp) view returns (bytes32)",
 ];
 
 const PRIVACY_PAYMASTER_ABI = [
   "function maxGasSponsorship() view returns (uint256)",
+  "function pool() view returns (address)",
 ];
 
+// Bundler estimates re-run until the limits stop changing, at most this often
+const MAX_ESTIMATION_PASSES = 3;
+
 /**
  * Packed UserOperation for ERC-4337 v0.7 (EntryPoint 0.7).
  */
@@ -37,6 +60,8 @@ export interface UserOpRequest {
   merkleRoot: string;
   nullifierHash: string;
   aspRoot: string;
+  // Pool whose paymaster sponsors the op; defaults to PRIVACY_PAYMASTER_ADDRESS
+  poolAddress?: string;
 }
 
 export interface SponsorResult {
@@ -45,10 +70,96 @@ export interface SponsorResult {
   preVerificationGas: string;
   verificationGasLimit: string;
   callGasLimit: string;
+  paymasterVerificationGasLimit: string;
+  paymasterPostOpGasLimit: string;
   maxFeePerGas: string;
   maxPriorityFeePerGas: string;
 }
 
+export interface SponsorshipStatus {
+  userOpHash: string;
+  status: string;
+  txHash: string | null;
+  blockNumber: number | null;
+  maxGasCost: string;
+  /** Gas the EntryPoint charged the paymaster, once mined */
+  actualGasCost: string | null;
+  error: string | null;
+}
+
+/**
+ * Sponsorship policy file (SPONSORSHIP_POLICY_PATH); see
+ * sponsorship-policy.example.json. Omitted sections are unrestricted.
+ */
+interface SponsorshipPolicyFile {
+  maxGasPerOp?: number | string;
+  factories?: string[];
+  targets?: { address: string; name?: string; selectors?: string[] }[];
+}
+
+let sponsorshipPolicy: SponsorshipPolicy | null = null;
+
+/**
+ * Load the sponsorship policy from SPONSORSHIP_POLICY_PATH. Without a file
+ * every op with a valid membership proof is sponsored. Throws if the file
+ * is missing or invalid.
+ */
+export function loadSponsorshipPolicy(): void {
+  if (!config.sponsorshipPolicyPath) {
+    console.warn("[Bundler] SPONSORSHIP_POLICY_PATH not set, sponsoring any call");
+    sponsorshipPolicy = { factories: null, targets: null, maxGasPerOp: null };
+    return;
+  }
+
+  if (!fs.existsSync(config.sponsorshipPolicyPath)) {
+    throw new Error(`Sponsorship policy not found at ${config.sponsorshipPolicyPath}`);
+  }
+  const file: SponsorshipPolicyFile = JSON.parse(
+    fs.readFileSync(config.sponsorshipPolicyPath, "utf-8")
+  );
+  const toAddress = (value: string, field: string) => {
+    if (!ethers.isAddress(value)) {
+      throw new Error(`Invalid ${field} in sponsorship policy: ${value}`);
+    }
+    return value.toLowerCase();
+  };
+
+  let targets: Record<string, string[]> | null = null;
+  if (file.targets) {
+    targets = {};
+    for (const entry of file.targets) {
+      targets[toAddress(entry.address, "target")] = (entry.selectors ?? []).map(toSelector);
+    }
+  }
+
+  let maxGasPerOp: bigint | null = null;
+  if (file.maxGasPerOp !== undefined) {
+    try {
+      maxGasPerOp = BigInt(file.maxGasPerOp);
+    } catch {
+      throw new Error(`Invalid maxGasPerOp in sponsorship policy: ${file.maxGasPerOp}`);
+    }
+  }
+
+  sponsorshipPolicy = {
+    factories: file.factories ? file.factories.map((f) => toAddress(f, "factory")) : null,
+    targets,
+    maxGasPerOp,
+  };
+  console.log(
+    `[Bundler] Sponsorship policy: ${targets ? Object.keys(targets).length : "any"} target(s), ` +
+    `${sponsorshipPolicy.factories?.length ?? "any"} factory(ies), ` +
+    `max gas ${sponsorshipPolicy.maxGasPerOp ?? "unlimited"}`
+  );
+}
+
+function getSponsorshipPolicy(): SponsorshipPolicy {
+  if (!sponsorshipPolicy) {
+    throw new Error("Sponsorship policy not loaded");
+  }
+  return sponsorshipPolicy;
+}
+
 /**
  * Pack two uint128 values into a single bytes32.
  */
@@ -95,23 +206,15 @@ function encodePaymasterData(
 }
 
 /**
- * Estimate gas for a UserOperation using the bundler's eth_estimateUserOperationGas.
+ * Estimate gas for a UserOperation using the bundler's
+ * eth_estimateUserOperationGas. Paymaster limits the bundler does not
+ * return keep their current values. Null without a bundler or on error.
  */
 async function estimateGasViaBundler(
-  userOp: PackedUserOperation
-): Promise<{
-  preVerificationGas: bigint;
-  verificationGasLimit: bigint;
-  callGasLimit: bigint;
-}> {
-  if (!config.bundlerUrl) {
-    // Return conservative defaults if no bundler configured
-    return {
-      preVerificationGas: 50000n,
-      verificationGasLimit: 500000n,
-      callGasLimit: 300000n,
-    };
-  }
+  userOp: PackedUserOperation,
+  current: UserOpGasLimits
+): Promise<UserOpGasLimits | null> {
+  if (!config.bundlerUrl) return null;
 
   try {
     const response = await fetch(config.bundlerUrl, {
@@ -127,28 +230,37 @@ async function estimateGasViaBundler(
 
     const data = (await response.json()) as {
       error?: { message: string };
-      result?: { preVerificationGas: string; verificationGasLimit: string; callGasLimit: string };
+      result?: {
+        preVerificationGas: string;
+        verificationGasLimit: string;
+        callGasLimit: string;
+        paymasterVerificationGasLimit?: string;
+        paymasterPostOpGasLimit?: string;
+      };
     };
 
     if (data.error) {
       throw new Error(`Bundler estimation error: ${data.error.message}`);
     }
 
+    const result = data.result!;
     return {
-      preVerificationGas: BigInt(data.result!.preVerificationGas),
-      verificationGasLimit: BigInt(data.result!.verificationGasLimit),
-      callGasLimit: BigInt(data.result!.callGasLimit),
+      preVerificationGas: BigInt(result.preVerificationGas),
+      verificationGasLimit: BigInt(result.verificationGasLimit),
+      callGasLimit: BigInt(result.callGasLimit),
+      paymasterVerificationGasLimit: result.paymasterVerificationGasLimit
+        ? BigInt(result.paymasterVerificationGasLimit)
+        : current.paymasterVerificationGasLimit,
+      paymasterPostOpGasLimit: result.paymasterPostOpGasLimit
+        ? BigInt(result.paymasterPostOpGasLimit)
+        : current.paymasterPostOpGasLimit,
     };
   } catch (err) {
     console.error(
-      "[Bundler] Gas estimation failed, using defaults:",
+      "[Bundler] Gas estimation failed, keeping current limits:",
       err instanceof Error ? err.message : err
     );
-    return {
-      preVerificationGas: 50000n,
-      verificationGasLimit: 500000n,
-      callGasLimit: 300000n,
-    };
+    return null;
   }
 }
 
@@ -187,7 +299,8 @@ async function sendToBundler(
 
 /**
  * Create a sponsored UserOperation with paymaster data, estimate gas,
- * and submit to the bundler.
+ * fit its fee caps under the paymaster's maxGasSponsorship, and submit it
+ * to the external bundler or the built-in mempool.
  */
 export async function sponsorUserOp(
   req: UserOpRequest
@@ -199,9 +312,31 @@ export async function sponsorUserOp(
   if (!req.proof || !req.proof.startsWith("0x")) {
     throw new Error("Invalid proof format");
   }
-  if (!req.nullifierHash || !req.nullifierHash.startsWith("0x")) {
-    throw new Error("Invalid nullifierHash format");
+  for (const field of ["merkleRoot", "nullifierHash", "aspRoot"] as const) {
+    if (!req[field] || !ethers.isHexString(req[field], 32)) {
+      throw new Error(`Invalid ${field} format`);
+    }
+  }
+  // Stored and matched lowercased, as the sponsorship watcher reads them
+  // from GasSponsored events
+  req = {
+    ...req,
+    sender: req.sender.toLowerCase(),
+    nullifierHash: req.nullifierHash.toLowerCase(),
+  };
+
+  let paymasterAddress = config.contracts.privacyPaymaster;
+  if (req.poolAddress) {
+    const pool = getPool(req.poolAddress);
+    if (!pool) {
+      throw new Error("Invalid poolAddress: not a registered pool");
+    }
+    if (!pool.paymaster) {
+      throw new Error("Invalid poolAddress: pool has no linked paymaster");
+    }
+    paymasterAddress = pool.paymaster;
   }
+  assertSponsorshipAvailable(paymasterAddress);
 
   // Check nullifier hasn't been used for sponsorship
   const existing = await query<{ id: string }>(
@@ -214,11 +349,36 @@ export async function sponsorUserOp(
 
   const provider = new ethers.JsonRpcProvider(config.rpcUrl);
 
-  // Get fee data
+  // Verify the membership proof and roots the paymaster will check, so an
+  // op that fails validation never reaches the bundler
+  await verifyMembershipProof(req.proof, {
+    root: req.merkleRoot,
+    nullifierHash: req.nullifierHash,
+    aspRoot: req.aspRoot,
+  });
+  const paymaster = new ethers.Contract(paymasterAddress, PRIVACY_PAYMASTER_ABI, provider);
+  let paymasterPool: string;
+  try {
+    paymasterPool = await paymaster.pool();
+  } catch (err) {
+    console.error(
+      "[Bundler] Failed to read paymaster pool:",
+      err instanceof Error ? err.message : err
+    );
+    throw new Error("Unable to verify merkle roots");
+  }
+  await assertKnownRoots(paymasterPool, req.merkleRoot, req.aspRoot);
+
+  // Network fee caps, the base fee they may not drop below, and the most
+  // the paymaster will sponsor per op
   const feeData = await provider.getFeeData();
-  const maxFeePerGas = feeData.maxFeePerGas ?? ethers.parseUnits("5", "gwei");
-  const maxPriorityFeePerGas =
-    feeData.maxPriorityFeePerGas ?? ethers.parseUnits("1", "gwei");
+  const networkFees: UserOpGasFees = {
+    maxFeePerGas: feeData.maxFeePerGas ?? ethers.parseUnits("5", "gwei"),
+    maxPriorityFeePerGas: feeData.maxPriorityFeePerGas ?? ethers.parseUnits("1", "gwei"),
+  };
+  const latestBlock = await provider.getBlock("latest");
+  const minFeePerGas = latestBlock?.baseFeePerGas ?? feeData.gasPrice ?? 0n;
+  const maxGasSponsorship: bigint = await paymaster.maxGasSponsorship();
 
   // Get nonce from EntryPoint
   const entryPoint = new ethers.Contract(
@@ -228,62 +388,74 @@ export async function sponsorUserOp(
   );
   const nonce = await entryPoint.getNonce(req.sender, 0);
 
-  // Gas limits
-  const verificationGasLimit = 500000n;
-  const callGasLimit = 300000n;
-  const postOpGasLimit = 100000n;
-  const preVerificationGas = 50000n;
-
-  // Build paymasterAndData
-  const paymasterAndData = encodePaymasterData(
-    config.contracts.privacyPaymaster,
-    verificationGasLimit,
-    postOpGasLimit,
-    req.proof,
-    req.merkleRoot,
-    req.nullifierHash,
-    req.aspRoot
-  );
-
-  // Pack gas fields
-  const accountGasLimits = packUint128(verificationGasLimit, callGasLimit);
-  const gasFees = packUint128(
-    BigInt(maxFeePerGas.toString()),
-    BigInt(maxPriorityFeePerGas.toString())
-  );
-
-  // Build UserOperation
-  const userOp: PackedUserOperation = {
+  const buildUserOp = (
+    limits: UserOpGasLimits,
+    fees: UserOpGasFees
+  ): PackedUserOperation => ({
     sender: req.sender,
     nonce: ethers.toBeHex(nonce),
     initCode: req.initCode ?? "0x",
     callData: req.callData,
-    accountGasLimits,
-    preVerificationGas: ethers.toBeHex(preVerificationGas),
-    gasFees,
-    paymasterAndData,
+    accountGasLimits: packUint128(limits.verificationGasLimit, limits.callGasLimit),
+    preVerificationGas: ethers.toBeHex(limits.preVerificationGas),
+    gasFees: packUint128(fees.maxFeePerGas, fees.maxPriorityFeePerGas),
+    paymasterAndData: encodePaymasterData(
+      paymasterAddress,
+      limits.paymasterVerificationGasLimit,
+      limits.paymasterPostOpGasLimit,
+      req.proof,
+      req.merkleRoot,
+      req.nullifierHash,
+      req.aspRoot
+    ),
     signature: req.signature ?? "0x",
-  };
+  });
 
-  // Estimate gas via bundler (may refine the defaults)
-  try {
-    const gasEstimate = await estimateGasViaBundler(userOp);
-    userOp.preVerificationGas = ethers.toBeHex(gasEstimate.preVerificationGas);
-    userOp.accountGasLimits = packUint128(
-      gasEstimate.verificationGasLimit,
-      gasEstimate.callGasLimit
+  // Estimate gas via the bundler until the limits settle: each estimate
+  // changes the op the next one simulates (paymasterAndData and fees).
+  // Fees are fitted without the base-fee floor here, so the simulation
+  // passes the paymaster's maxGasSponsorship check.
+  let limits = DEFAULT_GAS_LIMITS;
+  for (let pass = 0; pass < MAX_ESTIMATION_PASSES; pass++) {
+    const estimateFees =
+      fitFeesToSponsorship(limits, networkFees, maxGasSponsorship, 0n) ?? networkFees;
+    const estimate = await estimateGasViaBundler(buildUserOp(limits, estimateFees), limits);
+    if (!estimate || sameGasLimits(estimate, limits)) break;
+    limits = estimate;
+  }
+
+  // Reject up front if the paymaster cannot cover the op at the base fee
+  const fees = fitFeesToSponsorship(limits, networkFees, maxGasSponsorship, minFeePerGas);
+  if (!fees) {
+    throw new Error(
+      `Gas cost exceeds maxGasSponsorship: ${totalGasLimit(limits)} gas at the ` +
+      `base fee of ${minFeePerGas} wei is more than the paymaster's ${maxGasSponsorship} wei`
     );
-  } catch (err) {
-    console.warn(
-      "[Bundler] Using default gas estimates:",
-      err instanceof Error ? err.message : err
+  }
+  if (fees.maxFeePerGas < networkFees.maxFeePerGas) {
+    console.log(
+      `[Bundler] Lowered maxFeePerGas from ${networkFees.maxFeePerGas} to ` +
+      `${fees.maxFeePerGas} wei to fit maxGasSponsorship`
     );
   }
+  const userOp = buildUserOp(limits, fees);
 
-  // Compute max gas cost for the sponsorship record
-  const maxGasCost =
-    (verificationGasLimit + callGasLimit + preVerificationGas + postOpGasLimit) *
-    BigInt(maxFeePerGas.toString());
+  // Only sponsor what the policy allows
+  const violation = evaluateSponsorship(
+    { initCode: userOp.initCode, callData: userOp.callData, gasLimit: userOpGas(userOp) },
+    getSponsorshipPolicy()
+  );
+  if (violation) {
+    throw new SponsorshipPolicyError(violation);
+  }
+
+  // Simulate against the EntryPoint: an op the paymaster rejects is
+  // neither recorded nor forwarded. The account has yet to sign the gas
+  // and fees chosen here, so its signature may still fail.
+  await simulateUserOp(userOp, { allowPendingSignature: true });
+
+  // The prefund the EntryPoint will reserve from the paymaster's deposit
+  const maxGasCost = totalGasLimit(limits) * fees.maxFeePerGas;
 
   // Persist sponsorship record
   await query(
@@ -293,54 +465,94 @@ export async function sponsorUserOp(
     [
       req.nullifierHash,
       req.sender,
-      config.contracts.privacyPaymaster,
+      paymasterAddress,
       maxGasCost.toString(),
     ]
   );
 
-  // Submit to bundler
-  let userOpHash: string;
+  // The hash the EntryPoint will emit for this op
+  const userOpHash = getUserOpHash(userOp, config.contracts.entryPoint, config.chainId);
+
+  // Submit to the external bundler, or to the built-in mempool
   try {
-    userOpHash = await sendToBundler(userOp);
-  } catch (err) {
-    // If no bundler, compute hash locally for tracking
-    if (!config.bundlerUrl) {
-      userOpHash = ethers.keccak256(
-        ethers.AbiCoder.defaultAbiCoder().encode(
-          ["address", "uint256", "bytes", "bytes"],
-          [userOp.sender, userOp.nonce, userOp.initCode, userOp.callData]
-        )
-      );
-      console.warn(
-        "[Bundler] No bundler URL configured, UserOp not submitted. Hash computed locally."
-      );
-    } else {
+    if (config.bundlerMode === "builtin") {
+      // Record the hash first so the bundler can settle the sponsorship
       await query(
-        `UPDATE sponsorships SET status = 'failed', error_message = $1
-         WHERE nullifier_hash = $2`,
-        [
-          err instanceof Error ? err.message : String(err),
-          req.nullifierHash,
-        ]
+        `UPDATE sponsorships SET user_op_hash = $1 WHERE nullifier_hash = $2`,
+        [userOpHash, req.nullifierHash]
       );
-      throw err;
+      await addUserOp(userOp, paymasterAddress);
+    } else {
+      const bundlerHash = await sendToBundler(userOp);
+      if (bundlerHash?.toLowerCase() !== userOpHash) {
+        console.warn(
+          `[Bundler] Bundler returned userOpHash ${bundlerHash}, expected ${userOpHash}`
+        );
+      }
     }
+  } catch (err) {
+    await query(
+      `UPDATE sponsorships SET status = 'failed', error_message = $1
+       WHERE nullifier_hash = $2`,
+      [
+        err instanceof Error ? err.message : String(err),
+        req.nullifierHash,
+      ]
+    );
+    throw err;
   }
 
   // Update sponsorship with UserOp hash
   await query(
     `UPDATE sponsorships SET user_op_hash = $1, status = 'submitted'
-     WHERE nullifier_hash = $2`,
+     WHERE nullifier_hash = $2 AND status = 'pending'`,
     [userOpHash, req.nullifierHash]
   );
 
   return {
     userOpHash,
-    paymasterAndData,
+    paymasterAndData: userOp.paymasterAndData,
     preVerificationGas: userOp.preVerificationGas,
-    verificationGasLimit: ethers.toBeHex(verificationGasLimit),
-    callGasLimit: ethers.toBeHex(callGasLimit),
-    maxFeePerGas: ethers.toBeHex(maxFeePerGas),
-    maxPriorityFeePerGas: ethers.toBeHex(maxPriorityFeePerGas),
+    verificationGasLimit: ethers.toBeHex(limits.verificationGasLimit),
+    callGasLimit: ethers.toBeHex(limits.callGasLimit),
+    paymasterVerificationGasLimit: ethers.toBeHex(limits.paymasterVerificationGasLimit),
+    paymasterPostOpGasLimit: ethers.toBeHex(limits.paymasterPostOpGasLimit),
+    maxFeePerGas: ethers.toBeHex(fees.maxFeePerGas),
+    maxPriorityFeePerGas: ethers.toBeHex(fees.maxPriorityFeePerGas),
+  };
+}
+
+/**
+ * Get the status of a sponsorship by UserOperation hash.
+ */
+export async function getSponsorshipStatus(
+  userOpHash: string
+): Promise<SponsorshipStatus | null> {
+  const result = await query<{
+    user_op_hash: string;
+    status: string;
+    tx_hash: string | null;
+    block_number: string | null;
+    max_gas_cost: string;
+    actual_gas_cost: string | null;
+    error_message: string | null;
+  }>(
+    `SELECT user_op_hash, status, tx_hash, block_number, max_gas_cost, actual_gas_cost, error_message
+     FROM sponsorships
+     WHERE user_op_hash = $1`,
+    [userOpHash.toLowerCase()]
+  );
+
+  if (result.rows.length === 0) return null;
+
+  const row = result.rows[0];
+  return {
+    userOpHash: row.user_op_hash,
+    status: row.status,
+    txHash: row.tx_hash,
+    blockNumber: row.block_number ? parseInt(row.block_number, 10) : null,
+    maxGasCost: row.max_gas_cost,
+    actualGasCost: row.actual_gas_cost,
+    error: row.error_message,
   };
 }
@@ -0,0 +1,141 @@
+import { PoolClient } from "pg";
+import { config } from "../config";
+import { ADVISORY_LOCKS, getPool } from "../db";
+
+/**
+ * Leader election between relayer replicas. The leader holds a session
+ * advisory lock on a dedicated connection and runs the singleton workers
+ * (deposit indexing, ASP publishing, re-screening); if that connection is
+ * lost the workers stop and another replica takes over on its next attempt.
+ */
+
+let leaderClient: PoolClient | null = null;
+
+/**
+ * Whether this replica currently holds the leader lock.
+ */
+export function isLeader(): boolean {
+  return leaderClient !== null;
+}
+
+async function tryAcquire(): Promise<boolean> {
+  const client = await getPool().connect();
+  try {
+    const result = await client.query<{ acquired: boolean }>(
+      "SELECT pg_try_advisory_lock($1) AS acquired",
+      [ADVISORY_LOCKS.leader]
+    );
+    if (result.rows[0].acquired) {
+      leaderClient = client;
+      return true;
+    }
+  } catch (err) {
+    client.release(err instanceof Error ? err : true);
+    throw err;
+  }
+  client.release();
+  return false;
+}
+
+async function stillLeader(): Promise<boolean> {
+  if (!leaderClient) return false;
+  try {
+    await leaderClient.query("SELECT 1");
+    return true;
+  } catch (err) {
+    console.error(
+      "[Leader] Lost the leader connection:",
+      err instanceof Error ? err.message : err
+    );
+    // Discard the connection; the server drops its locks with it
+    leaderClient.release(true);
+    leaderClient = null;
+    return false;
+  }
+}
+
+/**
+ * Release the leader lock so another replica can take over.
+ */
+function resign(): void {
+  if (!leaderClient) return;
+  const client = leaderClient;
+  leaderClient = null;
+  client
+    .query("SELECT pg_advisory_unlock($1)", [ADVISORY_LOCKS.leader])
+    .catch(() => undefined)
+    .finally(() => client.release());
+}
+
+/**
+ * Campaign for leadership every LEADER_ELECTION_INTERVAL_MS, running
+ * `start` (which returns the workers' stop functions) while elected.
+ */
+export async function startLeaderElection(
+  start: () => Promise<Array<() => void>>
+): Promise<() => void> {
+  let stopWorkers: Array<() => void> = [];
+  let campaigning = false;
+
+  const demote = () => {
+    for (const stop of stopWorkers) stop();
+    stopWorkers = [];
+  };
+
+  async function tick(): Promise<void> {
+    if (campaigning) return;
+    campaigning = true;
+    try {
+      if (isLeader()) {
+        if (!(await stillLeader())) {
+          console.warn("[Leader] Stepping down, stopping singleton workers");
+          demote();
+        }
+        return;
+      }
+
+      if (await tryAcquire()) {
+        console.log("[Leader] Elected leader, starting singleton workers");
+        try {
+          stopWorkers = await start();
+        } catch (err) {
+          // Hand leadership to a replica that can run the workers
+          resign();
+          throw err;
+        }
+      }
+    } catch (err) {
+      console.error(
+        "[Leader] Election attempt failed:",
+        err instanceof Error ? err.message : err
+      );
+    } finally {
+      campaigning = false;
+    }
+  }
+
+  console.log(
+    `[Leader] Campaigning for leadership (interval: ${config.leaderElectionIntervalMs}ms)`
+  );
+
+  await tick();
+  if (!isLeader()) {
+    console.log("[Leader] Another replica is leader, running as follower");
+  }
+
+  const intervalHandle = setInterval(() => {
+    tick().catch((err) => {
+      console.error(
+        "[Leader] Unexpected error:",
+        err instanceof Error ? err.message : err
+      );
+    });
+  }, config.leaderElectionIntervalMs);
+
+  return () => {
+    console.log("[Leader] Stopping...");
+    clearInterval(intervalHandle);
+    demote();
+    resign();
+  };
+}
@@ -0,0 +1,410 @@
+import { getUserOpHash } from "@privacy-paymaster/sdk";
+import { ethers } from "ethers";
+import { config } from "../config";
+import { query } from "../db";
+import { findRevertData } from "../lib/revertReasons";
+import { classifySimulation, simulateValidationCall } from "../lib/userOpSimulation";
+import { getTransactionStatus, sendTransaction, waitForTransaction } from "./txManager.service";
+import type { PackedUserOperation } from "./bundler.service";
+
+/**
+ * In-process ERC-4337 bundler (BUNDLER_MODE=builtin).
+ * Sponsored UserOperations are simulated against the EntryPoint and held
+ * in the user_operations mempool; the bundler worker claims pending ops,
+ * re-simulates them, submits them in one handleOps call with the relayer
+ * wallet as beneficiary and records each op's inclusion from the
+ * UserOperationEvent logs.
+ */
+
+const USER_OP_TUPLE =
+  "tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)";
+
+const ENTRY_POINT_ABI = [
+  `function handleOps(${USER_OP_TUPLE}[] ops, address payable beneficiary) external`,
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+  "event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)",
+];
+
+// Per-bundle gas on top of the ops' own limits (handleOps loop, calldata)
+const BUNDLE_GAS_OVERHEAD = 100000n;
+
+// A claim that never produced a bundle transaction is released after this
+const BUNDLE_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+const entryPointInterface = new ethers.Interface(ENTRY_POINT_ABI);
+
+// Bundle transactions this process is waiting on
+const settling = new Set<string>();
+
+export interface MempoolEntry {
+  userOpHash: string;
+  sender: string;
+  nonce: string;
+  userOp: PackedUserOperation;
+  paymaster: string;
+}
+
+export interface BundleResult {
+  /** Null if no claimed op could be bundled */
+  txHash: string | null;
+  included: number;
+  failed: number;
+}
+
+function getProvider(): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(config.rpcUrl);
+}
+
+function beneficiary(): string {
+  return new ethers.Wallet(config.privateKey).address;
+}
+
+/**
+ * Gas an op may use in a bundle: pre-verification, account and paymaster
+ * verification, call and postOp limits.
+ */
+export function userOpGas(userOp: PackedUserOperation): bigint {
+  const low128 = (1n << 128n) - 1n;
+  const accountGasLimits = BigInt(userOp.accountGasLimits);
+  let paymasterGas = 0n;
+  if (ethers.dataLength(userOp.paymasterAndData) >= 52) {
+    const packed = BigInt(ethers.dataSlice(userOp.paymasterAndData, 20, 52));
+    paymasterGas = (packed >> 128n) + (packed & low128);
+  }
+  return (
+    BigInt(userOp.preVerificationGas) +
+    (accountGasLimits >> 128n) +
+    (accountGasLimits & low128) +
+    paymasterGas
+  );
+}
+
+/**
+ * Simulate a UserOperation's validation against the EntryPoint with
+ * simulateValidation (see lib/userOpSimulation). Throws "Invalid
+ * UserOperation: <reason>" if PrivacyPaymaster rejects the sponsorship.
+ * Sponsorship requests pass allowPendingSignature, as the account signs
+ * the relayer's gas and fees afterwards: a failed account signature is
+ * accepted and any other failure throws "UserOperation simulation failed:
+ * <reason>". Without it every failure is "Invalid UserOperation". RPC
+ * failures are rethrown as they are.
+ */
+export async function simulateUserOp(
+  userOp: PackedUserOperation,
+  options: { allowPendingSignature?: boolean } = {}
+): Promise<void> {
+  let result: { returnData: string } | { revertData: string };
+  try {
+    const returnData: string = await getProvider().send(
+      "eth_call",
+      simulateValidationCall(config.contracts.entryPoint, userOp)
+    );
+    result = { returnData };
+  } catch (err) {
+    const revertData = findRevertData(err);
+    if (!revertData) throw err;
+    result = { revertData };
+  }
+
+  const outcome = classifySimulation(result, Math.floor(Date.now() / 1000));
+  if (outcome.status === "valid") return;
+  if (options.allowPendingSignature && outcome.status === "signaturePending") return;
+  if (options.allowPendingSignature && outcome.status === "failed") {
+    throw new Error(`UserOperation simulation failed: ${outcome.reason}`);
+  }
+  throw new Error(`Invalid UserOperation: ${outcome.reason}`);
+}
+
+/**
+ * Add a UserOperation that passed simulateUserOp to the mempool. Returns
+ * its hash. Throws "Invalid UserOperation: ..." if an op with the same
+ * sender and nonce is already waiting.
+ */
+export async function addUserOp(userOp: PackedUserOperation, paymaster: string): Promise<string> {
+  const userOpHash = getUserOpHash(userOp, config.contracts.entryPoint, config.chainId);
+
+  const inserted = await query(
+    `INSERT INTO user_operations (user_op_hash, sender, nonce, user_op, paymaster_address)
+     SELECT $1, $2, $3, $4, $5
+     WHERE NOT EXISTS (
+       SELECT 1 FROM user_operations
+       WHERE sender = $2 AND nonce = $3 AND status IN ('pending', 'bundling', 'submitted')
+     )
+     ON CONFLICT (user_op_hash) DO NOTHING
+     RETURNING user_op_hash`,
+    [
+      userOpHash,
+      userOp.sender.toLowerCase(),
+      BigInt(userOp.nonce).toString(),
+      JSON.stringify(userOp),
+      paymaster.toLowerCase(),
+    ]
+  );
+  if (inserted.rows.length === 0) {
+    throw new Error("Invalid UserOperation: sender already has an op with this nonce in the mempool");
+  }
+
+  console.log(`[Bundler] UserOp ${userOpHash.slice(0, 10)}... added to mempool`);
+  return userOpHash;
+}
+
+/**
+ * Claim up to `limit` pending ops, oldest first, at most one per sender.
+ * A sender's later nonces wait until its op in flight is settled; rows
+ * claimed by another replica are skipped.
+ */
+async function claimPendingUserOps(limit: number): Promise<MempoolEntry[]> {
+  const result = await query<{
+    user_op_hash: string;
+    sender: string;
+    nonce: string;
+    user_op: PackedUserOperation;
+    paymaster_address: string;
+  }>(
+    `UPDATE user_operations
+     SET status = 'bundling'
+     WHERE user_op_hash IN (
+       SELECT user_op_hash FROM (
+         SELECT DISTINCT ON (sender) user_op_hash, created_at FROM (
+           SELECT user_op_hash, sender, nonce, created_at FROM user_operations
+           WHERE (status = 'pending'
+              OR (status = 'bundling' AND updated_at < NOW() - make_interval(secs => $2::double precision / 1000)))
+             AND sender NOT IN (
+               SELECT sender FROM user_operations
+               WHERE status = 'submitted'
+                  OR (status = 'bundling' AND updated_at >= NOW() - make_interval(secs => $2::double precision / 1000))
+             )
+           FOR UPDATE SKIP LOCKED
+         ) claimable
+         ORDER BY sender, nonce::numeric ASC, created_at ASC
+       ) next_per_sender
+       ORDER BY created_at ASC
+       LIMIT $1
+     )
+     RETURNING user_op_hash, sender, nonce, user_op, paymaster_address`,
+    [limit, BUNDLE_CLAIM_TIMEOUT_MS]
+  );
+
+  return result.rows.map((row) => ({
+    userOpHash: row.user_op_hash,
+    sender: row.sender,
+    nonce: row.nonce,
+    userOp: row.user_op,
+    paymaster: row.paymaster_address,
+  }));
+}
+
+async function failUserOp(userOpHash: string, reason: string): Promise<void> {
+  await query(
+    `UPDATE user_operations SET status = 'failed', error_message = $1 WHERE user_op_hash = $2`,
+    [reason, userOpHash]
+  );
+  await query(
+    `UPDATE sponsorships SET status = 'failed', error_message = $1
+     WHERE user_op_hash = $2`,
+    [reason, userOpHash]
+  );
+}
+
+/**
+ * Record the outcome of every op of a mined bundle from its
+ * UserOperationEvent (and UserOperationRevertReason) logs.
+ */
+async function recordInclusion(
+  bundleTxId: string,
+  receipt: ethers.TransactionReceipt
+): Promise<{ included: number; failed: number }> {
+  const revertReasons = new Map<string, string>();
+  const events: ethers.LogDescription[] = [];
+  for (const log of receipt.logs) {
+    if (log.address.toLowerCase() !== config.contracts.entryPoint.toLowerCase()) continue;
+    const parsed = entryPointInterface.parseLog(log);
+    if (parsed?.name === "UserOperationEvent") events.push(parsed);
+    if (parsed?.name === "UserOperationRevertReason") {
+      revertReasons.set(parsed.args.userOpHash.toLowerCase(), parsed.args.revertReason);
+    }
+  }
+
+  let included = 0;
+  let failed = 0;
+  for (const event of events) {
+    const userOpHash: string = event.args.userOpHash.toLowerCase();
+    const success: boolean = event.args.success;
+    const error = success
+      ? null
+      : `Execution reverted: ${revertReasons.get(userOpHash) ?? "no reason"}`;
+
+    await query(
+      `UPDATE user_operations
+       SET status = 'included', success = $1, tx_hash = $2, block_number = $3,
+           actual_gas_cost = $4, actual_gas_used = $5, error_message = $6
+       WHERE user_op_hash = $7`,
+      [
+        success,
+        receipt.hash,
+        receipt.blockNumber,
+        event.args.actualGasCost.toString(),
+        event.args.actualGasUsed.toString(),
+        error,
+        userOpHash,
+      ]
+    );
+    await query(
+      `UPDATE sponsorships
+       SET status = $1, actual_gas_cost = $2, tx_hash = $3, block_number = $4,
+           error_message = $5
+       WHERE user_op_hash = $6`,
+      [
+        success ? "confirmed" : "failed",
+        event.args.actualGasCost.toString(),
+        receipt.hash,
+        receipt.blockNumber,
+        error,
+        userOpHash,
+      ]
+    );
+    if (success) included++;
+    else failed++;
+  }
+
+  // Ops the EntryPoint skipped emit no event; they cannot have been included
+  const missing = await query<{ user_op_hash: string }>(
+    "SELECT user_op_hash FROM user_operations WHERE bundle_tx_id = $1 AND status = 'submitted'",
+    [bundleTxId]
+  );
+  for (const row of missing.rows) {
+    await failUserOp(row.user_op_hash, "Not included in bundle");
+    failed++;
+  }
+
+  return { included, failed };
+}
+
+async function waitForBundle(bundleTxId: string): Promise<ethers.TransactionReceipt> {
+  try {
+    return await waitForTransaction(bundleTxId);
+  } catch (err) {
+    // A DB or RPC error leaves the bundle in flight; only a reverted or
+    // dropped bundle releases its ops
+    const status = await getTransactionStatus(bundleTxId);
+    if (status === "reverted" || status === "dropped") {
+      await query(
+        `UPDATE user_operations SET status = 'pending', bundle_tx_id = NULL, tx_hash = NULL
+         WHERE bundle_tx_id = $1 AND status = 'submitted'`,
+        [bundleTxId]
+      );
+    }
+    throw err;
+  }
+}
+
+/**
+ * Wait for a bundle transaction and record its ops' outcomes. If the
+ * bundle reverted, its ops return to the mempool to be re-simulated.
+ */
+export async function settleBundle(bundleTxId: string): Promise<{ included: number; failed: number }> {
+  settling.add(bundleTxId);
+  try {
+    return await recordInclusion(bundleTxId, await waitForBundle(bundleTxId));
+  } finally {
+    settling.delete(bundleTxId);
+  }
+}
+
+/**
+ * Build and submit one bundle from the mempool, then wait for it. Returns
+ * null if there was nothing to bundle.
+ */
+export async function bundlePendingUserOps(): Promise<BundleResult | null> {
+  const claimed = await claimPendingUserOps(config.bundleMaxOps);
+  if (claimed.length === 0) return null;
+
+  // Re-simulate: state may have changed since the op was accepted
+  const bundle: MempoolEntry[] = [];
+  let dropped = 0;
+  let gasLimit = BUNDLE_GAS_OVERHEAD;
+  for (const entry of claimed) {
+    const gas = userOpGas(entry.userOp);
+    if (bundle.length > 0 && gasLimit + gas > BigInt(config.bundleMaxGas)) {
+      // Over the bundle gas budget: leave it for the next bundle
+      await query("UPDATE user_operations SET status = 'pending' WHERE user_op_hash = $1", [
+        entry.userOpHash,
+      ]);
+      continue;
+    }
+    try {
+      await simulateUserOp(entry.userOp);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      if (!reason.startsWith("Invalid UserOperation")) {
+        // Could not simulate (RPC error): retry in a later bundle
+        await query("UPDATE user_operations SET status = 'pending' WHERE user_op_hash = $1", [
+          entry.userOpHash,
+        ]);
+        continue;
+      }
+      await failUserOp(entry.userOpHash, reason);
+      console.warn(`[Bundler] Dropped ${entry.userOpHash.slice(0, 10)}...: ${reason}`);
+      dropped++;
+      continue;
+    }
+    bundle.push(entry);
+    gasLimit += gas;
+  }
+  if (bundle.length === 0) return { txHash: null, included: 0, failed: dropped };
+
+  const hashes = bundle.map((entry) => entry.userOpHash);
+  let tx;
+  try {
+    tx = await sendTransaction({
+      to: config.contracts.entryPoint,
+      data: entryPointInterface.encodeFunctionData("handleOps", [
+        bundle.map((entry) => entry.userOp),
+        beneficiary(),
+      ]),
+      gasLimit,
+      purpose: "bundle",
+      reference: hashes[0],
+    });
+  } catch (err) {
+    await query(
+      "UPDATE user_operations SET status = 'pending' WHERE user_op_hash = ANY($1)",
+      [hashes]
+    );
+    throw err;
+  }
+
+  await query(
+    `UPDATE user_operations SET status = 'submitted', bundle_tx_id = $1, tx_hash = $2
+     WHERE user_op_hash = ANY($3)`,
+    [tx.id, tx.hash, hashes]
+  );
+  console.log(`[Bundler] Submitted bundle of ${bundle.length} op(s), tx: ${tx.hash}`);
+
+  const { included, failed } = await settleBundle(tx.id);
+  return { txHash: tx.hash, included, failed: failed + dropped };
+}
+
+/**
+ * Settle bundles sent before a restart (or by a replica that went away)
+ * whose ops are still marked submitted. Returns how many were picked up.
+ */
+export async function resumeSubmittedBundles(): Promise<number> {
+  const result = await query<{ bundle_tx_id: string }>(
+    `SELECT DISTINCT bundle_tx_id FROM user_operations
+     WHERE status = 'submitted' AND bundle_tx_id IS NOT NULL`
+  );
+
+  let resumed = 0;
+  for (const { bundle_tx_id: bundleTxId } of result.rows) {
+    if (settling.has(bundleTxId)) continue;
+    resumed++;
+    settleBundle(bundleTxId).catch((err) =>
+      console.error(
+        `[Bundler] Bundle ${bundleTxId} failed:`,
+        err instanceof Error ? err.message : err
+      )
+    );
+  }
+  return resumed;
+}
@@ -0,0 +1,210 @@
+import { ethers } from "ethers";
+import { config } from "../config";
+import { query } from "../db";
+import { PoolMerkleTree } from "../lib/merkleTree";
+import { initPoseidon } from "../lib/poseidon";
+import { getPools } from "./poolRegistry.service";
+
+const PRIVACY_POOL_ABI = [
+  "function isKnownRoot(bytes32 root) view returns (bool)",
+];
+
+// MerkleTreeWithHistory.TREE_DEPTH
+const POOL_TREE_DEPTH = 20;
+
+interface PoolTreeState {
+  tree: PoolMerkleTree;
+  // False once a Deposit event arrived out of order (missed leaf); proofs
+  // from an out-of-sync tree would not verify on-chain.
+  inSync: boolean;
+}
+
+// Pool trees keyed by lowercase pool address
+const poolTrees = new Map<string, PoolTreeState>();
+
+function getPoolTreeState(poolAddress: string): PoolTreeState {
+  const key = poolAddress.toLowerCase();
+  let state = poolTrees.get(key);
+  if (!state) {
+    state = { tree: new PoolMerkleTree(POOL_TREE_DEPTH), inSync: true };
+    poolTrees.set(key, state);
+  }
+  return state;
+}
+
+/**
+ * Append a pool Deposit to that pool's tree. Leaves must arrive in leaf
+ * index order, exactly as MerkleTreeWithHistory inserted them; a gap marks
+ * the tree out of sync until the relayer is restarted or reindexed.
+ */
+export function recordPoolDeposit(
+  poolAddress: string,
+  commitment: string,
+  leafIndex: number
+): void {
+  const state = getPoolTreeState(poolAddress);
+  const expected = state.tree.leafCount;
+
+  if (leafIndex < expected) {
+    // Already indexed (historical resync overlapping live events)
+    return;
+  }
+
+  if (leafIndex > expected || !state.inSync) {
+    if (state.inSync) {
+      console.error(
+        `[Pool] ${poolAddress.slice(0, 10)}... missed leaves ${expected}..${leafIndex - 1}, pool tree out of sync`
+      );
+    }
+    state.inSync = false;
+    return;
+  }
+
+  state.tree.insert(commitment);
+}
+
+/**
+ * Whether the pool's tree has every leaf so far and can serve proofs.
+ */
+export function isPoolTreeInSync(poolAddress: string): boolean {
+  const state = poolTrees.get(poolAddress.toLowerCase());
+  return state !== undefined && state.inSync;
+}
+
+/**
+ * Get a Merkle proof for a pool leaf. Without `root`, the proof is against
+ * the latest root; otherwise against any root still in the pool's on-chain
+ * root history. Returns null if the root is unknown or does not include
+ * the leaf yet.
+ */
+export function getPoolProof(
+  poolAddress: string,
+  leafIndex: number,
+  root?: string
+): { root: string; pathElements: string[]; pathIndices: number[] } | null {
+  const state = poolTrees.get(poolAddress.toLowerCase());
+  if (!state || !state.inSync) return null;
+
+  const entry = root ? state.tree.findRoot(root) : state.tree.knownRoots[0];
+  if (!entry) return null;
+
+  const proof = state.tree.getProof(leafIndex, entry.leafCount);
+  if (!proof) return null;
+
+  return { root: entry.root, ...proof };
+}
+
+/**
+ * Rebuild one pool's tree from its indexed deposits, e.g. after deposits
+ * were rolled back by a reorg. With `upToBlock`, only deposits at or below
+ * that block are replayed (the starting point of a reindex).
+ */
+export async function rebuildPoolTree(poolAddress: string, upToBlock?: number): Promise<void> {
+  await initPoseidon();
+  poolTrees.delete(poolAddress.toLowerCase());
+
+  const result = await query<{ commitment: string; leaf_index: number }>(
+    `SELECT commitment, leaf_index FROM deposits
+     WHERE pool_address = $1 AND ($2::bigint IS NULL OR block_number <= $2)
+     ORDER BY leaf_index ASC`,
+    [poolAddress.toLowerCase(), upToBlock ?? null]
+  );
+
+  const state = getPoolTreeState(poolAddress);
+  for (const row of result.rows) {
+    recordPoolDeposit(poolAddress, row.commitment, row.leaf_index);
+  }
+  console.log(
+    `[Pool] Rebuilt tree for ${poolAddress.slice(0, 10)}...: ${state.tree.leafCount} leaves`
+  );
+}
+
+/**
+ * Rebuild the tree of every registered pool from indexed deposits on
+ * startup, then compare each root with the pool contract's root history.
+ */
+export async function rebuildPoolTreesFromDB(): Promise<void> {
+  await initPoseidon();
+  poolTrees.clear();
+
+  const poolAddresses = getPools().map((p) => p.address);
+  const result = await query<{ pool_address: string; commitment: string; leaf_index: number }>(
+    `SELECT pool_address, commitment, leaf_index FROM deposits
+     WHERE pool_address = ANY($1)
+     ORDER BY pool_address ASC, leaf_index ASC`,
+    [poolAddresses]
+  );
+
+  for (const poolAddress of poolAddresses) {
+    getPoolTreeState(poolAddress);
+  }
+  for (const row of result.rows) {
+    recordPoolDeposit(row.pool_address, row.commitment, row.leaf_index);
+  }
+
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  for (const [poolAddress, state] of poolTrees) {
+    if (state.tree.leafCount === 0) continue;
+    try {
+      const pool = new ethers.Contract(poolAddress, PRIVACY_POOL_ABI, provider);
+      const known: boolean = await pool.isKnownRoot(state.tree.root);
+      if (!known) {
+        console.warn(
+          `[Pool] ${poolAddress.slice(0, 10)}... local root not in on-chain history (catching up on deposits?)`
+        );
+      }
+    } catch (err) {
+      console.error(
+        `[Pool] Failed to check root for ${poolAddress.slice(0, 10)}...:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+    console.log(
+      `[Pool] Rebuilt tree for ${poolAddress.slice(0, 10)}...: ${state.tree.leafCount} leaves, root: ${state.tree.root.slice(0, 10)}...`
+    );
+  }
+}
+
+// Fingerprint of each pool's deposit rows when refreshPoolTrees last rebuilt its tree
+const refreshedDepositFingerprints = new Map<string, string>();
+
+/**
+ * Rebuild the trees of pools whose indexed deposits changed, for replicas
+ * that serve proofs while another replica runs the deposit watcher. A pool
+ * counts as changed when its deposit count, highest leaf index or the
+ * commitment at that index differs, so a reorg or reindex that replaces
+ * rows without changing their number is picked up too. Returns the number
+ * of trees rebuilt.
+ */
+export async function refreshPoolTrees(): Promise<number> {
+  const poolAddresses = getPools().map((p) => p.address);
+  const result = await query<{
+    pool_address: string;
+    count: string;
+    leaf_index: number;
+    commitment: string;
+  }>(
+    `SELECT DISTINCT ON (pool_address)
+       pool_address, COUNT(*) OVER (PARTITION BY pool_address) AS count, leaf_index, commitment
+     FROM deposits
+     WHERE pool_address = ANY($1)
+     ORDER BY pool_address, leaf_index DESC`,
+    [poolAddresses]
+  );
+  const fingerprints = new Map(
+    result.rows.map((row) => [
+      row.pool_address,
+      `${row.count}:${row.leaf_index}:${row.commitment}`,
+    ])
+  );
+
+  let rebuilt = 0;
+  for (const poolAddress of poolAddresses) {
+    const fingerprint = fingerprints.get(poolAddress) ?? "0";
+    if (refreshedDepositFingerprints.get(poolAddress) === fingerprint) continue;
+    await rebuildPoolTree(poolAddress);
+    refreshedDepositFingerprints.set(poolAddress, fingerprint);
+    rebuilt++;
+  }
+  return rebuilt;
+}
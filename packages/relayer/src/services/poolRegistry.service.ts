@@ -0,0 +1,174 @@
+import { ethers } from "ethers";
+import * as fs from "fs";
+import { config } from "../config";
+import { query } from "../db";
+
+/**
+ * Registry of the privacy pools the relayer serves. Loaded once at startup
+ * from POOL_REGISTRY_PATH (see pools.example.json) or, without a file, from
+ * the pools table.
+ */
+
+export interface PoolInfo {
+  /** Lowercased pool address */
+  address: string;
+  /** Lowercased ERC-20 address, null for native BNB */
+  token: string | null;
+  symbol: string;
+  /** Deposit amount in the token's smallest unit */
+  denomination: bigint;
+  decimals: number;
+  /** Block the pool was deployed at; deposit scans start here */
+  deployBlock: number;
+  /** PrivacyPaymaster linked to this pool, if any */
+  paymaster: string | null;
+}
+
+// Entry in the registry file; amounts are strings to keep uint256 precision
+interface PoolFileEntry {
+  address: string;
+  token?: string | null;
+  symbol: string;
+  denomination: string;
+  decimals?: number;
+  deployBlock?: number;
+  paymaster?: string | null;
+}
+
+let pools: PoolInfo[] | null = null;
+
+function optionalAddress(value: string | null | undefined, field: string, pool: string): string | null {
+  if (!value) return null;
+  if (!ethers.isAddress(value)) {
+    throw new Error(`Invalid ${field} for pool ${pool}: ${value}`);
+  }
+  return value.toLowerCase();
+}
+
+function toPoolInfo(entry: PoolFileEntry): PoolInfo {
+  if (!ethers.isAddress(entry.address)) {
+    throw new Error(`Invalid pool address: ${entry.address}`);
+  }
+  if (!/^\d+$/.test(String(entry.denomination))) {
+    throw new Error(`Invalid denomination for pool ${entry.address}: ${entry.denomination}`);
+  }
+
+  return {
+    address: entry.address.toLowerCase(),
+    token: optionalAddress(entry.token, "token", entry.address),
+    symbol: entry.symbol,
+    denomination: BigInt(entry.denomination),
+    decimals: entry.decimals ?? 18,
+    deployBlock: entry.deployBlock ?? 0,
+    paymaster: optionalAddress(entry.paymaster, "paymaster", entry.address),
+  };
+}
+
+async function loadPoolsFromDB(): Promise<PoolInfo[]> {
+  const result = await query<{
+    address: string;
+    token: string | null;
+    symbol: string;
+    denomination: string;
+    decimals: number;
+    deploy_block: string;
+    paymaster_address: string | null;
+  }>(
+    `SELECT address, token, symbol, denomination, decimals, deploy_block, paymaster_address
+     FROM pools WHERE active
+     ORDER BY symbol ASC, denomination::numeric ASC`
+  );
+
+  return result.rows.map((row) =>
+    toPoolInfo({
+      address: row.address,
+      token: row.token,
+      symbol: row.symbol,
+      denomination: row.denomination,
+      decimals: row.decimals,
+      deployBlock: parseInt(row.deploy_block, 10),
+      paymaster: row.paymaster_address,
+    })
+  );
+}
+
+/**
+ * Load the pool registry. Throws if no pool is configured.
+ */
+export async function loadPoolRegistry(): Promise<PoolInfo[]> {
+  let loaded: PoolInfo[];
+  if (config.poolRegistryPath) {
+    const file = JSON.parse(fs.readFileSync(config.poolRegistryPath, "utf-8"));
+    const entries: PoolFileEntry[] = Array.isArray(file) ? file : file.pools ?? [];
+    loaded = entries.map(toPoolInfo);
+  } else {
+    loaded = await loadPoolsFromDB();
+  }
+
+  if (loaded.length === 0) {
+    throw new Error(
+      "No pools configured: set POOL_REGISTRY_PATH or add rows to the pools table"
+    );
+  }
+
+  const seen = new Set<string>();
+  for (const pool of loaded) {
+    if (seen.has(pool.address)) {
+      throw new Error(`Duplicate pool in registry: ${pool.address}`);
+    }
+    seen.add(pool.address);
+  }
+
+  pools = loaded;
+  console.log(
+    `[Pools] Loaded ${loaded.length} pool(s) from ${config.poolRegistryPath || "the pools table"}: ` +
+    loaded.map((p) => `${ethers.formatUnits(p.denomination, p.decimals)} ${p.symbol}`).join(", ")
+  );
+  return loaded;
+}
+
+/**
+ * Every registered pool. Throws if the registry has not been loaded.
+ */
+export function getPools(): PoolInfo[] {
+  if (!pools) {
+    throw new Error("Pool registry not loaded");
+  }
+  return pools;
+}
+
+/**
+ * Look up a registered pool by address.
+ */
+export function getPool(address: string): PoolInfo | null {
+  const normalized = address.toLowerCase();
+  return getPools().find((p) => p.address === normalized) ?? null;
+}
+
+/**
+ * Lowercased addresses of the PrivacyPaymasters the relayer sponsors
+ * through: the default one (if configured) and every pool's linked
+ * paymaster.
+ */
+export function getPaymasters(): string[] {
+  const paymasters = new Set<string>();
+  const candidates = [config.contracts.privacyPaymaster, ...getPools().map((p) => p.paymaster)];
+  for (const address of candidates) {
+    if (address && address !== ethers.ZeroAddress) paymasters.add(address.toLowerCase());
+  }
+  return [...paymasters];
+}
+
+/**
+ * Pools of a token and denomination. `token` is a symbol ("BNB") or an
+ * ERC-20 address.
+ */
+export function findPools(token: string, denomination: bigint): PoolInfo[] {
+  const byAddress = ethers.isAddress(token);
+  const normalized = token.toLowerCase();
+  return getPools().filter(
+    (p) =>
+      p.denomination === denomination &&
+      (byAddress ? p.token === normalized : p.symbol.toLowerCase() === normalized)
+  );
+}
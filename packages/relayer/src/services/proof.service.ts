@@ -0,0 +1,120 @@
+import { ethers } from "ethers";
+import * as fs from "fs";
+import * as snarkjs from "snarkjs";
+import { config } from "../config";
+import {
+  decodeContractProof,
+  MembershipPublicInputs,
+  membershipPublicSignals,
+  WithdrawPublicInputs,
+  withdrawPublicSignals,
+} from "../lib/groth16";
+
+/**
+ * Off-chain checks of withdrawal and sponsorship proofs, so requests that
+ * would revert on-chain are rejected before the relayer spends gas on them.
+ */
+
+const PRIVACY_POOL_ABI = [
+  "function isKnownRoot(bytes32 root) view returns (bool)",
+];
+
+const ASP_REGISTRY_ABI = [
+  "function isKnownASPRoot(bytes32 root) view returns (bool)",
+];
+
+type Circuit = "withdraw" | "membership";
+
+let verificationKeys: Record<Circuit, unknown> | null = null;
+
+/**
+ * Load the withdraw and membership verification keys exported by the
+ * circuits build. Throws if either is missing.
+ */
+export function loadVerificationKeys(): void {
+  const read = (circuit: Circuit, path: string): unknown => {
+    if (!fs.existsSync(path)) {
+      throw new Error(
+        `${circuit} verification key not found at ${path} (build packages/circuits or set ${circuit.toUpperCase()}_VKEY_PATH)`
+      );
+    }
+    return JSON.parse(fs.readFileSync(path, "utf-8"));
+  };
+
+  verificationKeys = {
+    withdraw: read("withdraw", config.withdrawVkeyPath),
+    membership: read("membership", config.membershipVkeyPath),
+  };
+  console.log("[Proof] Loaded withdraw and membership verification keys");
+}
+
+async function verify(circuit: Circuit, proofHex: string, publicSignals: string[]): Promise<void> {
+  if (!verificationKeys) {
+    throw new Error("Verification keys not loaded");
+  }
+
+  const proof = decodeContractProof(proofHex);
+  const valid = await snarkjs.groth16.verify(verificationKeys[circuit], publicSignals, proof);
+  if (!valid) {
+    throw new Error(`Invalid proof: ${circuit} proof does not verify against its public inputs`);
+  }
+}
+
+/**
+ * Verify a withdraw proof against the 7 public signals rebuilt from the
+ * request. Throws "Invalid proof: ..." if it would fail on-chain.
+ */
+export async function verifyWithdrawProof(
+  proofHex: string,
+  inputs: WithdrawPublicInputs
+): Promise<void> {
+  await verify("withdraw", proofHex, withdrawPublicSignals(inputs));
+}
+
+/**
+ * Verify a sponsorship membership proof against its 3 public signals.
+ */
+export async function verifyMembershipProof(
+  proofHex: string,
+  inputs: MembershipPublicInputs
+): Promise<void> {
+  await verify("membership", proofHex, membershipPublicSignals(inputs));
+}
+
+/**
+ * Check that the pool root is in the pool's on-chain root history and the
+ * ASP root is known to the ASPRegistry, as the contracts do before
+ * verifying. Throws "Invalid ..." if not, "Unable to verify ..." if the
+ * chain could not be queried.
+ */
+export async function assertKnownRoots(
+  poolAddress: string,
+  root: string,
+  aspRoot: string
+): Promise<void> {
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const pool = new ethers.Contract(poolAddress, PRIVACY_POOL_ABI, provider);
+  const registry = new ethers.Contract(config.contracts.aspRegistry, ASP_REGISTRY_ABI, provider);
+
+  let rootKnown: boolean;
+  let aspRootKnown: boolean;
+  try {
+    [rootKnown, aspRootKnown] = await Promise.all([
+      pool.isKnownRoot(root),
+      registry.isKnownASPRoot(aspRoot),
+    ]);
+  } catch (err) {
+    console.error(
+      "[Proof] Failed to check roots on-chain:",
+      err instanceof Error ? err.message : err
+    );
+    throw new Error("Unable to verify merkle roots");
+  }
+
+  if (!rootKnown) {
+    throw new Error("Invalid merkleRoot: not in the pool's root history");
+  }
+  if (!aspRootKnown) {
+    throw new Error("Invalid aspRoot: not a known ASP root");
+  }
+}
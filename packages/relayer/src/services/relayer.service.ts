@@ -1,6 +1,18 @@
+import { randomUUID } from "crypto";
 import { ethers } from "ethers";
 import { config } from "../config";
 import { query } from "../db";
+import { classifyWithdrawError, FailureClass, WithdrawFailure } from "../lib/revertReasons";
+import { getPool, PoolInfo } from "./poolRegistry.service";
+import { assertKnownRoots, verifyWithdrawProof } from "./proof.service";
+import {
+  findTransaction,
+  findTransactionReceipt,
+  getTransactionStatus,
+  ManagedTransaction,
+  sendTransaction,
+  waitForTransaction,
+} from "./txManager.service";
 
 const PRIVACY_POOL_ABI = [
   "function withdraw(bytes calldata _proof, bytes32 _root, bytes32 _nullifierHash, address payable _recipient, address payable _relayer, uint256 _fee, uint256 _refund, bytes32 _aspRoot) external",
@@ -17,8 +29,32 @@ export interface WithdrawRequest {
   refund: string;
   aspRoot: string;
   poolAddress: string;
+  // Relayer address bound into the proof; must be this relayer's wallet
+  relayer: string;
+  // Quote the fee was based on; without one the fee must meet a fresh quote
+  quote?: SignedQuote;
 }
 
+/**
+ * A relayer fee quote for one pool, signed by the relayer wallet so a
+ * client can hold on to it while proving and present it with the
+ * withdrawal.
+ */
+export interface WithdrawQuote {
+  poolAddress: string;
+  relayer: string;
+  /** Minimum fee in the pool's token, wei */
+  fee: string;
+  gasPrice: string;
+  gasLimit: string;
+  feePercent: number;
+  /** Unix seconds after which the quote is no longer honoured */
+  expiresAt: number;
+  signature: string;
+}
+
+export type SignedQuote = Pick<WithdrawQuote, "fee" | "expiresAt" | "signature">;
+
 export interface WithdrawResult {
   id: string;
   nullifierHash: string;
@@ -34,6 +70,101 @@ export interface WithdrawStatus {
   scheduledAt: Date | null;
   submittedAt: Date | null;
   error: string | null;
+  /** Whether the last failure was permanent or will be retried */
+  errorClass: FailureClass | null;
+}
+
+function relayerWallet(): ethers.Wallet {
+  return new ethers.Wallet(config.privateKey);
+}
+
+/**
+ * Digest the relayer signs for a quote (EIP-191 over these bytes).
+ */
+function quoteDigest(poolAddress: string, relayer: string, fee: bigint, expiresAt: number): Uint8Array {
+  return ethers.getBytes(
+    ethers.keccak256(
+      ethers.AbiCoder.defaultAbiCoder().encode(
+        ["uint256", "address", "address", "uint256", "uint64"],
+        [config.chainId, poolAddress, relayer, fee, expiresAt]
+      )
+    )
+  );
+}
+
+/**
+ * Quote the minimum withdrawal fee for a pool: RELAYER_FEE_PERCENT of the
+ * denomination plus, for native BNB pools, the gas cost of withdraw() at
+ * the current gas price. Token pools are quoted at the percentage only, as
+ * the gas is paid in BNB and there is no price to convert it with.
+ */
+export async function getWithdrawQuote(pool: PoolInfo): Promise<WithdrawQuote> {
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const feeData = await provider.getFeeData();
+  const gasPrice = feeData.gasPrice ?? ethers.parseUnits("3", "gwei");
+  const gasLimit = BigInt(config.withdrawGasLimit);
+
+  // Percent as basis points so the math stays in integers
+  const feeBps = BigInt(Math.round(config.relayerFeePercent * 100));
+  const percentFee = (pool.denomination * feeBps) / 10000n;
+  const fee = pool.token === null ? percentFee + gasPrice * gasLimit : percentFee;
+
+  const wallet = relayerWallet();
+  const expiresAt = Math.floor((Date.now() + config.quoteTtlMs) / 1000);
+  const signature = await wallet.signMessage(
+    quoteDigest(pool.address, wallet.address, fee, expiresAt)
+  );
+
+  return {
+    poolAddress: pool.address,
+    relayer: wallet.address,
+    fee: fee.toString(),
+    gasPrice: gasPrice.toString(),
+    gasLimit: gasLimit.toString(),
+    feePercent: config.relayerFeePercent,
+    expiresAt,
+    signature,
+  };
+}
+
+/**
+ * The minimum fee a withdrawal must pay: the presented quote if it is ours
+ * and unexpired, otherwise a fresh quote.
+ */
+async function minimumWithdrawFee(
+  pool: PoolInfo,
+  quote: SignedQuote | undefined
+): Promise<{ fee: bigint; reason?: string }> {
+  if (!quote) {
+    return { fee: BigInt((await getWithdrawQuote(pool)).fee) };
+  }
+
+  if (
+    !/^\d+$/.test(String(quote.fee)) ||
+    !Number.isInteger(quote.expiresAt) ||
+    typeof quote.signature !== "string"
+  ) {
+    return { fee: 0n, reason: "Invalid quote format" };
+  }
+  if (quote.expiresAt * 1000 < Date.now()) {
+    return { fee: 0n, reason: "Invalid quote: expired, request a new one" };
+  }
+
+  const wallet = relayerWallet();
+  let signer: string;
+  try {
+    signer = ethers.verifyMessage(
+      quoteDigest(pool.address, wallet.address, BigInt(quote.fee), quote.expiresAt),
+      quote.signature
+    );
+  } catch {
+    return { fee: 0n, reason: "Invalid quote signature" };
+  }
+  if (signer !== wallet.address) {
+    return { fee: 0n, reason: "Invalid quote signature" };
+  }
+
+  return { fee: BigInt(quote.fee) };
 }
 
 /**
@@ -47,16 +178,59 @@ async function validateWithdrawRequest(
     return { valid: false, reason: "Invalid recipient address" };
   }
 
+  // Only pools in the registry are relayed
+  const pool = req.poolAddress ? getPool(req.poolAddress) : null;
+  if (!pool) {
+    return { valid: false, reason: "Invalid poolAddress: not a registered pool" };
+  }
+
+  // The fee is paid out of the withdrawn note
+  if (!/^\d+$/.test(String(req.fee)) || BigInt(req.fee) > pool.denomination) {
+    return { valid: false, reason: "Invalid fee: must not exceed the pool denomination" };
+  }
+
+  // The proof binds the relayer; withdraw() from our wallet would revert otherwise
+  if (
+    !req.relayer ||
+    !ethers.isAddress(req.relayer) ||
+    req.relayer.toLowerCase() !== relayerWallet().address.toLowerCase()
+  ) {
+    return { valid: false, reason: "Invalid relayer: proof must name this relayer's address" };
+  }
+
+  const minimum = await minimumWithdrawFee(pool, req.quote);
+  if (minimum.reason) {
+    return { valid: false, reason: minimum.reason };
+  }
+  if (BigInt(req.fee) < minimum.fee) {
+    return { valid: false, reason: `Invalid fee: below the relayer quote of ${minimum.fee}` };
+  }
+
   // Validate hex fields
-  for (const field of ["proof", "merkleRoot", "nullifierHash", "aspRoot"] as const) {
-    if (!req[field] || !req[field].startsWith("0x")) {
-      return { valid: false, reason: `Invalid ${field}: must be hex string` };
+  for (const field of ["merkleRoot", "nullifierHash", "aspRoot"] as const) {
+    if (!req[field] || !ethers.isHexString(req[field], 32)) {
+      return { valid: false, reason: `Invalid ${field}: must be 32-byte hex string` };
     }
   }
+  if (!/^\d+$/.test(String(req.refund))) {
+    return { valid: false, reason: "Invalid refund" };
+  }
 
-  // Validate proof length (8 uint256 values = 256 bytes = 512 hex chars + 0x prefix)
-  if (req.proof.length < 514) {
-    return { valid: false, reason: "Proof data too short" };
+  // Verify the proof against the public signals withdraw() will rebuild,
+  // then the roots it checks first, so a bad request never costs gas
+  try {
+    await verifyWithdrawProof(req.proof, {
+      root: req.merkleRoot,
+      nullifierHash: req.nullifierHash,
+      recipient: req.recipient,
+      relayer: req.relayer,
+      fee: req.fee,
+      refund: req.refund,
+      aspRoot: req.aspRoot,
+    });
+    await assertKnownRoots(pool.address, req.merkleRoot, req.aspRoot);
+  } catch (err) {
+    return { valid: false, reason: err instanceof Error ? err.message : String(err) };
   }
 
   // Check nullifier hasn't been used on-chain
@@ -112,9 +286,7 @@ export async function queueWithdrawal(
     throw new Error(validation.reason);
   }
 
-  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const wallet = new ethers.Wallet(config.privateKey, provider);
-  const relayerAddress = wallet.address;
+  const relayerAddress = relayerWallet().address;
 
   const jitterMs = computeJitterMs();
   const scheduledAt = new Date(Date.now() + jitterMs);
@@ -154,120 +326,348 @@ export async function queueWithdrawal(
   };
 }
 
+type WithdrawalRow = {
+  id: string;
+  nullifier_hash: string;
+  recipient: string;
+  relayer_address: string;
+  fee: string;
+  pool_address: string;
+  proof: string;
+  merkle_root: string;
+  asp_root: string;
+  refund: string;
+  retry_count: number;
+};
+
+const MAX_WITHDRAWAL_RETRIES = 3;
+
+// Identifies this process as the owner of its withdrawal claims
+const CLAIM_OWNER = randomUUID();
+
+// Withdrawals this process holds the claim on; their claimed_at is kept
+// fresh so no other replica takes them over while they are being worked on
+const claimed = new Set<string>();
+let heartbeatHandle: ReturnType<typeof setInterval> | null = null;
+
+// Expires a claim whose heartbeat stopped (SQL fragment, $n = timeout ms)
+const staleClaim = (param: string) =>
+  `(claimed_at IS NULL OR claimed_at < NOW() - make_interval(secs => ${param}::double precision / 1000))`;
+
+function holdClaim(withdrawalId: string): void {
+  claimed.add(withdrawalId);
+  if (heartbeatHandle) return;
+
+  heartbeatHandle = setInterval(() => {
+    if (claimed.size === 0) return;
+    query(
+      "UPDATE withdrawals SET claimed_at = NOW() WHERE id = ANY($1) AND claimed_by = $2",
+      [[...claimed], CLAIM_OWNER]
+    ).catch((err) =>
+      console.error(
+        "[Relayer] Failed to refresh withdrawal claims:",
+        err instanceof Error ? err.message : err
+      )
+    );
+  }, config.withdrawalClaimTimeoutMs / 3);
+  heartbeatHandle.unref();
+}
+
 /**
- * Submit a withdrawal transaction on-chain from the relayer hot wallet.
+ * Give up this process's claim so another replica (or the reconciler) can
+ * take the withdrawal over right away.
  */
-export async function submitWithdrawal(withdrawalId: string): Promise<string> {
-  const result = await query<{
-    id: string;
-    nullifier_hash: string;
-    recipient: string;
-    relayer_address: string;
-    fee: string;
-    pool_address: string;
-    proof: string;
-    merkle_root: string;
-    asp_root: string;
-    refund: string;
-    retry_count: number;
-  }>(
-    "SELECT * FROM withdrawals WHERE id = $1 AND status IN ('queued', 'processing')",
-    [withdrawalId]
+async function releaseClaim(withdrawalId: string): Promise<void> {
+  claimed.delete(withdrawalId);
+  await query(
+    "UPDATE withdrawals SET claimed_by = NULL, claimed_at = NULL WHERE id = $1 AND claimed_by = $2",
+    [withdrawalId, CLAIM_OWNER]
   );
+}
 
-  if (result.rows.length === 0) {
-    throw new Error(`Withdrawal ${withdrawalId} not found or not in processable state`);
+/**
+ * Change a claimed withdrawal's state, only while this process still owns
+ * the claim and the withdrawal is still `from`. `set` may use $4 onwards
+ * for `params`. Returns false (changing nothing) if the claim was lost.
+ */
+async function updateClaimedWithdrawal(
+  withdrawalId: string,
+  from: "processing" | "submitted",
+  set: string,
+  params: unknown[] = []
+): Promise<boolean> {
+  const result = await query(
+    `UPDATE withdrawals SET ${set}, updated_at = NOW()
+     WHERE id = $1 AND status = $2 AND claimed_by = $3`,
+    [withdrawalId, from, CLAIM_OWNER, ...params]
+  );
+  if (result.rowCount === 0) {
+    console.warn(`[Relayer] Withdrawal ${withdrawalId} no longer claimed by this replica, not updated`);
+    return false;
   }
+  return true;
+}
 
-  const w = result.rows[0];
-
-  // Mark as processing
-  await query(
-    "UPDATE withdrawals SET status = 'processing', updated_at = NOW() WHERE id = $1",
-    [withdrawalId]
-  );
+function encodeWithdrawCall(w: WithdrawalRow): string {
+  return new ethers.Interface(PRIVACY_POOL_ABI).encodeFunctionData("withdraw", [
+    w.proof,
+    w.merkle_root,
+    w.nullifier_hash,
+    w.recipient,
+    w.relayer_address,
+    w.fee,
+    w.refund,
+    w.asp_root,
+  ]);
+}
 
+/**
+ * Run withdraw() with eth_call from the relayer wallet. Returns the
+ * classified failure if it would revert, null if it would succeed.
+ */
+async function simulateWithdrawal(w: WithdrawalRow): Promise<WithdrawFailure | null> {
   const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const wallet = new ethers.Wallet(config.privateKey, provider);
-
-  const pool = new ethers.Contract(
-    w.pool_address,
-    PRIVACY_POOL_ABI,
-    wallet
-  );
-
   try {
-    // Double-check nullifier hasn't been spent since queuing
-    const alreadySpent = await pool.nullifierHashes(w.nullifier_hash);
-    if (alreadySpent) {
-      await query(
-        "UPDATE withdrawals SET status = 'rejected', error_message = 'Nullifier already spent', updated_at = NOW() WHERE id = $1",
-        [withdrawalId]
-      );
-      throw new Error("Nullifier already spent on-chain");
-    }
+    await provider.call({
+      from: relayerWallet().address,
+      to: w.pool_address,
+      data: encodeWithdrawCall(w),
+    });
+    return null;
+  } catch (err) {
+    return classifyWithdrawError(err);
+  }
+}
 
-    const tx = await pool.withdraw(
-      w.proof,
-      w.merkle_root,
-      w.nullifier_hash,
-      w.recipient,
-      w.relayer_address,
-      w.fee,
-      w.refund,
-      w.asp_root
+/**
+ * Record a failed attempt on a withdrawal claimed in state `from`.
+ * Permanent failures reject the withdrawal; transient ones re-queue it with
+ * exponential backoff (plus jitter) until its retries run out. Either way
+ * the claim is released.
+ */
+async function recordWithdrawalFailure(
+  withdrawalId: string,
+  from: "processing" | "submitted",
+  retryCount: number,
+  failure: WithdrawFailure
+): Promise<void> {
+  const newRetryCount = retryCount + 1;
+  const released = "claimed_by = NULL, claimed_at = NULL";
+
+  if (failure.class === "permanent") {
+    const updated = await updateClaimedWithdrawal(
+      withdrawalId,
+      from,
+      `status = 'rejected', error_message = $4, error_class = $5, retry_count = $6, ${released}`,
+      [failure.reason, failure.class, newRetryCount]
     );
-
-    await query(
-      "UPDATE withdrawals SET status = 'submitted', tx_hash = $1, submitted_at = NOW(), updated_at = NOW() WHERE id = $2",
-      [tx.hash, withdrawalId]
+    if (updated) console.warn(`[Relayer] Withdrawal ${withdrawalId} rejected: ${failure.reason}`);
+  } else if (newRetryCount >= MAX_WITHDRAWAL_RETRIES) {
+    await updateClaimedWithdrawal(
+      withdrawalId,
+      from,
+      `status = 'failed', error_message = $4, error_class = $5, retry_count = $6, ${released}`,
+      [failure.reason, failure.class, newRetryCount]
     );
-
-    console.log(
-      `[Relayer] Withdrawal submitted: ${w.nullifier_hash.slice(0, 10)}... tx: ${tx.hash}`
+  } else {
+    const backoffMs = config.withdrawalRetryBaseMs * 2 ** (newRetryCount - 1);
+    const newScheduledAt = new Date(Date.now() + backoffMs + computeJitterMs());
+    await updateClaimedWithdrawal(
+      withdrawalId,
+      from,
+      `status = 'queued', error_message = $4, error_class = $5, retry_count = $6,
+       scheduled_at = $7, ${released}`,
+      [failure.reason, failure.class, newRetryCount, newScheduledAt.toISOString()]
     );
+  }
+}
 
-    // Wait for confirmation
-    const receipt = await tx.wait();
-
-    await query(
-      `UPDATE withdrawals
-       SET status = 'confirmed', block_number = $1, gas_used = $2, updated_at = NOW()
-       WHERE id = $3`,
-      [receipt.blockNumber, receipt.gasUsed.toString(), withdrawalId]
-    );
+async function recordWithdrawalConfirmed(
+  w: WithdrawalRow,
+  receipt: ethers.TransactionReceipt
+): Promise<void> {
+  // receipt.hash is the fee-bumped replacement if one was mined instead
+  const updated = await updateClaimedWithdrawal(
+    w.id,
+    "submitted",
+    `status = 'confirmed', tx_hash = $4, block_number = $5, gas_used = $6,
+     claimed_by = NULL, claimed_at = NULL`,
+    [receipt.hash, receipt.blockNumber, receipt.gasUsed.toString()]
+  );
 
+  if (updated) {
     console.log(
       `[Relayer] Withdrawal confirmed: ${w.nullifier_hash.slice(0, 10)}... block: ${receipt.blockNumber}`
     );
+  }
+}
 
-    return tx.hash;
+/**
+ * Wait for a withdrawal's transaction and record the outcome. If it did
+ * not confirm, the withdrawal is simulated again to classify the failure,
+ * unless it was paid out after all: the transaction was mined, or the
+ * nullifier is spent while the transaction may still be mined. Those stay
+ * submitted for the reconciler to settle again.
+ */
+async function settleWithdrawal(w: WithdrawalRow, txId: string): Promise<string> {
+  holdClaim(w.id);
+  try {
+    const receipt = await waitForTransaction(txId);
+    await recordWithdrawalConfirmed(w, receipt);
+    return receipt.hash;
   } catch (err) {
-    const errorMessage = err instanceof Error ? err.message : String(err);
-    const newRetryCount = w.retry_count + 1;
-    const maxRetries = 3;
-
-    if (newRetryCount >= maxRetries) {
-      await query(
-        `UPDATE withdrawals
-         SET status = 'failed', error_message = $1, retry_count = $2, updated_at = NOW()
-         WHERE id = $3`,
-        [errorMessage, newRetryCount, withdrawalId]
+    // Once withdraw() lands the nullifier is spent and a new simulation
+    // reverts, so check the outcome on-chain before classifying
+    let receipt: ethers.TransactionReceipt | null;
+    let spent: boolean;
+    let dropped: boolean;
+    try {
+      receipt = await findTransactionReceipt(txId);
+      const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+      const pool = new ethers.Contract(w.pool_address, PRIVACY_POOL_ABI, provider);
+      spent = await pool.nullifierHashes(w.nullifier_hash);
+      dropped = (await getTransactionStatus(txId)) === "dropped";
+    } catch (lookupErr) {
+      console.warn(
+        `[Relayer] Withdrawal ${w.id} outcome unknown, left submitted:`,
+        lookupErr instanceof Error ? lookupErr.message : lookupErr
       );
-    } else {
-      // Re-queue with a new jitter delay
-      const newScheduledAt = new Date(Date.now() + computeJitterMs());
-      await query(
-        `UPDATE withdrawals
-         SET status = 'queued', error_message = $1, retry_count = $2,
-             scheduled_at = $3, updated_at = NOW()
-         WHERE id = $4`,
-        [errorMessage, newRetryCount, newScheduledAt.toISOString(), withdrawalId]
+      throw err;
+    }
+
+    if (receipt?.status === 1) {
+      await recordWithdrawalConfirmed(w, receipt);
+      return receipt.hash;
+    }
+    if (!receipt && spent && !dropped) {
+      console.warn(
+        `[Relayer] Withdrawal ${w.id} nullifier is spent but its transaction has no receipt yet, left submitted`
       );
+      throw err;
     }
 
+    const message = err instanceof Error ? err.message : String(err);
+    const failure = (await simulateWithdrawal(w)) ?? { class: "transient", reason: message };
+    await recordWithdrawalFailure(w.id, "submitted", w.retry_count, failure);
     throw err;
+  } finally {
+    // A withdrawal left submitted is settled again by the reconciler
+    await releaseClaim(w.id);
+  }
+}
+
+/**
+ * Submit a withdrawal claimed by claimDueWithdrawals on-chain from the
+ * relayer hot wallet, after simulating it.
+ */
+export async function submitWithdrawal(withdrawalId: string): Promise<string> {
+  const result = await query<WithdrawalRow>(
+    "SELECT * FROM withdrawals WHERE id = $1 AND status = 'processing' AND claimed_by = $2",
+    [withdrawalId, CLAIM_OWNER]
+  );
+
+  if (result.rows.length === 0) {
+    claimed.delete(withdrawalId);
+    throw new Error(`Withdrawal ${withdrawalId} not found or not claimed for processing`);
+  }
+
+  const w = result.rows[0];
+  try {
+    // A reclaimed withdrawal may have been sent before its replica died
+    const previous = await findTransaction("withdrawal", withdrawalId);
+    if (previous) {
+      const status = await getTransactionStatus(previous.id);
+      if (status === "pending" || status === "confirmed") {
+        const resumed = await updateClaimedWithdrawal(
+          withdrawalId,
+          "processing",
+          "status = 'submitted', tx_hash = $4",
+          [previous.hash]
+        );
+        if (!resumed) {
+          throw new Error(`Withdrawal ${withdrawalId} claim lost`);
+        }
+        return await settleWithdrawal(w, previous.id);
+      }
+    }
+
+    // Simulate first: a revert here costs no gas and says whether to retry
+    const simulated = await simulateWithdrawal(w);
+    if (simulated) {
+      await recordWithdrawalFailure(withdrawalId, "processing", w.retry_count, simulated);
+      throw new Error(`Withdrawal simulation failed: ${simulated.reason}`);
+    }
+
+    let tx: ManagedTransaction;
+    try {
+      tx = await sendTransaction({
+        to: w.pool_address,
+        data: encodeWithdrawCall(w),
+        purpose: "withdrawal",
+        reference: withdrawalId,
+      });
+    } catch (err) {
+      const failure = classifyWithdrawError(err);
+      await recordWithdrawalFailure(withdrawalId, "processing", w.retry_count, failure);
+      throw err;
+    }
+
+    // If the claim was taken over meanwhile, the new owner finds this
+    // transaction with findTransaction and settles it instead of resending
+    const submitted = await updateClaimedWithdrawal(
+      withdrawalId,
+      "processing",
+      "status = 'submitted', tx_hash = $4, submitted_at = NOW()",
+      [tx.hash]
+    );
+    if (!submitted) {
+      throw new Error(`Withdrawal ${withdrawalId} claim lost after sending ${tx.hash}`);
+    }
+    console.log(
+      `[Relayer] Withdrawal submitted: ${w.nullifier_hash.slice(0, 10)}... tx: ${tx.hash}`
+    );
+
+    return await settleWithdrawal(w, tx.id);
+  } finally {
+    claimed.delete(withdrawalId);
+  }
+}
+
+/**
+ * Take over submitted withdrawals nobody is settling: sent before a restart,
+ * or by a replica whose claim expired or was released. Returns the number
+ * resumed; each settles in the background under this process's claim.
+ */
+export async function resumeSubmittedWithdrawals(): Promise<number> {
+  const result = await query<WithdrawalRow>(
+    `UPDATE withdrawals
+     SET claimed_by = $1, claimed_at = NOW()
+     WHERE id IN (
+       SELECT id FROM withdrawals
+       WHERE status = 'submitted' AND (claimed_by IS NULL OR ${staleClaim("$2")})
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [CLAIM_OWNER, config.withdrawalClaimTimeoutMs]
+  );
+
+  let resumed = 0;
+  for (const w of result.rows) {
+    const tx = await findTransaction("withdrawal", w.id);
+    if (!tx) {
+      console.warn(`[Relayer] Submitted withdrawal ${w.id} has no recorded transaction`);
+      await releaseClaim(w.id);
+      continue;
+    }
+    resumed++;
+    settleWithdrawal(w, tx.id).catch((err) =>
+      console.error(
+        `[Relayer] Withdrawal ${w.id} failed:`,
+        err instanceof Error ? err.message : err
+      )
+    );
   }
+  return resumed;
 }
 
 /**
@@ -283,8 +683,9 @@ export async function getWithdrawalStatus(
     scheduled_at: Date | null;
     submitted_at: Date | null;
     error_message: string | null;
+    error_class: FailureClass | null;
   }>(
-    `SELECT nullifier_hash, status, tx_hash, scheduled_at, submitted_at, error_message
+    `SELECT nullifier_hash, status, tx_hash, scheduled_at, submitted_at, error_message, error_class
      FROM withdrawals
      WHERE nullifier_hash = $1
      ORDER BY created_at DESC
@@ -302,18 +703,66 @@ export async function getWithdrawalStatus(
     scheduledAt: row.scheduled_at,
     submittedAt: row.submitted_at,
     error: row.error_message,
+    errorClass: row.error_class,
   };
 }
 
 /**
- * Fetch all withdrawals that are due for processing.
+ * Put a failed withdrawal back in the queue with a fresh retry budget and a
+ * new jitter delay.
  */
-export async function getDueWithdrawals(): Promise<string[]> {
+export async function requeueFailedWithdrawal(
+  withdrawalId: string
+): Promise<{ scheduledAt: Date }> {
+  const scheduledAt = new Date(Date.now() + computeJitterMs());
+  const result = await query(
+    `UPDATE withdrawals
+     SET status = 'queued', retry_count = 0, error_message = NULL, error_class = NULL,
+         scheduled_at = $1, updated_at = NOW()
+     WHERE id = $2 AND status = 'failed'
+     RETURNING id`,
+    [scheduledAt.toISOString(), withdrawalId]
+  );
+
+  if (result.rows.length === 0) {
+    const existing = await query<{ status: string }>(
+      "SELECT status FROM withdrawals WHERE id = $1",
+      [withdrawalId]
+    );
+    if (existing.rows.length === 0) {
+      throw new Error("Withdrawal not found");
+    }
+    throw new Error(`Withdrawal is ${existing.rows[0].status}, not failed`);
+  }
+
+  console.log(
+    `[Relayer] Withdrawal ${withdrawalId} re-queued for ${scheduledAt.toISOString()}`
+  );
+  return { scheduledAt };
+}
+
+/**
+ * Claim up to `limit` due withdrawals for this replica by moving them to
+ * 'processing'. Rows locked by another replica's claim are skipped, so a
+ * withdrawal is only ever claimed once. The claim is kept alive while this
+ * process works on the withdrawal; one whose heartbeat stopped for
+ * WITHDRAWAL_CLAIM_TIMEOUT_MS (the claiming replica died) is claimed again.
+ */
+export async function claimDueWithdrawals(limit: number): Promise<string[]> {
   const result = await query<{ id: string }>(
-    `SELECT id FROM withdrawals
-     WHERE status = 'queued' AND scheduled_at <= NOW()
-     ORDER BY scheduled_at ASC
-     LIMIT 10`
+    `UPDATE withdrawals
+     SET status = 'processing', claimed_by = $3, claimed_at = NOW(), updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM withdrawals
+       WHERE (status = 'queued' AND scheduled_at <= NOW())
+          OR (status = 'processing' AND ${staleClaim("$2")})
+       ORDER BY scheduled_at ASC
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id`,
+    [limit, config.withdrawalClaimTimeoutMs, CLAIM_OWNER]
   );
+  for (const row of result.rows) holdClaim(row.id);
   return result.rows.map((r) => r.id);
 }
@@ -0,0 +1,180 @@
+import crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { PoolClient } from "pg";
+import { config } from "../config";
+import { query, withTransaction } from "../db";
+import { parseSdnFile } from "../lib/ofacParser";
+
+/**
+ * OFAC SDN list storage. Exports are parsed into sanctioned_addresses under
+ * a sanctions_list_versions row; the active version is held in memory for
+ * screening and swapped whenever a new export is ingested.
+ */
+
+export interface SanctionsListInfo {
+  versionId: string;
+  format: string;
+  filePath: string;
+  sha256: string;
+  publicationDate: string | null;
+  addressCount: number;
+  ingestedAt: Date;
+}
+
+// Max rows per insert when storing a list version
+const ADDRESS_WRITE_BATCH_SIZE = 5000;
+
+let activeList: { info: SanctionsListInfo; addresses: Set<string> } | null = null;
+
+async function setActiveVersion(client: PoolClient, versionId: string): Promise<void> {
+  await client.query("UPDATE sanctions_list_versions SET active = FALSE WHERE active");
+  await client.query("UPDATE sanctions_list_versions SET active = TRUE WHERE id = $1", [versionId]);
+}
+
+/**
+ * Parse an SDN export and store it as the active list version. A file that
+ * was already ingested (same sha256) is only reactivated.
+ */
+export async function ingestSanctionsFile(
+  filePath: string
+): Promise<{ versionId: string; addressCount: number; isNew: boolean }> {
+  const content = fs.readFileSync(filePath);
+  const sha256 = crypto.createHash("sha256").update(content).digest("hex");
+
+  const existing = await query<{ id: string; address_count: number; active: boolean }>(
+    "SELECT id, address_count, active FROM sanctions_list_versions WHERE file_sha256 = $1",
+    [sha256]
+  );
+  if (existing.rows.length > 0) {
+    const version = existing.rows[0];
+    if (!version.active) {
+      await withTransaction((client) => setActiveVersion(client, version.id));
+      console.log(`[Sanctions] Reactivated list version ${version.id} (${version.address_count} addresses)`);
+    }
+    return { versionId: version.id, addressCount: version.address_count, isNew: false };
+  }
+
+  const parsed = parseSdnFile(path.basename(filePath), content.toString("utf-8"));
+
+  const versionId = await withTransaction(async (client) => {
+    const inserted = await client.query<{ id: string }>(
+      `INSERT INTO sanctions_list_versions
+        (format, file_path, file_sha256, publication_date, address_count)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING id`,
+      [parsed.format, filePath, sha256, parsed.publicationDate, parsed.entries.length]
+    );
+    const id = inserted.rows[0].id;
+
+    for (let i = 0; i < parsed.entries.length; i += ADDRESS_WRITE_BATCH_SIZE) {
+      const batch = parsed.entries.slice(i, i + ADDRESS_WRITE_BATCH_SIZE);
+      await client.query(
+        `INSERT INTO sanctioned_addresses (list_version_id, address, ticker, sdn_entity_id, sdn_name)
+         SELECT $1, * FROM UNNEST($2::varchar[], $3::varchar[], $4::varchar[], $5::text[])`,
+        [
+          id,
+          batch.map((e) => e.address),
+          batch.map((e) => e.ticker),
+          batch.map((e) => e.entityId),
+          batch.map((e) => e.name),
+        ]
+      );
+    }
+
+    await setActiveVersion(client, id);
+    return id;
+  });
+
+  console.log(
+    `[Sanctions] Ingested ${parsed.format.toUpperCase()} list ${path.basename(filePath)}: ` +
+    `${parsed.entries.length} EVM addresses` +
+    (parsed.publicationDate ? `, issued ${parsed.publicationDate}` : "")
+  );
+  return { versionId, addressCount: parsed.entries.length, isNew: true };
+}
+
+/**
+ * Load the active list version from the database into memory.
+ */
+export async function loadActiveSanctionsList(): Promise<SanctionsListInfo | null> {
+  const version = await query<{
+    id: string;
+    format: string;
+    file_path: string;
+    file_sha256: string;
+    publication_date: string | null;
+    address_count: number;
+    ingested_at: Date;
+  }>(
+    `SELECT id, format, file_path, file_sha256, to_char(publication_date, 'YYYY-MM-DD') AS publication_date,
+            address_count, ingested_at
+     FROM sanctions_list_versions WHERE active`
+  );
+  if (version.rows.length === 0) {
+    activeList = null;
+    return null;
+  }
+
+  const row = version.rows[0];
+  const addresses = await query<{ address: string }>(
+    "SELECT DISTINCT address FROM sanctioned_addresses WHERE list_version_id = $1",
+    [row.id]
+  );
+
+  const info: SanctionsListInfo = {
+    versionId: row.id,
+    format: row.format,
+    filePath: row.file_path,
+    sha256: row.file_sha256,
+    publicationDate: row.publication_date,
+    addressCount: row.address_count,
+    ingestedAt: row.ingested_at,
+  };
+  activeList = { info, addresses: new Set(addresses.rows.map((r) => r.address)) };
+  return info;
+}
+
+/**
+ * Ingest OFAC_LIST_PATH if it changed, then (re)load the active version.
+ * Without a file, the last ingested version stays in use.
+ */
+export async function refreshSanctionsList(): Promise<void> {
+  if (fs.existsSync(config.ofacListPath)) {
+    try {
+      await ingestSanctionsFile(config.ofacListPath);
+    } catch (err) {
+      console.error(
+        `[Sanctions] Failed to ingest ${config.ofacListPath}, keeping the active version:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+  } else {
+    console.warn(`[Sanctions] OFAC list not found at ${config.ofacListPath}`);
+  }
+
+  const info = await loadActiveSanctionsList();
+  if (info) {
+    console.log(
+      `[Sanctions] Active OFAC list: ${info.addressCount} addresses ` +
+      `(version ${info.versionId.slice(0, 8)}, ${info.publicationDate ?? "no issue date"})`
+    );
+  } else {
+    console.warn("[Sanctions] No OFAC list ingested, OFAC screening unavailable");
+  }
+}
+
+/**
+ * Whether an address is on the active OFAC list. Throws if no list is
+ * loaded so screening reports the provider as unavailable.
+ */
+export function isOfacSanctioned(address: string): boolean {
+  if (!activeList) {
+    throw new Error("OFAC list not loaded");
+  }
+  return activeList.addresses.has(address.toLowerCase());
+}
+
+export function getActiveSanctionsListInfo(): SanctionsListInfo | null {
+  return activeList?.info ?? null;
+}
@@ -1,145 +1,245 @@
 import { ethers } from "ethers";
 import { config } from "../config";
 import * as fs from "fs";
-
-// Chainalysis Sanctions Oracle ABI (minimal)
-const SANCTIONS_ORACLE_ABI = [
-  "function isSanctioned(address addr) external view returns (bool)",
-];
+import {
+  AddressListProvider,
+  AllowlistProvider,
+  ChainalysisOracleProvider,
+  HttpRiskApiProvider,
+  ScreeningProvider,
+} from "../lib/screeningProviders";
+import {
+  evaluateScreening,
+  ProviderResult,
+  ScreeningDecision,
+  ScreeningPolicy,
+} from "../lib/screeningPolicy";
+import { isOfacSanctioned } from "./sanctions.service";
 
 export interface ScreeningResult {
   approved: boolean;
+  decision: ScreeningDecision;
   riskScore: number;
   flags: string[];
+  /** Per-provider results the decision was based on */
+  providers: ProviderResult[];
 }
 
-// In-memory OFAC SDN list cache
-let ofacAddresses: Set<string> | null = null;
+/**
+ * Provider entry in the screening policy file (SCREENING_POLICY_PATH).
+ * `weight` sets the provider's share of the combined risk score; `veto`
+ * makes a 1.0 score from it block outright.
+ */
+type ProviderConfig =
+  | { type: "chainalysis_oracle"; weight?: number; veto?: boolean }
+  | { type: "ofac_list"; weight?: number; veto?: boolean }
+  | { type: "denylist"; name: string; path: string; weight?: number; veto?: boolean }
+  | { type: "allowlist"; name: string; path: string }
+  | {
+      type: "http_risk_api";
+      name: string;
+      url: string;
+      apiKeyEnv?: string;
+      apiKeyHeader?: string;
+      scoreField?: string;
+      flagsField?: string;
+      scoreScale?: number;
+      timeoutMs?: number;
+      weight?: number;
+      veto?: boolean;
+    };
 
-function loadOfacList(): Set<string> {
-  if (ofacAddresses) return ofacAddresses;
+interface PolicyFile {
+  reviewThreshold?: number;
+  blockThreshold?: number;
+  providers: ProviderConfig[];
+}
 
-  ofacAddresses = new Set<string>();
+// Used when no policy file is configured: the on-chain oracle plus the ingested OFAC list
+const DEFAULT_POLICY_FILE: PolicyFile = {
+  reviewThreshold: 0.5,
+  blockThreshold: 0.8,
+  providers: [
+    { type: "chainalysis_oracle", weight: 1, veto: true },
+    { type: "ofac_list", weight: 1, veto: true },
+  ],
+};
 
-  try {
-    if (fs.existsSync(config.ofacListPath)) {
-      const raw = fs.readFileSync(config.ofacListPath, "utf-8");
-      const parsed = JSON.parse(raw);
+/**
+ * Read a JSON address list: either a flat array or `{ addresses: [...] }`.
+ * Invalid entries are skipped; addresses are lowercased.
+ */
+function readAddressListFile(path: string): Set<string> {
+  const raw = fs.readFileSync(path, "utf-8");
+  const parsed = JSON.parse(raw);
 
-      // Support both flat array and structured SDN list formats
-      const addresses: string[] = Array.isArray(parsed)
-        ? parsed
-        : parsed.addresses ?? [];
+  // Support both flat array and { addresses } formats
+  const addresses: string[] = Array.isArray(parsed)
+    ? parsed
+    : parsed.addresses ?? [];
 
-      for (const addr of addresses) {
-        if (typeof addr === "string" && ethers.isAddress(addr)) {
-          ofacAddresses.add(addr.toLowerCase());
-        }
-      }
+  const result = new Set<string>();
+  for (const addr of addresses) {
+    if (typeof addr === "string" && ethers.isAddress(addr)) {
+      result.add(addr.toLowerCase());
+    }
+  }
+  return result;
+}
 
-      console.log(
-        `[Screening] Loaded ${ofacAddresses.size} addresses from local OFAC list`
-      );
-    } else {
-      console.warn(
-        `[Screening] OFAC list not found at ${config.ofacListPath}, local fallback disabled`
+interface ScreeningEngine {
+  providers: ScreeningProvider[];
+  policy: ScreeningPolicy;
+}
+
+let engine: ScreeningEngine | null = null;
+
+function buildProvider(entry: ProviderConfig): ScreeningProvider {
+  switch (entry.type) {
+    case "chainalysis_oracle":
+      return new ChainalysisOracleProvider(config.rpcUrl, config.chainalysisSanctionsOracle);
+    case "ofac_list":
+      return new AddressListProvider("ofac", isOfacSanctioned, "ofac_sdn_match");
+    case "denylist": {
+      const addresses = readAddressListFile(entry.path);
+      console.log(`[Screening] Loaded ${addresses.size} addresses into denylist ${entry.name}`);
+      return new AddressListProvider(
+        entry.name,
+        (address) => addresses.has(address),
+        `${entry.name}_match`
       );
     }
-  } catch (err) {
-    console.error("[Screening] Failed to load OFAC list:", err);
+    case "allowlist": {
+      const addresses = readAddressListFile(entry.path);
+      console.log(`[Screening] Loaded ${addresses.size} addresses into allowlist ${entry.name}`);
+      return new AllowlistProvider(entry.name, addresses);
+    }
+    case "http_risk_api":
+      return new HttpRiskApiProvider(entry.name, {
+        url: entry.url,
+        apiKey: entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : undefined,
+        apiKeyHeader: entry.apiKeyHeader,
+        scoreField: entry.scoreField,
+        flagsField: entry.flagsField,
+        scoreScale: entry.scoreScale,
+        timeoutMs: entry.timeoutMs,
+      });
+    default:
+      throw new Error(
+        `Unknown screening provider type: ${(entry as { type: string }).type}`
+      );
   }
-
-  return ofacAddresses;
 }
 
 /**
- * Check address against Chainalysis Sanctions Oracle on-chain.
- * Returns true if the address is sanctioned.
+ * Build the providers and policy from SCREENING_POLICY_PATH (or the default
+ * policy), reading any denylist and allowlist files. Throws if the policy
+ * or a list file is missing or invalid.
  */
-async function checkChainalysis(address: string): Promise<boolean> {
-  try {
-    const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-    const oracle = new ethers.Contract(
-      config.chainalysisSanctionsOracle,
-      SANCTIONS_ORACLE_ABI,
-      provider
-    );
-    const isSanctioned: boolean = await oracle.isSanctioned(address);
-    return isSanctioned;
-  } catch (err) {
-    console.error(
-      "[Screening] Chainalysis oracle call failed, falling back to local list:",
-      err instanceof Error ? err.message : err
+export function loadScreeningPolicy(): void {
+  if (config.screeningPolicyPath && !fs.existsSync(config.screeningPolicyPath)) {
+    throw new Error(`Screening policy not found at ${config.screeningPolicyPath}`);
+  }
+  const file: PolicyFile = config.screeningPolicyPath
+    ? JSON.parse(fs.readFileSync(config.screeningPolicyPath, "utf-8"))
+    : DEFAULT_POLICY_FILE;
+
+  if (!Array.isArray(file.providers) || file.providers.length === 0) {
+    throw new Error("Screening policy has no providers");
+  }
+
+  const providers: ScreeningProvider[] = [];
+  const policy: ScreeningPolicy = {
+    reviewThreshold: file.reviewThreshold ?? 0.5,
+    blockThreshold: file.blockThreshold ?? 0.8,
+    weights: {},
+    vetoProviders: [],
+  };
+  const isScore = (value: number) => typeof value === "number" && value >= 0 && value <= 1;
+  if (!isScore(policy.reviewThreshold) || !isScore(policy.blockThreshold) ||
+      policy.reviewThreshold > policy.blockThreshold) {
+    throw new Error(
+      "Invalid screening thresholds: need 0 <= reviewThreshold <= blockThreshold <= 1"
     );
-    // Signal that we should use fallback
-    throw err;
   }
+
+  for (const entry of file.providers) {
+    const provider = buildProvider(entry);
+    if (providers.some((p) => p.name === provider.name)) {
+      throw new Error(`Duplicate screening provider name: ${provider.name}`);
+    }
+    providers.push(provider);
+
+    if (entry.type !== "allowlist") {
+      const weight = entry.weight ?? 1;
+      if (typeof weight !== "number" || weight < 0) {
+        throw new Error(`Invalid weight for screening provider ${provider.name}: ${weight}`);
+      }
+      policy.weights[provider.name] = weight;
+      if (entry.veto) policy.vetoProviders.push(provider.name);
+    }
+  }
+
+  console.log(
+    `[Screening] Providers: ${providers.map((p) => p.name).join(", ")} ` +
+    `(review >= ${policy.reviewThreshold}, block >= ${policy.blockThreshold})`
+  );
+
+  engine = { providers, policy };
 }
 
-/**
- * Check address against local OFAC SDN list.
- */
-function checkLocalOfac(address: string): boolean {
-  const list = loadOfacList();
-  return list.has(address.toLowerCase());
+function getScreeningEngine(): ScreeningEngine {
+  if (!engine) {
+    throw new Error("Screening policy not loaded");
+  }
+  return engine;
 }
 
 /**
  * Screen an address for sanctions and compliance.
  *
- * Primary: Chainalysis Sanctions Oracle (on-chain).
- * Fallback: Local OFAC SDN list.
+ * Every configured provider is queried in parallel and the policy combines
+ * their results into approve / review / block (see lib/screeningPolicy).
+ * Throws if no weighted provider could answer, so callers can retry.
  *
  * Risk scoring:
  *   0.0 = clean
  *   1.0 = sanctioned / blocked
- *   0.5 = oracle unreachable, passed local check (elevated caution)
  */
 export async function checkAddress(address: string): Promise<ScreeningResult> {
   if (!ethers.isAddress(address)) {
     return {
       approved: false,
+      decision: "block",
       riskScore: 1.0,
       flags: ["invalid_address"],
+      providers: [],
     };
   }
 
   const normalizedAddress = ethers.getAddress(address);
-  const flags: string[] = [];
-  let riskScore = 0.0;
-  let oracleReachable = true;
-
-  // Primary: Chainalysis on-chain oracle
-  try {
-    const sanctioned = await checkChainalysis(normalizedAddress);
-    if (sanctioned) {
-      flags.push("chainalysis_sanctioned");
-      riskScore = 1.0;
-      return { approved: false, riskScore, flags };
-    }
-  } catch {
-    oracleReachable = false;
-    flags.push("chainalysis_oracle_unreachable");
-  }
+  const { providers, policy } = getScreeningEngine();
 
-  // Fallback / supplementary: local OFAC SDN list
-  const onOfacList = checkLocalOfac(normalizedAddress);
-  if (onOfacList) {
-    flags.push("ofac_sdn_match");
-    riskScore = 1.0;
-    return { approved: false, riskScore, flags };
-  }
+  const results = await Promise.all(
+    providers.map(async (provider): Promise<ProviderResult> => {
+      try {
+        return await provider.screen(normalizedAddress);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[Screening] Provider ${provider.name} failed:`, message);
+        return { provider: provider.name, score: null, flags: [], error: message };
+      }
+    })
+  );
 
-  // If the oracle was unreachable, flag with elevated risk but still approve
-  if (!oracleReachable) {
-    riskScore = 0.5;
-    flags.push("oracle_fallback_only");
-  }
+  const { decision, riskScore, flags } = evaluateScreening(results, policy);
 
   return {
-    approved: true,
+    approved: decision === "approve",
+    decision,
     riskScore,
     flags,
+    providers: results,
   };
 }
 
@@ -166,8 +266,10 @@ export async function checkAddresses(
       } else {
         results.set(batch[j], {
           approved: false,
+          decision: "block",
           riskScore: 1.0,
           flags: ["screening_error", result.reason?.message ?? "unknown"],
+          providers: [],
         });
       }
     }
@@ -0,0 +1,261 @@
+import { ethers } from "ethers";
+import { config } from "../config";
+import { isLeader } from "./leader.service";
+import { getPaymasters } from "./poolRegistry.service";
+
+/**
+ * Balances that keep the relayer running: each PrivacyPaymaster's deposit
+ * at the EntryPoint (which pays for sponsored ops) and the relayer hot
+ * wallet (which pays for withdrawals, ASP roots and built-in bundles).
+ * Low paymaster deposits are refilled from the treasury key when one is
+ * configured; otherwise sponsorship intake through that paymaster pauses
+ * until the deposit is topped up. With the built-in bundler, a low relayer
+ * wallet pauses all intake, since the relayer pays for every bundle.
+ */
+
+const ENTRY_POINT_ABI = ["function balanceOf(address account) view returns (uint256)"];
+
+const PRIVACY_PAYMASTER_ABI = ["function fundPaymaster() payable"];
+
+// How long a check waits for a refill to be mined before moving on; an
+// unmined refill is looked up again on the next check instead of resent
+const REFILL_WAIT_TIMEOUT_MS = 30_000;
+
+export interface PaymasterBalance {
+  address: string;
+  /** EntryPoint deposit in wei */
+  deposit: string;
+  low: boolean;
+}
+
+export interface TreasuryStatus {
+  checkedAt: Date;
+  paymasters: PaymasterBalance[];
+  relayerWallet: { address: string; balance: string; low: boolean };
+  /** Lowercased paymasters whose sponsorship intake is paused */
+  pausedPaymasters: string[];
+}
+
+let latestStatus: TreasuryStatus | null = null;
+const pausedPaymasters = new Set<string>();
+let relayerWalletLow = false;
+
+// Lowercased paymaster -> hash of a refill sent but not yet seen mined
+const pendingRefills = new Map<string, string>();
+
+// Conditions already alerted on, so each alert fires once per episode
+const activeAlerts = new Set<string>();
+
+function getProvider(): ethers.JsonRpcProvider {
+  return new ethers.JsonRpcProvider(config.rpcUrl);
+}
+
+/**
+ * Log an alert and post it to TREASURY_ALERT_WEBHOOK_URL (Slack-style
+ * `{ text }` body). Repeats of an active alert are dropped.
+ */
+async function raiseAlert(key: string, message: string): Promise<void> {
+  if (activeAlerts.has(key)) return;
+  activeAlerts.add(key);
+  console.error(`[Treasury] ALERT: ${message}`);
+
+  if (!config.treasuryAlertWebhookUrl) return;
+  try {
+    await fetch(config.treasuryAlertWebhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ text: `[Privacy Paymaster relayer] ${message}` }),
+    });
+  } catch (err) {
+    console.error(
+      "[Treasury] Failed to post alert:",
+      err instanceof Error ? err.message : err
+    );
+  }
+}
+
+function clearAlert(key: string, message: string): void {
+  if (activeAlerts.delete(key)) {
+    console.log(`[Treasury] Resolved: ${message}`);
+  }
+}
+
+/**
+ * Look up a refill sent by an earlier check. Returns true once it is mined,
+ * false while it is still pending, and null if there is none (or it was
+ * dropped) so a new one may be sent.
+ */
+async function settlePendingRefill(paymaster: string): Promise<boolean | null> {
+  const hash = pendingRefills.get(paymaster);
+  if (!hash) return null;
+
+  const provider = getProvider();
+  const receipt = await provider.getTransactionReceipt(hash);
+  if (!receipt) {
+    if (await provider.getTransaction(hash)) return false;
+    console.warn(`[Treasury] Refill ${hash} for paymaster ${paymaster} was dropped`);
+    pendingRefills.delete(paymaster);
+    return null;
+  }
+
+  pendingRefills.delete(paymaster);
+  if (receipt.status !== 1) {
+    throw new Error(`Refill transaction ${hash} reverted`);
+  }
+  return true;
+}
+
+/**
+ * Top up a paymaster's EntryPoint deposit from the treasury key. Returns
+ * false if the treasury cannot cover PAYMASTER_REFILL_AMOUNT or the refill
+ * is not mined within REFILL_WAIT_TIMEOUT_MS (it is checked again on the
+ * next call rather than sent twice).
+ */
+async function refillPaymaster(paymaster: string): Promise<boolean> {
+  const pending = await settlePendingRefill(paymaster);
+  if (pending !== null) return pending;
+
+  const treasury = new ethers.Wallet(config.treasuryPrivateKey, getProvider());
+  const amount = ethers.parseEther(config.paymasterRefillAmount);
+
+  const balance = await treasury.provider!.getBalance(treasury.address);
+  if (balance < amount) {
+    await raiseAlert(
+      `treasury:${treasury.address}`,
+      `Treasury ${treasury.address} holds ${ethers.formatEther(balance)} BNB, ` +
+        `cannot refill paymaster ${paymaster} with ${config.paymasterRefillAmount} BNB`
+    );
+    return false;
+  }
+  clearAlert(`treasury:${treasury.address}`, `treasury ${treasury.address} funded`);
+
+  const contract = new ethers.Contract(paymaster, PRIVACY_PAYMASTER_ABI, treasury);
+  const tx = await contract.fundPaymaster({ value: amount });
+  pendingRefills.set(paymaster, tx.hash);
+  console.log(
+    `[Treasury] Refilling paymaster ${paymaster} with ${config.paymasterRefillAmount} BNB, tx: ${tx.hash}`
+  );
+
+  let receipt: ethers.TransactionReceipt | null;
+  try {
+    receipt = await tx.wait(1, REFILL_WAIT_TIMEOUT_MS);
+  } catch (err) {
+    if (ethers.isError(err, "TIMEOUT")) {
+      console.warn(`[Treasury] Refill ${tx.hash} not mined yet, checking again next time`);
+      return false;
+    }
+    pendingRefills.delete(paymaster);
+    throw err;
+  }
+  pendingRefills.delete(paymaster);
+  if (receipt?.status !== 1) {
+    throw new Error(`Refill transaction ${tx.hash} reverted`);
+  }
+  return true;
+}
+
+/**
+ * Check a paymaster's deposit against PAYMASTER_MIN_DEPOSIT. A low deposit
+ * is refilled (by the leader, if a treasury key is set) or pauses intake.
+ */
+async function checkPaymaster(
+  entryPoint: ethers.Contract,
+  paymaster: string
+): Promise<PaymasterBalance> {
+  const minDeposit = ethers.parseEther(config.paymasterMinDeposit);
+  let deposit: bigint = await entryPoint.balanceOf(paymaster);
+
+  if (deposit < minDeposit && config.treasuryPrivateKey && isLeader()) {
+    try {
+      if (await refillPaymaster(paymaster)) {
+        deposit = await entryPoint.balanceOf(paymaster);
+      }
+    } catch (err) {
+      console.error(
+        `[Treasury] Failed to refill paymaster ${paymaster}:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+
+  const low = deposit < minDeposit;
+  const key = `paymaster:${paymaster}`;
+  if (low) {
+    pausedPaymasters.add(paymaster);
+    await raiseAlert(
+      key,
+      `Paymaster ${paymaster} EntryPoint deposit is ${ethers.formatEther(deposit)} BNB ` +
+        `(minimum ${config.paymasterMinDeposit}); sponsorship intake paused`
+    );
+  } else {
+    pausedPaymasters.delete(paymaster);
+    clearAlert(key, `paymaster ${paymaster} deposit restored, sponsorship intake resumed`);
+  }
+
+  return { address: paymaster, deposit: deposit.toString(), low };
+}
+
+/**
+ * Read every paymaster's EntryPoint deposit and the relayer wallet
+ * balance, refill or pause as needed, and record the result for /health.
+ * A paymaster that cannot be read is left out and keeps its paused state.
+ */
+export async function checkTreasury(): Promise<TreasuryStatus> {
+  const provider = getProvider();
+  const entryPoint = new ethers.Contract(config.contracts.entryPoint, ENTRY_POINT_ABI, provider);
+
+  const paymasters: PaymasterBalance[] = [];
+  for (const paymaster of getPaymasters()) {
+    try {
+      paymasters.push(await checkPaymaster(entryPoint, paymaster));
+    } catch (err) {
+      console.error(
+        `[Treasury] Failed to check paymaster ${paymaster}:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+
+  const relayerAddress = new ethers.Wallet(config.privateKey).address;
+  const balance = await provider.getBalance(relayerAddress);
+  const low = balance < ethers.parseEther(config.relayerMinBalance);
+  relayerWalletLow = low;
+  if (low) {
+    await raiseAlert(
+      "relayer",
+      `Relayer wallet ${relayerAddress} holds ${ethers.formatEther(balance)} BNB ` +
+        `(minimum ${config.relayerMinBalance})`
+    );
+  } else {
+    clearAlert("relayer", `relayer wallet ${relayerAddress} funded`);
+  }
+
+  latestStatus = {
+    checkedAt: new Date(),
+    paymasters,
+    relayerWallet: { address: relayerAddress, balance: balance.toString(), low },
+    pausedPaymasters: [...pausedPaymasters],
+  };
+  return latestStatus;
+}
+
+/**
+ * The last treasury check, or null before the first one.
+ */
+export function getTreasuryStatus(): TreasuryStatus | null {
+  return latestStatus;
+}
+
+/**
+ * Throw "Sponsorship paused: ..." if intake through `paymaster` is paused:
+ * its EntryPoint deposit is below PAYMASTER_MIN_DEPOSIT, or the built-in
+ * bundler's wallet is below RELAYER_MIN_BALANCE.
+ */
+export function assertSponsorshipAvailable(paymaster: string): void {
+  if (pausedPaymasters.has(paymaster.toLowerCase())) {
+    throw new Error("Sponsorship paused: paymaster deposit is below the minimum");
+  }
+  if (relayerWalletLow && config.bundlerMode === "builtin") {
+    throw new Error("Sponsorship paused: relayer wallet balance is below the minimum");
+  }
+}
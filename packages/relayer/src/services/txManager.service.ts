@@ -0,0 +1,519 @@
+import { ethers } from "ethers";
+import { config } from "../config";
+import { ADVISORY_LOCKS, query, withAdvisoryLock } from "../db";
+
+/**
+ * Single sender for the relayer hot wallet. Sends are serialized through
+ * one queue that owns the nonce (and, across replicas, an advisory lock),
+ * every signed transaction is persisted in relayer_transactions before it
+ * is broadcast, and transactions left unconfirmed for TX_REPLACE_AFTER_MS
+ * are re-sent at the same nonce with bumped fees. Pending rows are
+ * reconciled against the chain on startup.
+ */
+
+export interface TransactionRequest {
+  to: string;
+  data: string;
+  value?: bigint;
+  /** Gas limit; estimated (plus headroom) when omitted */
+  gasLimit?: bigint;
+  /** What the transaction is for, e.g. "withdrawal" or "asp_root" */
+  purpose: string;
+  /** Id of the record it belongs to (withdrawal id, root, commitment) */
+  reference?: string;
+}
+
+export interface ManagedTransaction {
+  id: string;
+  hash: string;
+  nonce: number;
+}
+
+export type TxStatus = "pending" | "confirmed" | "reverted" | "dropped";
+
+/**
+ * Thrown when a bounded wait runs out while the transaction is still
+ * pending. It is still tracked and fee-bumped; wait on it again later.
+ */
+export class TransactionPendingError extends Error {
+  readonly txId: string;
+
+  constructor(txId: string, timeoutMs: number) {
+    super(`Transaction ${txId} still pending after ${timeoutMs} ms`);
+    this.name = "TransactionPendingError";
+    this.txId = txId;
+  }
+}
+
+type TxRow = {
+  id: string;
+  nonce: string;
+  tx_hash: string;
+  replaced_hashes: string[];
+  raw_tx: string;
+  to_address: string;
+  data: string;
+  value: string;
+  gas_limit: string;
+  gas_price: string | null;
+  max_fee_per_gas: string | null;
+  max_priority_fee_per_gas: string | null;
+  status: TxStatus;
+  attempts: number;
+  last_sent_at: Date;
+};
+
+interface Fees {
+  gasPrice: bigint | null;
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+}
+
+// Headroom added to estimated gas limits, in percent
+const GAS_LIMIT_HEADROOM = 20n;
+
+// Nodes reject same-nonce replacements that raise fees by less than 10%
+const MIN_REPLACEMENT_BUMP_PERCENT = 10;
+
+// Broadcast errors after which the transaction may still have reached the node
+const AMBIGUOUS_SEND_ERRORS = new Set(["NETWORK_ERROR", "TIMEOUT", "SERVER_ERROR", "UNKNOWN_ERROR"]);
+
+let provider: ethers.JsonRpcProvider | null = null;
+let wallet: ethers.Wallet | null = null;
+
+let sendQueue: Promise<unknown> = Promise.resolve();
+
+// One confirmation loop per transaction, shared by every waiter
+const waiters = new Map<string, Promise<ethers.TransactionReceipt>>();
+
+function getSigner(): ethers.Wallet {
+  if (!wallet) {
+    provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    wallet = new ethers.Wallet(config.privateKey, provider);
+  }
+  return wallet;
+}
+
+function getProvider(): ethers.JsonRpcProvider {
+  getSigner();
+  return provider!;
+}
+
+/**
+ * Run fn after every previously queued send has finished, holding the
+ * nonce lock so replicas sharing the wallet take turns.
+ */
+function enqueue<T>(fn: () => Promise<T>): Promise<T> {
+  const result = sendQueue.then(() => withAdvisoryLock(ADVISORY_LOCKS.txNonce, fn));
+  sendQueue = result.catch(() => undefined);
+  return result;
+}
+
+/**
+ * Next nonce: past both the node's pending count and every nonce recorded
+ * as pending, which covers transactions another replica just sent. Only
+ * called under the nonce lock.
+ */
+async function resolveNextNonce(address: string): Promise<number> {
+  const chainNonce = await getProvider().getTransactionCount(address, "pending");
+  const stored = await query<{ max_nonce: string | null }>(
+    "SELECT MAX(nonce) AS max_nonce FROM relayer_transactions WHERE from_address = $1 AND status = 'pending'",
+    [address.toLowerCase()]
+  );
+  const storedNext =
+    stored.rows[0].max_nonce !== null ? parseInt(stored.rows[0].max_nonce, 10) + 1 : 0;
+
+  return Math.max(chainNonce, storedNext);
+}
+
+function capFee(fee: bigint): bigint {
+  const cap = ethers.parseUnits(config.txMaxGasPriceGwei, "gwei");
+  return fee > cap ? cap : fee;
+}
+
+async function currentFees(): Promise<Fees> {
+  const feeData = await getProvider().getFeeData();
+  if (feeData.maxFeePerGas !== null && feeData.maxPriorityFeePerGas !== null) {
+    return {
+      gasPrice: null,
+      maxFeePerGas: capFee(feeData.maxFeePerGas),
+      maxPriorityFeePerGas: capFee(feeData.maxPriorityFeePerGas),
+    };
+  }
+  if (feeData.gasPrice === null) {
+    throw new Error("Unable to read gas price from the RPC node");
+  }
+  return { gasPrice: capFee(feeData.gasPrice), maxFeePerGas: null, maxPriorityFeePerGas: null };
+}
+
+function txFields(fees: Fees): Partial<ethers.TransactionRequest> {
+  return fees.gasPrice !== null
+    ? { type: 0, gasPrice: fees.gasPrice }
+    : { type: 2, maxFeePerGas: fees.maxFeePerGas, maxPriorityFeePerGas: fees.maxPriorityFeePerGas };
+}
+
+function isAmbiguousSendError(err: unknown): boolean {
+  return AMBIGUOUS_SEND_ERRORS.has((err as { code?: string })?.code ?? "");
+}
+
+/**
+ * Sign and broadcast a transaction from the relayer wallet. Resolves once
+ * the node has accepted it; use waitForTransaction for the receipt.
+ */
+export function sendTransaction(request: TransactionRequest): Promise<ManagedTransaction> {
+  return enqueue(async () => {
+    const signer = getSigner();
+    const from = signer.address;
+    const value = request.value ?? 0n;
+
+    // Estimate before taking a nonce so a reverting call does not leave a gap
+    const gasLimit =
+      request.gasLimit ??
+      ((await getProvider().estimateGas({ from, to: request.to, data: request.data, value })) *
+        (100n + GAS_LIMIT_HEADROOM)) /
+        100n;
+    const fees = await currentFees();
+    const nonce = await resolveNextNonce(from);
+
+    const rawTx = await signer.signTransaction({
+      to: request.to,
+      data: request.data,
+      value,
+      gasLimit,
+      nonce,
+      chainId: config.chainId,
+      ...txFields(fees),
+    });
+    const hash = ethers.keccak256(rawTx);
+
+    const inserted = await query<{ id: string }>(
+      `INSERT INTO relayer_transactions
+         (from_address, nonce, purpose, reference, to_address, data, value, gas_limit,
+          gas_price, max_fee_per_gas, max_priority_fee_per_gas, tx_hash, raw_tx)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       RETURNING id`,
+      [
+        from.toLowerCase(),
+        nonce,
+        request.purpose,
+        request.reference ?? null,
+        request.to.toLowerCase(),
+        request.data,
+        value.toString(),
+        gasLimit.toString(),
+        fees.gasPrice?.toString() ?? null,
+        fees.maxFeePerGas?.toString() ?? null,
+        fees.maxPriorityFeePerGas?.toString() ?? null,
+        hash,
+        rawTx,
+      ]
+    );
+    const id = inserted.rows[0].id;
+
+    try {
+      await getProvider().broadcastTransaction(rawTx);
+    } catch (err) {
+      if (!isAmbiguousSendError(err)) {
+        // Rejected outright: the nonce is still free
+        await query("DELETE FROM relayer_transactions WHERE id = $1", [id]);
+        throw err;
+      }
+      console.warn(
+        `[TxManager] Broadcast of ${request.purpose} tx (nonce ${nonce}) uncertain, will rebroadcast:`,
+        err instanceof Error ? err.message : err
+      );
+    }
+
+    console.log(`[TxManager] Sent ${request.purpose} tx ${hash} (nonce ${nonce})`);
+    return { id, hash, nonce };
+  });
+}
+
+async function loadTransaction(id: string): Promise<TxRow> {
+  const result = await query<TxRow>("SELECT * FROM relayer_transactions WHERE id = $1", [id]);
+  if (result.rows.length === 0) {
+    throw new Error(`Transaction ${id} not found`);
+  }
+  return result.rows[0];
+}
+
+async function findReceipt(row: TxRow): Promise<ethers.TransactionReceipt | null> {
+  for (const hash of [row.tx_hash, ...row.replaced_hashes]) {
+    const receipt = await getProvider().getTransactionReceipt(hash);
+    if (receipt) return receipt;
+  }
+  return null;
+}
+
+async function finalize(
+  row: TxRow,
+  status: TxStatus,
+  receipt: ethers.TransactionReceipt | null
+): Promise<void> {
+  await query(
+    `UPDATE relayer_transactions
+     SET status = $1, tx_hash = COALESCE($2, tx_hash), block_number = $3, gas_used = $4,
+         confirmed_at = CASE WHEN $3::bigint IS NULL THEN NULL ELSE NOW() END
+     WHERE id = $5`,
+    [
+      status,
+      receipt?.hash ?? null,
+      receipt?.blockNumber ?? null,
+      receipt?.gasUsed.toString() ?? null,
+      row.id,
+    ]
+  );
+}
+
+function bump(fee: string | null, percent: bigint): bigint | null {
+  return fee === null ? null : capFee((BigInt(fee) * (100n + percent) + 99n) / 100n);
+}
+
+/**
+ * Re-sign a stuck transaction at the same nonce with higher fees.
+ */
+function replaceTransaction(stale: TxRow): Promise<void> {
+  return enqueue(async () => {
+    // Another waiter (possibly on another replica) may have bumped it already
+    const row = await loadTransaction(stale.id);
+    if (
+      row.status !== "pending" ||
+      Date.now() - row.last_sent_at.getTime() < config.txReplaceAfterMs
+    ) {
+      return;
+    }
+
+    const percent = BigInt(Math.max(config.txGasBumpPercent, MIN_REPLACEMENT_BUMP_PERCENT));
+    const fees: Fees = {
+      gasPrice: bump(row.gas_price, percent),
+      maxFeePerGas: bump(row.max_fee_per_gas, percent),
+      maxPriorityFeePerGas: bump(row.max_priority_fee_per_gas, percent),
+    };
+    const previous = row.gas_price ?? row.max_fee_per_gas;
+    if (previous !== null && (fees.gasPrice ?? fees.maxFeePerGas) === BigInt(previous)) {
+      console.warn(
+        `[TxManager] Tx ${row.tx_hash} (nonce ${row.nonce}) is at the ${config.txMaxGasPriceGwei} gwei cap, not replacing`
+      );
+      return;
+    }
+
+    const rawTx = await getSigner().signTransaction({
+      to: row.to_address,
+      data: row.data,
+      value: BigInt(row.value),
+      gasLimit: BigInt(row.gas_limit),
+      nonce: parseInt(row.nonce, 10),
+      chainId: config.chainId,
+      ...txFields(fees),
+    });
+    const hash = ethers.keccak256(rawTx);
+
+    try {
+      await getProvider().broadcastTransaction(rawTx);
+    } catch (err) {
+      // Typically "nonce too low": the previous hash was mined meanwhile
+      console.warn(
+        `[TxManager] Replacement for ${row.tx_hash} not accepted:`,
+        err instanceof Error ? err.message : err
+      );
+      return;
+    }
+
+    await query(
+      `UPDATE relayer_transactions
+       SET tx_hash = $1, raw_tx = $2, replaced_hashes = array_append(replaced_hashes, tx_hash),
+           gas_price = $3, max_fee_per_gas = $4, max_priority_fee_per_gas = $5,
+           attempts = attempts + 1, last_sent_at = NOW()
+       WHERE id = $6`,
+      [
+        hash,
+        rawTx,
+        fees.gasPrice?.toString() ?? null,
+        fees.maxFeePerGas?.toString() ?? null,
+        fees.maxPriorityFeePerGas?.toString() ?? null,
+        row.id,
+      ]
+    );
+    console.log(`[TxManager] Replaced ${row.tx_hash} with ${hash} (nonce ${row.nonce})`);
+  });
+}
+
+/**
+ * Check a pending transaction once: record its receipt, mark it dropped if
+ * its nonce was used by a transaction we did not send, or replace it if it
+ * has been pending too long.
+ */
+async function checkTransaction(row: TxRow): Promise<ethers.TransactionReceipt | null> {
+  let receipt = await findReceipt(row);
+  if (receipt) {
+    await finalize(row, receipt.status === 1 ? "confirmed" : "reverted", receipt);
+    return receipt;
+  }
+
+  const minedNonce = await getProvider().getTransactionCount(getSigner().address, "latest");
+  if (minedNonce > parseInt(row.nonce, 10)) {
+    // The receipt may have landed between the two reads
+    receipt = await findReceipt(row);
+    if (receipt) {
+      await finalize(row, receipt.status === 1 ? "confirmed" : "reverted", receipt);
+      return receipt;
+    }
+    await finalize(row, "dropped", null);
+    return null;
+  }
+
+  if (Date.now() - row.last_sent_at.getTime() >= config.txReplaceAfterMs) {
+    await replaceTransaction(row);
+  }
+  return null;
+}
+
+async function confirm(id: string): Promise<ethers.TransactionReceipt> {
+  for (;;) {
+    const row = await loadTransaction(id);
+    if (row.status === "dropped") {
+      throw new Error(`Transaction nonce ${row.nonce} was used by another transaction`);
+    }
+
+    let receipt: ethers.TransactionReceipt | null = null;
+    if (row.status === "pending") {
+      try {
+        receipt = await checkTransaction(row);
+      } catch (err) {
+        console.warn(
+          `[TxManager] Failed to check tx ${row.tx_hash}:`,
+          err instanceof Error ? err.message : err
+        );
+      }
+    } else {
+      receipt = await findReceipt(row);
+    }
+
+    if (receipt) {
+      if (receipt.status !== 1) {
+        throw new Error(`Transaction ${receipt.hash} reverted`);
+      }
+      return receipt;
+    }
+    if ((await loadTransaction(id)).status === "dropped") continue;
+
+    await new Promise((resolve) => setTimeout(resolve, config.txPollIntervalMs));
+  }
+}
+
+/**
+ * Wait for a managed transaction (or whichever replacement of it is mined).
+ * Throws if it reverted or its nonce was taken by another transaction, or
+ * TransactionPendingError if it is not mined within timeoutMs.
+ */
+export function waitForTransaction(
+  id: string,
+  timeoutMs?: number
+): Promise<ethers.TransactionReceipt> {
+  let waiter = waiters.get(id);
+  if (!waiter) {
+    waiter = confirm(id).finally(() => waiters.delete(id));
+    waiters.set(id, waiter);
+  }
+  if (timeoutMs === undefined) return waiter;
+
+  // The confirmation loop outlives a timed-out wait; its outcome is recorded
+  // in relayer_transactions either way
+  waiter.catch(() => undefined);
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new TransactionPendingError(id, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([waiter, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Send a transaction and wait for its receipt, at most timeoutMs if given.
+ * onSent is called with the first hash once the node has accepted it.
+ */
+export async function sendAndWait(
+  request: TransactionRequest,
+  onSent?: (tx: ManagedTransaction) => Promise<unknown>,
+  timeoutMs?: number
+): Promise<ethers.TransactionReceipt> {
+  const tx = await sendTransaction(request);
+  if (onSent) await onSent(tx);
+  return waitForTransaction(tx.id, timeoutMs);
+}
+
+/**
+ * Current status of a managed transaction.
+ */
+export async function getTransactionStatus(id: string): Promise<TxStatus> {
+  return (await loadTransaction(id)).status;
+}
+
+/**
+ * The receipt of a managed transaction or whichever replacement of it was
+ * mined, or null if none has been.
+ */
+export async function findTransactionReceipt(
+  id: string
+): Promise<ethers.TransactionReceipt | null> {
+  return findReceipt(await loadTransaction(id));
+}
+
+/**
+ * The latest transaction sent for a record, whatever its status.
+ */
+export async function findTransaction(
+  purpose: string,
+  reference: string
+): Promise<ManagedTransaction | null> {
+  const result = await query<{ id: string; tx_hash: string; nonce: string }>(
+    `SELECT id, tx_hash, nonce FROM relayer_transactions
+     WHERE purpose = $1 AND reference = $2
+     ORDER BY created_at DESC LIMIT 1`,
+    [purpose, reference]
+  );
+  if (result.rows.length === 0) return null;
+  const row = result.rows[0];
+  return { id: row.id, hash: row.tx_hash, nonce: parseInt(row.nonce, 10) };
+}
+
+/**
+ * Reconcile transactions left pending by a previous run or a replica that
+ * went away: record those that were mined, rebroadcast the rest and resume
+ * tracking them. Returns the number still pending.
+ */
+export async function reconcilePendingTransactions(): Promise<number> {
+  const address = getSigner().address;
+
+  const result = await query<TxRow>(
+    `SELECT * FROM relayer_transactions
+     WHERE from_address = $1 AND status = 'pending'
+     ORDER BY nonce ASC`,
+    [address.toLowerCase()]
+  );
+
+  let stillPending = 0;
+  for (const row of result.rows) {
+    const receipt = await checkTransaction(row);
+    if (receipt) continue;
+    const current = await loadTransaction(row.id);
+    if (current.status !== "pending") continue;
+
+    try {
+      await getProvider().broadcastTransaction(current.raw_tx);
+    } catch {
+      // Already known to the node, or replaced below on the next check
+    }
+    stillPending++;
+    waitForTransaction(row.id).catch((err) =>
+      console.error(
+        `[TxManager] ${row.tx_hash} (nonce ${row.nonce}) did not confirm:`,
+        err instanceof Error ? err.message : err
+      )
+    );
+  }
+
+  if (stillPending > 0) {
+    console.log(`[TxManager] Wallet ${address}: tracking ${stillPending} pending transaction(s)`);
+  }
+  return stillPending;
+}
@@ -1,5 +1,10 @@
 import { config } from "../config";
-import { publishASPRoot, getASPTree } from "../services/asp.service";
+import { ADVISORY_LOCKS, withAdvisoryLock } from "../db";
+import {
+  publishASPRoot,
+  getASPTree,
+  processPendingRevocations,
+} from "../services/asp.service";
 
 let intervalHandle: ReturnType<typeof setInterval> | null = null;
 
@@ -7,10 +12,11 @@ let intervalHandle: ReturnType<typeof setInterval> | null = null;
  * Periodically publish the current ASP Merkle root on-chain.
  *
  * The interval is configured via ASP_UPDATE_INTERVAL_MS (default 5 minutes).
- * Each cycle:
- *   1. Checks if the ASP tree has any leaves.
- *   2. Attempts to publish the root on-chain (skips if root is already known).
- *   3. Logs success or failure.
+ * Each cycle, under the ASP publish lock:
+ *   1. Applies pending operator revocations (zeroes leaves, blocks on-chain).
+ *   2. Checks if the ASP tree has any leaves.
+ *   3. Attempts to publish the root on-chain (skips if root is already known).
+ *   4. Logs success or failure.
  */
 export async function startASPUpdater(): Promise<() => void> {
   const intervalMs = config.aspUpdateIntervalMs;
@@ -20,6 +26,31 @@ export async function startASPUpdater(): Promise<() => void> {
   );
 
   async function tick(): Promise<void> {
+    // Held across both steps: an operator-forced publish on any replica
+    // waits for this cycle, and vice versa
+    try {
+      await withAdvisoryLock(ADVISORY_LOCKS.aspPublish, publishCycle);
+    } catch (err) {
+      console.error(
+        "[ASPUpdater] ASP update cycle failed:",
+        err instanceof Error ? err.message : err
+      );
+    }
+  }
+
+  async function publishCycle(): Promise<void> {
+    try {
+      const revoked = await processPendingRevocations();
+      if (revoked > 0) {
+        console.log(`[ASPUpdater] Applied ${revoked} revocation(s)`);
+      }
+    } catch (err) {
+      console.error(
+        "[ASPUpdater] Failed to apply revocations:",
+        err instanceof Error ? err.message : err
+      );
+    }
+
     const tree = getASPTree();
 
     if (tree.leafCount === 0) {
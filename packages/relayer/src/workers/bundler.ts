@@ -0,0 +1,63 @@
+import { config } from "../config";
+import { bundlePendingUserOps } from "../services/mempool.service";
+
+let intervalHandle: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Built-in ERC-4337 bundler (BUNDLER_MODE=builtin).
+ *
+ * Every BUNDLER_INTERVAL_MS, claims pending UserOperations from the
+ * mempool (one per sender, skipping ops another replica is bundling),
+ * re-simulates them and submits them in a single handleOps transaction
+ * with the relayer as beneficiary, then records each op's outcome once
+ * the bundle is mined. Runs on every replica.
+ */
+export async function startBundler(): Promise<() => void> {
+  const intervalMs = config.bundlerIntervalMs;
+
+  console.log(
+    `[Bundler] Starting (interval: ${intervalMs / 1000}s, max ops: ${config.bundleMaxOps})`
+  );
+
+  async function tick(): Promise<void> {
+    if (running) return;
+    running = true;
+
+    try {
+      const result = await bundlePendingUserOps();
+      if (result?.txHash) {
+        console.log(
+          `[Bundler] Bundle ${result.txHash} mined: ${result.included} included, ${result.failed} failed`
+        );
+      }
+    } catch (err) {
+      console.error(
+        "[Bundler] Failed to bundle UserOperations:",
+        err instanceof Error ? err.message : err
+      );
+    } finally {
+      running = false;
+    }
+  }
+
+  // Run immediately on start
+  await tick();
+
+  intervalHandle = setInterval(() => {
+    tick().catch((err) => {
+      console.error(
+        "[Bundler] Unexpected error in tick:",
+        err instanceof Error ? err.message : err
+      );
+    });
+  }, intervalMs);
+
+  return () => {
+    console.log("[Bundler] Stopping...");
+    if (intervalHandle) {
+      clearInterval(intervalHandle);
+      intervalHandle = null;
+    }
+  };
+}
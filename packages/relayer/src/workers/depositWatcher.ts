@@ -1,48 +1,16 @@
 import { ethers } from "ethers";
 import { config } from "../config";
 import { query } from "../db";
-import { processDeposit } from "../services/asp.service";
+import { processDeposit, resetASPTree, rollbackDeposits } from "../services/asp.service";
+import { rebuildPoolTree, recordPoolDeposit } from "../services/pool.service";
+import { getPools, PoolInfo } from "../services/poolRegistry.service";
 
 const PRIVACY_POOL_ABI = [
   "event Deposit(bytes32 indexed commitment, uint32 leafIndex, uint256 timestamp, uint256 denomination)",
 ];
 
-// Minimal ERC-20 pool ABI with token() getter
-const TOKEN_POOL_ABI = [
-  ...PRIVACY_POOL_ABI,
-  "function token() view returns (address)",
-];
-
-interface PoolConfig {
-  address: string;
-  token: string | null; // null = native BNB
-  abi: string[];
-}
-
-/**
- * Get the list of pool contracts to watch.
- */
-function getPoolConfigs(): PoolConfig[] {
-  const pools: PoolConfig[] = [];
-
-  if (config.contracts.privacyPoolBNB) {
-    pools.push({
-      address: config.contracts.privacyPoolBNB,
-      token: null,
-      abi: PRIVACY_POOL_ABI,
-    });
-  }
-
-  if (config.contracts.tokenPool) {
-    pools.push({
-      address: config.contracts.tokenPool,
-      token: "erc20", // Will be resolved at runtime
-      abi: TOKEN_POOL_ABI,
-    });
-  }
-
-  return pools;
-}
+// sync_checkpoints.event_type for the pools' Deposit events
+const DEPOSIT_EVENT = "Deposit";
 
 /**
  * Resolve the depositor address from a transaction hash.
@@ -60,42 +28,143 @@ async function resolveDepositor(
   return tx.from;
 }
 
+// Processed-block hashes kept per pool for reorg detection
+const REORG_TRACKING_DEPTH = 1000;
+
+// Max blocks per eth_getLogs request
+const CHUNK_SIZE = 2000;
+
+/**
+ * Get the last block a pool's deposits were indexed up to. Without a
+ * checkpoint, databases indexed before checkpoints resume from their newest
+ * tracked block or deposit; a fresh database starts at the deploy block.
+ */
+async function getLastProcessedBlock(pool: PoolInfo): Promise<number> {
+  const poolAddress = pool.address;
+  const checkpoint = await query<{ last_block: string }>(
+    "SELECT last_block FROM sync_checkpoints WHERE pool_address = $1 AND event_type = $2",
+    [poolAddress, DEPOSIT_EVENT]
+  );
+  if (checkpoint.rows.length > 0) {
+    return parseInt(checkpoint.rows[0].last_block, 10);
+  }
+
+  const legacy = await query<{ max_block: string | null }>(
+    `SELECT GREATEST(
+       (SELECT MAX(block_number) FROM processed_blocks WHERE pool_address = $1),
+       (SELECT MAX(block_number) FROM deposits WHERE pool_address = $1)
+     ) AS max_block`,
+    [poolAddress]
+  );
+  const maxBlock = legacy.rows[0]?.max_block;
+  if (maxBlock) return parseInt(maxBlock, 10);
+
+  if (pool.deployBlock === 0) {
+    console.warn(
+      `[DepositWatcher] No deploy block configured for ${pool.address.slice(0, 10)}..., scanning from genesis`
+    );
+  }
+  return pool.deployBlock - 1;
+}
+
 /**
- * Get the last processed block from the database.
+ * Move a pool's Deposit checkpoint to `blockNumber`.
  */
-async function getLastProcessedBlock(poolAddress: string): Promise<number> {
-  const result = await query<{ max_block: string | null }>(
-    "SELECT MAX(block_number) as max_block FROM deposits WHERE pool_address = $1",
+async function setCheckpoint(poolAddress: string, blockNumber: number): Promise<void> {
+  await query(
+    `INSERT INTO sync_checkpoints (pool_address, event_type, last_block)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (pool_address, event_type) DO UPDATE SET last_block = EXCLUDED.last_block`,
+    [poolAddress.toLowerCase(), DEPOSIT_EVENT, blockNumber]
+  );
+}
+
+/**
+ * Record the hash of an indexed block.
+ */
+async function recordBlockHash(
+  poolAddress: string,
+  blockNumber: number,
+  blockHash: string
+): Promise<void> {
+  await query(
+    `INSERT INTO processed_blocks (pool_address, block_number, block_hash)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (pool_address, block_number) DO UPDATE SET block_hash = EXCLUDED.block_hash`,
+    [poolAddress.toLowerCase(), blockNumber, blockHash]
+  );
+}
+
+/**
+ * Compare tracked block hashes with the chain, newest first. If the newest
+ * no longer matches, a reorg replaced it: everything above the newest block
+ * that still matches (the fork point) is rolled back — deposits, their ASP
+ * leaves, the pool tree and the tracked hashes — and will be re-indexed.
+ * Revoked commitments stay revoked.
+ * Returns the fork point, or null if there was no reorg.
+ */
+async function detectAndRollbackReorg(
+  provider: ethers.JsonRpcProvider,
+  poolAddress: string
+): Promise<number | null> {
+  const tracked = await query<{ block_number: string; block_hash: string }>(
+    `SELECT block_number, block_hash FROM processed_blocks
+     WHERE pool_address = $1
+     ORDER BY block_number DESC`,
     [poolAddress.toLowerCase()]
   );
-  const maxBlock = result.rows[0]?.max_block;
-  return maxBlock ? parseInt(maxBlock, 10) : 0;
+  if (tracked.rows.length === 0) return null;
+
+  let forkPoint: number | null = null;
+  for (const [i, row] of tracked.rows.entries()) {
+    const blockNumber = parseInt(row.block_number, 10);
+    const block = await provider.getBlock(blockNumber);
+    if (block?.hash === row.block_hash) {
+      if (i === 0) return null; // Newest tracked block still canonical
+      forkPoint = blockNumber;
+      break;
+    }
+  }
+
+  // Nothing tracked survived: roll back to just below the oldest tracked block
+  const oldest = parseInt(tracked.rows[tracked.rows.length - 1].block_number, 10);
+  const rollbackTo = forkPoint ?? oldest - 1;
+
+  console.warn(
+    `[DepositWatcher] Reorg detected on ${poolAddress.slice(0, 10)}..., rolling back to block ${rollbackTo}`
+  );
+
+  // Revoked deposits keep their rows, so replaying them cannot screen them
+  // back into the ASP set; the pool tree is rebuilt without them until then
+  await rollbackDeposits(poolAddress, rollbackTo, true);
+  await query(
+    "DELETE FROM processed_blocks WHERE pool_address = $1 AND block_number > $2",
+    [poolAddress.toLowerCase(), rollbackTo]
+  );
+  await setCheckpoint(poolAddress, rollbackTo);
+  await rebuildPoolTree(poolAddress, rollbackTo);
+
+  return rollbackTo;
 }
 
 /**
- * Process historical deposit events from a given block range.
+ * Process deposit events in a confirmed block range and record the hashes
+ * of the blocks they came from, plus the range's last block. Throws at the
+ * first deposit that cannot be processed, with the checkpoint just below
+ * its block.
  */
-async function processHistoricalDeposits(
+async function processDepositsInRange(
   provider: ethers.JsonRpcProvider,
-  poolConfig: PoolConfig,
+  pool: PoolInfo,
   fromBlock: number,
   toBlock: number
 ): Promise<number> {
   const contract = new ethers.Contract(
-    poolConfig.address,
-    poolConfig.abi,
+    pool.address,
+    PRIVACY_POOL_ABI,
     provider
   );
 
-  let tokenAddress = poolConfig.token;
-  if (tokenAddress === "erc20") {
-    try {
-      tokenAddress = await contract.token();
-    } catch {
-      tokenAddress = null;
-    }
-  }
-
   const filter = contract.filters.Deposit();
   const events = await contract.queryFilter(filter, fromBlock, toBlock);
 
@@ -118,135 +187,181 @@ async function processHistoricalDeposits(
         commitment,
         leafIndex,
         depositor,
-        poolConfig.address.toLowerCase(),
-        tokenAddress,
+        pool.address,
+        pool.token,
         denomination,
         log.blockNumber,
         log.transactionHash
       );
-
-      processed++;
     } catch (err) {
-      console.error(
-        `[DepositWatcher] Error processing deposit ${commitment.slice(0, 10)}...:`,
-        err instanceof Error ? err.message : err
+      // Never index past a deposit that was not stored: the pool tree is
+      // rebuilt from deposits and must not have a gap. Earlier blocks are
+      // done; the next cycle resumes at this deposit's block.
+      await setCheckpoint(pool.address, log.blockNumber - 1);
+      throw new Error(
+        `Deposit ${commitment.slice(0, 10)}... in block ${log.blockNumber} not processed: ` +
+        (err instanceof Error ? err.message : String(err))
       );
     }
+
+    recordPoolDeposit(pool.address, commitment, leafIndex);
+    processed++;
+
+    await recordBlockHash(pool.address, log.blockNumber, log.blockHash);
   }
 
+  const lastBlock = await provider.getBlock(toBlock);
+  if (!lastBlock?.hash) {
+    throw new Error(`Block ${toBlock} not available`);
+  }
+  await recordBlockHash(pool.address, toBlock, lastBlock.hash);
+  await setCheckpoint(pool.address, toBlock);
+
+  await query(
+    "DELETE FROM processed_blocks WHERE pool_address = $1 AND block_number < $2",
+    [pool.address, toBlock - REORG_TRACKING_DEPTH]
+  );
+
   return processed;
 }
 
+/**
+ * Bring one pool up to the confirmed head: roll back any reorged blocks,
+ * then index confirmed blocks after the last processed one in chunks.
+ */
+async function syncPool(
+  provider: ethers.JsonRpcProvider,
+  pool: PoolInfo
+): Promise<void> {
+  await detectAndRollbackReorg(provider, pool.address);
+
+  const currentBlock = await provider.getBlockNumber();
+  const confirmedBlock = currentBlock - config.depositConfirmations;
+  const lastBlock = await getLastProcessedBlock(pool);
+  if (lastBlock >= confirmedBlock) return;
+
+  for (let from = lastBlock + 1; from <= confirmedBlock; from += CHUNK_SIZE) {
+    const to = Math.min(from + CHUNK_SIZE - 1, confirmedBlock);
+    const count = await processDepositsInRange(
+      provider,
+      pool,
+      from,
+      to
+    );
+    if (count > 0) {
+      console.log(
+        `[DepositWatcher] Processed ${count} deposit(s) in blocks ${from}-${to}`
+      );
+    }
+  }
+}
+
+/**
+ * Re-index deposits from `fromBlock` (all pools, or only `poolAddress`) up to
+ * the confirmed head. Deposits from that block on are rolled back — their
+ * ASP leaves zeroed — and replayed through screening; revoked commitments
+ * stay revoked. Reindexing every pool from its deploy block rebuilds the ASP
+ * tree from scratch instead of leaving zeroed leaves behind.
+ *
+ * The relayer must be stopped: it owns the live ASP tree.
+ */
+export async function reindexDeposits(fromBlock: number, poolAddress?: string): Promise<void> {
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  const allPools = getPools();
+  const pools = poolAddress
+    ? allPools.filter((p) => p.address === poolAddress.toLowerCase())
+    : allPools;
+  if (pools.length === 0) {
+    throw new Error(`Pool not found: ${poolAddress}`);
+  }
+
+  const fromScratch = pools.length === allPools.length && pools.every((p) => fromBlock <= p.deployBlock);
+  if (fromScratch) {
+    await resetASPTree();
+  }
+
+  for (const pool of pools) {
+    const startBlock = Math.max(fromBlock, pool.deployBlock);
+    console.log(
+      `[DepositWatcher] Reindexing ${pool.address.slice(0, 10)}... from block ${startBlock}`
+    );
+
+    await rollbackDeposits(pool.address, startBlock - 1, true);
+    await query(
+      "DELETE FROM processed_blocks WHERE pool_address = $1 AND block_number >= $2",
+      [pool.address, startBlock]
+    );
+    await setCheckpoint(pool.address, startBlock - 1);
+    await rebuildPoolTree(pool.address, startBlock - 1);
+
+    await syncPool(provider, pool);
+  }
+}
+
 /**
  * Start the deposit watcher.
  *
- * - On startup, syncs any missed historical deposits from the last processed block.
- * - Then subscribes to real-time Deposit events on each pool contract.
+ * Deposits are indexed only once they are DEPOSIT_CONFIRMATIONS blocks deep.
+ * Every DEPOSIT_POLL_INTERVAL_MS each pool is checked for reorgs against the
+ * tracked block hashes (rolling back affected deposits and ASP leaves), then
+ * synced up to the confirmed head. The first cycle catches up on any blocks
+ * missed while the relayer was down.
  */
 export async function startDepositWatcher(): Promise<() => void> {
   const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const pools = getPoolConfigs();
-  const cleanupFns: (() => void)[] = [];
+  const pools = getPools();
+  let intervalHandle: ReturnType<typeof setInterval> | null = null;
+  let running = false;
 
   console.log(
-    `[DepositWatcher] Starting watcher for ${pools.length} pool(s)...`
+    `[DepositWatcher] Starting watcher for ${pools.length} pool(s) ` +
+    `(confirmations: ${config.depositConfirmations}, poll: ${config.depositPollIntervalMs}ms)...`
   );
 
-  for (const poolConfig of pools) {
-    // Historical sync
-    const lastBlock = await getLastProcessedBlock(poolConfig.address);
-    const currentBlock = await provider.getBlockNumber();
-
-    if (lastBlock < currentBlock) {
-      const startBlock = lastBlock > 0 ? lastBlock + 1 : Math.max(currentBlock - 10000, 0);
-      console.log(
-        `[DepositWatcher] Syncing ${poolConfig.address.slice(0, 10)}... from block ${startBlock} to ${currentBlock}`
-      );
-
-      // Process in chunks to avoid RPC limits
-      const CHUNK_SIZE = 2000;
-      for (let from = startBlock; from <= currentBlock; from += CHUNK_SIZE) {
-        const to = Math.min(from + CHUNK_SIZE - 1, currentBlock);
-        const count = await processHistoricalDeposits(
-          provider,
-          poolConfig,
-          from,
-          to
-        );
-        if (count > 0) {
-          console.log(
-            `[DepositWatcher] Processed ${count} historical deposit(s) in blocks ${from}-${to}`
+  async function tick(): Promise<void> {
+    // A long catch-up can outlast the interval; never overlap cycles
+    if (running) return;
+    running = true;
+    try {
+      for (const pool of pools) {
+        try {
+          await syncPool(provider, pool);
+        } catch (err) {
+          console.error(
+            `[DepositWatcher] Failed to sync ${pool.address.slice(0, 10)}...:`,
+            err instanceof Error ? err.message : err
           );
         }
       }
+    } finally {
+      running = false;
     }
+  }
 
-    // Real-time event subscription
-    const contract = new ethers.Contract(
-      poolConfig.address,
-      poolConfig.abi,
-      provider
-    );
-
-    let tokenAddress = poolConfig.token;
-    if (tokenAddress === "erc20") {
-      try {
-        tokenAddress = await contract.token();
-      } catch {
-        tokenAddress = null;
-      }
-    }
+  // Catch up before serving
+  await tick();
 
-    const listener = async (
-      commitment: string,
-      leafIndex: bigint,
-      timestamp: bigint,
-      denomination: bigint,
-      event: ethers.EventLog
-    ) => {
-      console.log(
-        `[DepositWatcher] New deposit detected: ${commitment.slice(0, 10)}... (leaf ${leafIndex})`
+  intervalHandle = setInterval(() => {
+    tick().catch((err) => {
+      console.error(
+        "[DepositWatcher] Unexpected error in tick:",
+        err instanceof Error ? err.message : err
       );
-
-      try {
-        const depositor = await resolveDepositor(
-          provider,
-          event.transactionHash
-        );
-
-        await processDeposit(
-          commitment,
-          Number(leafIndex),
-          depositor,
-          poolConfig.address.toLowerCase(),
-          tokenAddress,
-          denomination.toString(),
-          event.blockNumber,
-          event.transactionHash
-        );
-      } catch (err) {
-        console.error(
-          `[DepositWatcher] Error processing real-time deposit:`,
-          err instanceof Error ? err.message : err
-        );
-      }
-    };
-
-    contract.on("Deposit", listener);
-    cleanupFns.push(() => {
-      contract.off("Deposit", listener);
     });
+  }, config.depositPollIntervalMs);
 
+  for (const pool of pools) {
     console.log(
-      `[DepositWatcher] Listening for deposits on ${poolConfig.address.slice(0, 10)}...`
+      `[DepositWatcher] Watching deposits on ${pool.address.slice(0, 10)}...`
     );
   }
 
   // Return cleanup function
   return () => {
     console.log("[DepositWatcher] Stopping...");
-    for (const cleanup of cleanupFns) {
-      cleanup();
+    if (intervalHandle) {
+      clearInterval(intervalHandle);
+      intervalHandle = null;
     }
   };
 }
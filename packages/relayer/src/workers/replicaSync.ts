@@ -0,0 +1,63 @@
+import { config } from "../config";
+import { refreshASPSnapshots, refreshASPTree } from "../services/asp.service";
+import { isLeader } from "../services/leader.service";
+import { refreshPoolTrees } from "../services/pool.service";
+
+let intervalHandle: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Keep a follower replica's in-memory state current.
+ *
+ * Only the leader indexes deposits and publishes ASP roots, but every
+ * replica serves Merkle proofs from memory. Every REPLICA_SYNC_INTERVAL_MS
+ * a follower reloads the ASP tree if the persisted one changed, picks up
+ * newly confirmed ASP roots and rebuilds pool trees with new deposits.
+ * The leader skips the cycle; its state is the one being persisted.
+ */
+export async function startReplicaSync(): Promise<() => void> {
+  const intervalMs = config.replicaSyncIntervalMs;
+
+  console.log(`[ReplicaSync] Starting (interval: ${intervalMs / 1000}s)`);
+
+  async function tick(): Promise<void> {
+    if (running || isLeader()) return;
+    running = true;
+
+    try {
+      if (await refreshASPTree()) {
+        console.log("[ReplicaSync] Reloaded ASP tree");
+      }
+      await refreshASPSnapshots();
+
+      const rebuilt = await refreshPoolTrees();
+      if (rebuilt > 0) {
+        console.log(`[ReplicaSync] Rebuilt ${rebuilt} pool tree(s)`);
+      }
+    } catch (err) {
+      console.error(
+        "[ReplicaSync] Failed to refresh state:",
+        err instanceof Error ? err.message : err
+      );
+    } finally {
+      running = false;
+    }
+  }
+
+  intervalHandle = setInterval(() => {
+    tick().catch((err) => {
+      console.error(
+        "[ReplicaSync] Unexpected error in tick:",
+        err instanceof Error ? err.message : err
+      );
+    });
+  }, intervalMs);
+
+  return () => {
+    console.log("[ReplicaSync] Stopping...");
+    if (intervalHandle) {
+      clearInterval(intervalHandle);
+      intervalHandle = null;
+    }
+  };
+}
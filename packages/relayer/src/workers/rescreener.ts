@@ -0,0 +1,76 @@
+import { config } from "../config";
+import {
+  retryPendingScreenings,
+  rescreenApprovedDeposits,
+} from "../services/asp.service";
+
+let intervalHandle: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Periodically revisit deposit screenings.
+ *
+ * The interval is configured via RESCREEN_INTERVAL_MS (default 1 minute).
+ * Each cycle:
+ *   1. Retries pending screenings whose backoff has elapsed
+ *      (SCREENING_RETRY_BASE_MS doubling up to SCREENING_RETRY_MAX_MS).
+ *   2. Re-screens approved depositors not checked within
+ *      RESCREEN_APPROVED_AFTER_MS; new hits are queued for revocation and
+ *      applied by the ASP updater.
+ * At most RESCREEN_BATCH_SIZE deposits are handled per step.
+ */
+export async function startRescreener(): Promise<() => void> {
+  const intervalMs = config.rescreenIntervalMs;
+
+  console.log(
+    `[Rescreener] Starting (interval: ${intervalMs / 1000}s, batch: ${config.rescreenBatchSize})`
+  );
+
+  async function tick(): Promise<void> {
+    // Screening calls can outlast the interval; never overlap cycles
+    if (running) return;
+    running = true;
+
+    try {
+      const retried = await retryPendingScreenings(config.rescreenBatchSize);
+      if (retried > 0) {
+        console.log(`[Rescreener] Retried ${retried} pending screening(s)`);
+      }
+
+      const { screened, flagged } = await rescreenApprovedDeposits(config.rescreenBatchSize);
+      if (screened > 0) {
+        console.log(
+          `[Rescreener] Re-screened ${screened} approved deposit(s), ${flagged} newly flagged`
+        );
+      }
+    } catch (err) {
+      console.error(
+        "[Rescreener] Failed to re-screen deposits:",
+        err instanceof Error ? err.message : err
+      );
+    } finally {
+      running = false;
+    }
+  }
+
+  // Run immediately on start
+  await tick();
+
+  // Then run periodically
+  intervalHandle = setInterval(() => {
+    tick().catch((err) => {
+      console.error(
+        "[Rescreener] Unexpected error in tick:",
+        err instanceof Error ? err.message : err
+      );
+    });
+  }, intervalMs);
+
+  return () => {
+    console.log("[Rescreener] Stopping...");
+    if (intervalHandle) {
+      clearInterval(intervalHandle);
+      intervalHandle = null;
+    }
+  };
+}
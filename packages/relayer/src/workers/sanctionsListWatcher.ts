@@ -0,0 +1,45 @@
+import * as fs from "fs";
+import { config } from "../config";
+import { refreshSanctionsList } from "../services/sanctions.service";
+
+/**
+ * Re-ingest the OFAC list whenever OFAC_LIST_PATH changes on disk.
+ *
+ * The file is polled (fs.watchFile) every OFAC_LIST_POLL_MS, which also
+ * works for files replaced by rename or on network mounts. A new export is
+ * parsed, stored as a new list version and swapped in without a restart.
+ */
+export async function startSanctionsListWatcher(): Promise<() => void> {
+  const filePath = config.ofacListPath;
+  let refreshing: Promise<void> = Promise.resolve();
+
+  console.log(
+    `[SanctionsWatcher] Watching ${filePath} (poll: ${config.ofacListPollMs / 1000}s)`
+  );
+
+  // Initial ingest and load
+  await refreshSanctionsList();
+
+  const listener = (curr: fs.Stats, prev: fs.Stats) => {
+    if (curr.mtimeMs === prev.mtimeMs && curr.size === prev.size) return;
+    if (curr.mtimeMs === 0) return; // File removed; keep the active version
+
+    console.log(`[SanctionsWatcher] ${filePath} changed, reloading`);
+    // Serialize reloads so a burst of writes cannot ingest concurrently
+    refreshing = refreshing
+      .then(() => refreshSanctionsList())
+      .catch((err) => {
+        console.error(
+          "[SanctionsWatcher] Reload failed:",
+          err instanceof Error ? err.message : err
+        );
+      });
+  };
+
+  fs.watchFile(filePath, { interval: config.ofacListPollMs }, listener);
+
+  return () => {
+    console.log("[SanctionsWatcher] Stopping...");
+    fs.unwatchFile(filePath, listener);
+  };
+}
@@ -0,0 +1,280 @@
+import { ethers } from "ethers";
+import { config } from "../config";
+import { query } from "../db";
+import { getPaymasters, getPools } from "../services/poolRegistry.service";
+
+const ENTRY_POINT_ABI = [
+  "event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)",
+  "event UserOperationRevertReason(bytes32 indexed userOpHash, address indexed sender, uint256 nonce, bytes revertReason)",
+];
+
+const PRIVACY_PAYMASTER_ABI = [
+  "event GasSponsored(bytes32 indexed nullifierHash, address indexed sender, uint256 gasCost)",
+];
+
+// sync_checkpoints.event_type for the EntryPoint scan (keyed by its address)
+const SPONSORSHIP_EVENT = "UserOperationEvent";
+
+// Max blocks per eth_getLogs request
+const CHUNK_SIZE = 2000;
+
+const entryPointInterface = new ethers.Interface(ENTRY_POINT_ABI);
+const paymasterInterface = new ethers.Interface(PRIVACY_PAYMASTER_ABI);
+
+interface OpOutcome {
+  userOpHash: string;
+  sender: string;
+  paymaster: string;
+  success: boolean;
+  actualGasCost: bigint;
+  txHash: string;
+  blockNumber: number;
+  revertReason: string | null;
+}
+
+/**
+ * Get the last block sponsorship events were indexed up to. A fresh
+ * database starts at the earliest pool deploy block (paymasters are
+ * deployed after their pools), or at the confirmed head if none is set.
+ */
+async function getLastProcessedBlock(confirmedBlock: number): Promise<number> {
+  const checkpoint = await query<{ last_block: string }>(
+    "SELECT last_block FROM sync_checkpoints WHERE pool_address = $1 AND event_type = $2",
+    [config.contracts.entryPoint.toLowerCase(), SPONSORSHIP_EVENT]
+  );
+  if (checkpoint.rows.length > 0) {
+    return parseInt(checkpoint.rows[0].last_block, 10);
+  }
+
+  const deployBlocks = getPools()
+    .map((pool) => pool.deployBlock)
+    .filter((block) => block > 0);
+  if (deployBlocks.length === 0) {
+    console.warn(
+      "[SponsorshipWatcher] No pool deploy block configured, indexing from the confirmed head"
+    );
+    return confirmedBlock;
+  }
+  return Math.min(...deployBlocks) - 1;
+}
+
+async function setCheckpoint(blockNumber: number): Promise<void> {
+  await query(
+    `INSERT INTO sync_checkpoints (pool_address, event_type, last_block)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (pool_address, event_type) DO UPDATE SET last_block = EXCLUDED.last_block`,
+    [config.contracts.entryPoint.toLowerCase(), SPONSORSHIP_EVENT, blockNumber]
+  );
+}
+
+/**
+ * Read the outcome of every UserOperation our paymasters sponsored in a
+ * block range, with the revert reason of those whose execution reverted.
+ */
+async function fetchOpOutcomes(
+  provider: ethers.JsonRpcProvider,
+  paymasters: string[],
+  fromBlock: number,
+  toBlock: number
+): Promise<OpOutcome[]> {
+  const logs = await provider.getLogs({
+    address: config.contracts.entryPoint,
+    topics: [
+      entryPointInterface.getEvent("UserOperationEvent")!.topicHash,
+      null,
+      null,
+      paymasters.map((paymaster) => ethers.zeroPadValue(paymaster, 32)),
+    ],
+    fromBlock,
+    toBlock,
+  });
+
+  const outcomes: OpOutcome[] = logs.map((log) => {
+    const event = entryPointInterface.parseLog(log)!;
+    return {
+      userOpHash: (event.args.userOpHash as string).toLowerCase(),
+      sender: (event.args.sender as string).toLowerCase(),
+      paymaster: (event.args.paymaster as string).toLowerCase(),
+      success: event.args.success as boolean,
+      actualGasCost: event.args.actualGasCost as bigint,
+      txHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      revertReason: null,
+    };
+  });
+
+  const reverted = outcomes.filter((op) => !op.success);
+  if (reverted.length > 0) {
+    const reasonLogs = await provider.getLogs({
+      address: config.contracts.entryPoint,
+      topics: [
+        entryPointInterface.getEvent("UserOperationRevertReason")!.topicHash,
+        reverted.map((op) => op.userOpHash),
+      ],
+      fromBlock,
+      toBlock,
+    });
+    for (const log of reasonLogs) {
+      const event = entryPointInterface.parseLog(log)!;
+      const op = reverted.find(
+        (o) => o.userOpHash === (event.args.userOpHash as string).toLowerCase()
+      );
+      if (op) op.revertReason = event.args.revertReason as string;
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Record one sponsored op's outcome. Matched by the sponsorship's
+ * nullifier when a GasSponsored event identifies it, which also corrects
+ * a user_op_hash recorded before the op was submitted; otherwise by hash.
+ */
+async function recordOutcome(op: OpOutcome, nullifierHash: string | null): Promise<boolean> {
+  const status = op.success ? "confirmed" : "failed";
+  const error = op.success ? null : `Execution reverted: ${op.revertReason ?? "no reason"}`;
+
+  const result = nullifierHash
+    ? await query(
+        `UPDATE sponsorships
+         SET status = $1, user_op_hash = $2, actual_gas_cost = $3, tx_hash = $4,
+             block_number = $5, error_message = $6
+         WHERE nullifier_hash = $7`,
+        [status, op.userOpHash, op.actualGasCost.toString(), op.txHash, op.blockNumber, error, nullifierHash]
+      )
+    : await query(
+        `UPDATE sponsorships
+         SET status = $1, actual_gas_cost = $2, tx_hash = $3, block_number = $4, error_message = $5
+         WHERE user_op_hash = $6`,
+        [status, op.actualGasCost.toString(), op.txHash, op.blockNumber, error, op.userOpHash]
+      );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Index GasSponsored and UserOperationEvent logs in a confirmed block range
+ * and settle the matching sponsorships. Returns how many were updated.
+ */
+async function processSponsorshipsInRange(
+  provider: ethers.JsonRpcProvider,
+  paymasters: string[],
+  fromBlock: number,
+  toBlock: number
+): Promise<number> {
+  const outcomes = await fetchOpOutcomes(provider, paymasters, fromBlock, toBlock);
+
+  const sponsoredLogs = await provider.getLogs({
+    address: paymasters,
+    topics: [paymasterInterface.getEvent("GasSponsored")!.topicHash],
+    fromBlock,
+    toBlock,
+  });
+
+  // _postOp emits GasSponsored inside the op's handleOps call: pair it with
+  // the same transaction's UserOperationEvent for that sender and paymaster
+  const nullifiers = new Map<OpOutcome, string>();
+  for (const log of sponsoredLogs) {
+    const event = paymasterInterface.parseLog(log)!;
+    const sender = (event.args.sender as string).toLowerCase();
+    const op = outcomes.find(
+      (o) =>
+        !nullifiers.has(o) &&
+        o.txHash === log.transactionHash &&
+        o.sender === sender &&
+        o.paymaster === log.address.toLowerCase()
+    );
+    if (op) {
+      nullifiers.set(op, (event.args.nullifierHash as string).toLowerCase());
+    } else {
+      // No matching UserOperationEvent; record the sponsored gas cost alone
+      await query(
+        `UPDATE sponsorships
+         SET actual_gas_cost = $1, tx_hash = $2, block_number = $3
+         WHERE nullifier_hash = $4`,
+        [
+          (event.args.gasCost as bigint).toString(),
+          log.transactionHash,
+          log.blockNumber,
+          (event.args.nullifierHash as string).toLowerCase(),
+        ]
+      );
+    }
+  }
+
+  let updated = 0;
+  for (const op of outcomes) {
+    if (await recordOutcome(op, nullifiers.get(op) ?? null)) updated++;
+  }
+
+  await setCheckpoint(toBlock);
+  return updated;
+}
+
+/**
+ * Start the sponsorship watcher.
+ *
+ * Runs on the leader. Every SPONSORSHIP_POLL_INTERVAL_MS, EntryPoint
+ * UserOperationEvent logs for ops paid by our paymasters, and the
+ * paymasters' GasSponsored logs, are indexed once SPONSORSHIP_CONFIRMATIONS
+ * blocks deep: each sponsorship moves to confirmed or failed with the gas
+ * it actually cost, whichever bundler submitted it.
+ */
+export async function startSponsorshipWatcher(): Promise<() => void> {
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  let intervalHandle: ReturnType<typeof setInterval> | null = null;
+  let running = false;
+
+  console.log(
+    `[SponsorshipWatcher] Starting (confirmations: ${config.sponsorshipConfirmations}, ` +
+    `poll: ${config.sponsorshipPollIntervalMs}ms)...`
+  );
+
+  async function tick(): Promise<void> {
+    if (running) return;
+    running = true;
+    try {
+      const paymasters = getPaymasters();
+      const currentBlock = await provider.getBlockNumber();
+      const confirmedBlock = currentBlock - config.sponsorshipConfirmations;
+      const lastBlock = await getLastProcessedBlock(confirmedBlock);
+
+      for (let from = lastBlock + 1; from <= confirmedBlock; from += CHUNK_SIZE) {
+        const to = Math.min(from + CHUNK_SIZE - 1, confirmedBlock);
+        const count = await processSponsorshipsInRange(provider, paymasters, from, to);
+        if (count > 0) {
+          console.log(
+            `[SponsorshipWatcher] Settled ${count} sponsorship(s) in blocks ${from}-${to}`
+          );
+        }
+      }
+    } catch (err) {
+      console.error(
+        "[SponsorshipWatcher] Failed to index sponsorships:",
+        err instanceof Error ? err.message : err
+      );
+    } finally {
+      running = false;
+    }
+  }
+
+  // Catch up on blocks missed while stopped
+  await tick();
+
+  intervalHandle = setInterval(() => {
+    tick().catch((err) => {
+      console.error(
+        "[SponsorshipWatcher] Unexpected error in tick:",
+        err instanceof Error ? err.message : err
+      );
+    });
+  }, config.sponsorshipPollIntervalMs);
+
+  return () => {
+    console.log("[SponsorshipWatcher] Stopping...");
+    if (intervalHandle) {
+      clearInterval(intervalHandle);
+      intervalHandle = null;
+    }
+  };
+}
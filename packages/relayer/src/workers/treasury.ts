@@ -0,0 +1,59 @@
+import { config } from "../config";
+import { checkTreasury } from "../services/treasury.service";
+
+let intervalHandle: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Watch the paymaster EntryPoint deposits and the relayer wallet.
+ *
+ * Runs on every replica, since each one gates its own sponsorship intake.
+ * Every TREASURY_CHECK_INTERVAL_MS the balances are read and reported in
+ * /health; a paymaster deposit below PAYMASTER_MIN_DEPOSIT is refilled by
+ * the leader from TREASURY_PRIVATE_KEY, or pauses sponsorships through
+ * that paymaster and raises an alert.
+ */
+export async function startTreasuryWatcher(): Promise<() => void> {
+  const intervalMs = config.treasuryCheckIntervalMs;
+
+  console.log(`[Treasury] Starting (interval: ${intervalMs / 1000}s)`);
+  if (!config.treasuryPrivateKey) {
+    console.warn("[Treasury] TREASURY_PRIVATE_KEY not set, low paymaster deposits will only alert");
+  }
+
+  async function tick(): Promise<void> {
+    if (running) return;
+    running = true;
+
+    try {
+      await checkTreasury();
+    } catch (err) {
+      console.error(
+        "[Treasury] Failed to check balances:",
+        err instanceof Error ? err.message : err
+      );
+    } finally {
+      running = false;
+    }
+  }
+
+  // Run immediately on start
+  await tick();
+
+  intervalHandle = setInterval(() => {
+    tick().catch((err) => {
+      console.error(
+        "[Treasury] Unexpected error in tick:",
+        err instanceof Error ? err.message : err
+      );
+    });
+  }, intervalMs);
+
+  return () => {
+    console.log("[Treasury] Stopping...");
+    if (intervalHandle) {
+      clearInterval(intervalHandle);
+      intervalHandle = null;
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import { config } from "../config";
+import { resumeSubmittedBundles } from "../services/mempool.service";
+import { resumeSubmittedWithdrawals } from "../services/relayer.service";
+import { reconcilePendingTransactions } from "../services/txManager.service";
+
+let intervalHandle: ReturnType<typeof setInterval> | null = null;
+let running = false;
+
+/**
+ * Pick up hot wallet transactions nobody is waiting on.
+ *
+ * Runs on the leader. Every TX_RECONCILE_INTERVAL_MS, pending transactions
+ * left by a restart or by a replica that went away are checked against the
+ * chain and tracked again (with fee bumps), and submitted withdrawals no
+ * live replica holds a claim on (and built-in bundles) are settled from
+ * their transaction's outcome. Transactions this process is already
+ * waiting on are not tracked twice.
+ */
+export async function startTxReconciler(): Promise<() => void> {
+  const intervalMs = config.txReconcileIntervalMs;
+
+  console.log(`[TxReconciler] Starting (interval: ${intervalMs / 1000}s)`);
+
+  async function tick(): Promise<void> {
+    if (running) return;
+    running = true;
+
+    try {
+      await reconcilePendingTransactions();
+
+      const resumed = await resumeSubmittedWithdrawals();
+      if (resumed > 0) {
+        console.log(`[TxReconciler] Tracking ${resumed} submitted withdrawal(s)`);
+      }
+
+      if (config.bundlerMode === "builtin") {
+        const bundles = await resumeSubmittedBundles();
+        if (bundles > 0) {
+          console.log(`[TxReconciler] Tracking ${bundles} submitted bundle(s)`);
+        }
+      }
+    } catch (err) {
+      console.error(
+        "[TxReconciler] Failed to reconcile transactions:",
+        err instanceof Error ? err.message : err
+      );
+    } finally {
+      running = false;
+    }
+  }
+
+  // Run immediately on start
+  await tick();
+
+  intervalHandle = setInterval(() => {
+    tick().catch((err) => {
+      console.error(
+        "[TxReconciler] Unexpected error in tick:",
+        err instanceof Error ? err.message : err
+      );
+    });
+  }, intervalMs);
+
+  return () => {
+    console.log("[TxReconciler] Stopping...");
+    if (intervalHandle) {
+      clearInterval(intervalHandle);
+      intervalHandle = null;
+    }
+  };
+}
@@ -1,9 +1,9 @@
-import { getDueWithdrawals, submitWithdrawal } from "../services/relayer.service";
+import { claimDueWithdrawals, submitWithdrawal } from "../services/relayer.service";
 
 let intervalHandle: ReturnType<typeof setInterval> | null = null;
 
 const POLL_INTERVAL_MS = 5000; // Check for due withdrawals every 5 seconds
-const MAX_CONCURRENT = 3; // Max concurrent withdrawal submissions
+const MAX_CONCURRENT = 3; // Max concurrent withdrawals (sends share one nonce queue)
 
 let activeSubmissions = 0;
 
@@ -25,12 +25,13 @@ async function processOne(withdrawalId: string): Promise<void> {
 }
 
 /**
- * Poll for due withdrawals and process them.
+ * Claim due withdrawals and process them.
  *
  * Withdrawals are queued with a randomized delay (jitter) by the relayer
  * service. This worker checks every POLL_INTERVAL_MS for withdrawals whose
- * scheduled_at timestamp has passed, then submits them on-chain one by one
- * (with limited concurrency).
+ * scheduled_at timestamp has passed, claims as many as it has free slots
+ * for (skipping rows another replica is claiming), then submits them
+ * on-chain with limited concurrency.
  */
 async function tick(): Promise<void> {
   if (activeSubmissions >= MAX_CONCURRENT) {
@@ -38,22 +39,19 @@ async function tick(): Promise<void> {
   }
 
   try {
-    const dueIds = await getDueWithdrawals();
+    const claimedIds = await claimDueWithdrawals(MAX_CONCURRENT - activeSubmissions);
 
-    if (dueIds.length === 0) return;
+    if (claimedIds.length === 0) return;
 
     console.log(
-      `[WithdrawalProcessor] ${dueIds.length} withdrawal(s) due for processing`
+      `[WithdrawalProcessor] Claimed ${claimedIds.length} due withdrawal(s)`
     );
 
-    const slotsAvailable = MAX_CONCURRENT - activeSubmissions;
-    const toProcess = dueIds.slice(0, slotsAvailable);
-
     // Process in parallel up to concurrency limit
-    await Promise.allSettled(toProcess.map((id) => processOne(id)));
+    await Promise.allSettled(claimedIds.map((id) => processOne(id)));
   } catch (err) {
     console.error(
-      "[WithdrawalProcessor] Error fetching due withdrawals:",
+      "[WithdrawalProcessor] Error claiming due withdrawals:",
       err instanceof Error ? err.message : err
     );
   }
@@ -0,0 +1,156 @@
+/**
+ * Cross-check the relayer ASP tree against the SDK MerkleTree — both must
+ * produce identical zero values, roots and proofs, or ASP proofs served by
+ * the relayer will not verify in the circuits.
+ */
+import { MerkleTree } from '@privacy-paymaster/sdk';
+import { ASPMerkleTree, PoolMerkleTree, ROOT_HISTORY_SIZE } from '../dist/lib/merkleTree.js';
+import { initPoseidon } from '../dist/lib/poseidon.js';
+
+const DEPTH = 20;
+
+// Poseidon(0, 0) from circomlib — zeros[1] of MerkleTreeWithHistory
+const POSEIDON_ZERO_1 = '0x2098f5fb9e239eab3ceac3f27b81e481dc3124d55ffed523a839ee8446b64864';
+
+function toHex(value) {
+  return '0x' + value.toString(16).padStart(64, '0');
+}
+
+function sampleCommitment(i) {
+  // Deterministic field elements well below the snark field
+  return BigInt(i + 1) * 0x1234567890abcdefn ** 3n;
+}
+
+async function main() {
+  console.log('=== ASP Tree Cross-Check ===\n');
+  await initPoseidon();
+
+  // 1. Empty roots
+  console.log('1. Comparing empty roots...');
+  const sdkTree = new MerkleTree(DEPTH);
+  await sdkTree.init();
+  const aspTree = new ASPMerkleTree(DEPTH);
+  if (aspTree.root !== toHex(sdkTree.getRoot())) {
+    throw new Error(`Empty root mismatch: ${aspTree.root} != ${toHex(sdkTree.getRoot())}`);
+  }
+  const oneLeaf = new ASPMerkleTree(1);
+  if (oneLeaf.root !== POSEIDON_ZERO_1) {
+    throw new Error(`zeros[1] mismatch: ${oneLeaf.root}`);
+  }
+  console.log('   PASS: Empty roots match\n');
+
+  // 2. Roots after each insertion
+  console.log('2. Comparing roots after insertions...');
+  const commitments = Array.from({ length: 11 }, (_, i) => sampleCommitment(i));
+  for (const c of commitments) {
+    const sdkIndex = sdkTree.insert(c);
+    const aspIndex = aspTree.insert(toHex(c));
+    if (sdkIndex !== aspIndex) throw new Error('Leaf index mismatch');
+    if (aspTree.root !== toHex(sdkTree.getRoot())) {
+      throw new Error(`Root mismatch after leaf ${aspIndex}`);
+    }
+  }
+  console.log('   leaf count:', aspTree.leafCount);
+  console.log('   PASS: Roots match\n');
+
+  // 3. Proofs for every leaf
+  console.log('3. Comparing proofs...');
+  for (let i = 0; i < commitments.length; i++) {
+    const sdkProof = sdkTree.getProof(i);
+    const aspProof = aspTree.getProof(i);
+    if (aspTree.indexOf(toHex(commitments[i])) !== i) {
+      throw new Error(`indexOf mismatch for leaf ${i}`);
+    }
+    for (let level = 0; level < DEPTH; level++) {
+      if (aspProof.pathElements[level] !== toHex(sdkProof.pathElements[level])) {
+        throw new Error(`Path element mismatch at leaf ${i}, level ${level}`);
+      }
+      if (aspProof.pathIndices[level] !== sdkProof.pathIndices[level]) {
+        throw new Error(`Path index mismatch at leaf ${i}, level ${level}`);
+      }
+    }
+  }
+  console.log('   PASS: Proofs match\n');
+
+  // 4. Roots and proofs against an earlier tree size
+  console.log('4. Comparing historical roots and proofs...');
+  for (const size of [0, 1, 5, 8, commitments.length]) {
+    const historical = new MerkleTree(DEPTH);
+    await historical.init();
+    commitments.slice(0, size).forEach((c) => historical.insert(c));
+    if (aspTree.rootAt(size) !== toHex(historical.getRoot())) {
+      throw new Error(`Historical root mismatch at size ${size}`);
+    }
+    for (let i = 0; i < size; i++) {
+      const expected = historical.getProof(i);
+      const actual = aspTree.getProof(i, size);
+      if (actual.pathElements.some((el, level) => el !== toHex(expected.pathElements[level]))) {
+        throw new Error(`Historical proof mismatch at size ${size}, leaf ${i}`);
+      }
+    }
+  }
+  if (aspTree.getProof(6, 5) !== null) throw new Error('Proof served for leaf beyond snapshot');
+  console.log('   PASS: Historical roots and proofs match\n');
+
+  // 5. Reload from persisted nodes
+  console.log('5. Reloading from stored nodes...');
+  const pathNodes = aspTree.getPathNodes(commitments.length - 1);
+  if (pathNodes.length !== DEPTH + 1) throw new Error('Wrong path node count');
+  if (pathNodes[DEPTH].hash !== aspTree.root) throw new Error('Path does not end at root');
+  const reloaded = new ASPMerkleTree(DEPTH);
+  reloaded.loadNodes(aspTree.getAllNodes());
+  if (reloaded.root !== aspTree.root) throw new Error('Root mismatch after reload');
+  if (reloaded.leafCount !== aspTree.leafCount) throw new Error('Leaf count mismatch after reload');
+  if (reloaded.indexOf(toHex(commitments[3])) !== 3) throw new Error('indexOf mismatch after reload');
+  const next = sampleCommitment(commitments.length);
+  reloaded.insert(toHex(next));
+  sdkTree.insert(next);
+  if (reloaded.root !== toHex(sdkTree.getRoot())) throw new Error('Root mismatch after insert on reloaded tree');
+  console.log('   stored nodes:', aspTree.getAllNodes().length);
+  console.log('   PASS: Reloaded tree matches\n');
+
+  // 6. Revocation zeroes a leaf in place
+  console.log('6. Zeroing a revoked leaf...');
+  const revoked = new ASPMerkleTree(DEPTH);
+  revoked.loadNodes(aspTree.getAllNodes());
+  revoked.zeroLeaf(4);
+  const zeroed = new MerkleTree(DEPTH);
+  await zeroed.init();
+  commitments.forEach((c, i) => zeroed.insert(i === 4 ? 0n : c));
+  if (revoked.root !== toHex(zeroed.getRoot())) throw new Error('Root mismatch after zeroing leaf');
+  if (revoked.indexOf(toHex(commitments[4])) !== -1) throw new Error('Revoked commitment still indexed');
+  if (revoked.rootAt(3) !== aspTree.rootAt(3)) throw new Error('Root before revoked leaf changed');
+  const reloadedRevoked = new ASPMerkleTree(DEPTH);
+  reloadedRevoked.loadNodes(revoked.getAllNodes());
+  if (reloadedRevoked.leafCount !== commitments.length) throw new Error('Zeroed slot lost on reload');
+  if (reloadedRevoked.root !== revoked.root) throw new Error('Root mismatch after reloading zeroed tree');
+  console.log('   PASS: Zeroed leaf matches SDK tree\n');
+
+  // 7. Pool tree root history mirrors MerkleTreeWithHistory
+  console.log('7. Checking pool tree root history...');
+  const poolTree = new PoolMerkleTree(DEPTH);
+  const sdkPoolTree = new MerkleTree(DEPTH);
+  await sdkPoolTree.init();
+  const roots = [poolTree.root];
+  for (let i = 0; i < ROOT_HISTORY_SIZE + 5; i++) {
+    poolTree.insert(toHex(sampleCommitment(i)));
+    sdkPoolTree.insert(sampleCommitment(i));
+    if (poolTree.root !== toHex(sdkPoolTree.getRoot())) throw new Error(`Pool root mismatch at leaf ${i}`);
+    roots.push(poolTree.root);
+  }
+  if (poolTree.knownRoots.length !== ROOT_HISTORY_SIZE) throw new Error('Wrong root history size');
+  const expired = roots[roots.length - ROOT_HISTORY_SIZE - 1];
+  const oldestKnown = roots[roots.length - ROOT_HISTORY_SIZE];
+  if (poolTree.isKnownRoot(expired)) throw new Error('Expired root still known');
+  if (!poolTree.isKnownRoot(oldestKnown)) throw new Error('Oldest root in window not known');
+  const entry = poolTree.findRoot(oldestKnown);
+  if (poolTree.rootAt(entry.leafCount) !== oldestKnown) throw new Error('History leaf count mismatch');
+  console.log('   PASS: Root history matches contract semantics\n');
+
+  console.log('=== All ASP tree checks passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+/**
+ * Check the contract proof encoding against the frontend's
+ * encodeProofForContract layout (B coordinates swapped) and the public
+ * signal order PrivacyPool.withdraw() and PrivacyPaymaster rebuild.
+ */
+import { ethers } from 'ethers';
+import {
+  decodeContractProof,
+  decodeWithdrawPublicSignals,
+  encodeContractProof,
+  membershipPublicSignals,
+  parseSnarkjsProof,
+  withdrawPublicSignals,
+} from '../dist/lib/groth16.js';
+
+// A proof in snarkjs output shape (values need not be curve points here)
+const PROOF = {
+  pi_a: ['11', '12', '1'],
+  pi_b: [['21', '22'], ['23', '24'], ['1', '0']],
+  pi_c: ['31', '32', '1'],
+  protocol: 'groth16',
+  curve: 'bn128',
+};
+
+async function main() {
+  console.log('=== Groth16 Encoding Checks ===\n');
+
+  // 1. Encoding matches the contract layout
+  console.log('1. Encoding a snarkjs proof for the contracts...');
+  const encoded = encodeContractProof(PROOF);
+  const [a, b, c] = ethers.AbiCoder.defaultAbiCoder().decode(
+    ['uint256[2]', 'uint256[2][2]', 'uint256[2]'],
+    encoded
+  );
+  if (a[0] !== 11n || a[1] !== 12n) throw new Error('pi_a mis-encoded');
+  if (b[0][0] !== 22n || b[0][1] !== 21n || b[1][0] !== 24n || b[1][1] !== 23n) {
+    throw new Error('pi_b coordinates not swapped');
+  }
+  if (c[0] !== 31n || c[1] !== 32n) throw new Error('pi_c mis-encoded');
+  console.log('   PASS: B coordinates swapped, A and C in order\n');
+
+  // 2. Decoding undoes the swap
+  console.log('2. Decoding contract proof bytes...');
+  const decoded = decodeContractProof(encoded);
+  if (JSON.stringify(decoded) !== JSON.stringify(PROOF)) {
+    throw new Error(`Round trip mismatch: ${JSON.stringify(decoded)}`);
+  }
+  let threw = false;
+  try {
+    decodeContractProof(encoded.slice(0, -2));
+  } catch {
+    threw = true;
+  }
+  if (!threw) throw new Error('Truncated proof accepted');
+  console.log('   PASS: Round trip exact, truncated bytes rejected\n');
+
+  // 3. Public signal order
+  console.log('3. Rebuilding public signals...');
+  const recipient = '0x00000000000000000000000000000000000000aa';
+  const withdraw = withdrawPublicSignals({
+    root: ethers.toBeHex(1, 32),
+    nullifierHash: ethers.toBeHex(2, 32),
+    recipient,
+    relayer: '0x00000000000000000000000000000000000000bb',
+    fee: '5',
+    refund: '0',
+    aspRoot: ethers.toBeHex(7, 32),
+  });
+  if (withdraw.join(',') !== '1,2,170,187,5,0,7') {
+    throw new Error(`Withdraw signals out of order: ${withdraw.join(',')}`);
+  }
+  const membership = membershipPublicSignals({
+    root: ethers.toBeHex(1, 32),
+    nullifierHash: ethers.toBeHex(2, 32),
+    aspRoot: ethers.toBeHex(3, 32),
+  });
+  if (membership.join(',') !== '1,2,3') {
+    throw new Error(`Membership signals out of order: ${membership.join(',')}`);
+  }
+  console.log('   PASS: Signals in circuit order as decimal strings\n');
+
+  // 4. snarkjs payloads
+  console.log('4. Reading snarkjs proof and publicSignals...');
+  const parsed = parseSnarkjsProof(PROOF);
+  if (encodeContractProof(parsed) !== encoded) {
+    throw new Error('Parsed snarkjs proof encodes differently');
+  }
+  const inputs = decodeWithdrawPublicSignals(['1', '2', '170', '187', '5', '0', '7']);
+  if (
+    inputs.root !== ethers.toBeHex(1, 32) ||
+    inputs.recipient !== ethers.getAddress(recipient) ||
+    inputs.fee !== '5' ||
+    withdrawPublicSignals(inputs).join(',') !== '1,2,170,187,5,0,7'
+  ) {
+    throw new Error(`Signals decoded wrongly: ${JSON.stringify(inputs)}`);
+  }
+  for (const bad of [
+    () => decodeWithdrawPublicSignals(['1', '2', '3']),
+    () => decodeWithdrawPublicSignals(['1', '2', (1n << 160n).toString(), '4', '5', '6', '7']),
+    () => parseSnarkjsProof({ pi_a: ['1'], pi_b: [], pi_c: [] }),
+  ]) {
+    let rejected = false;
+    try {
+      bad();
+    } catch {
+      rejected = true;
+    }
+    if (!rejected) throw new Error('Malformed snarkjs payload accepted');
+  }
+  console.log('   PASS: Proof and signals decoded, malformed payloads rejected\n');
+
+  console.log('=== All Groth16 encoding checks passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+/**
+ * Parse small fixtures in the shape of the official OFAC SDN exports and
+ * check that only EVM-compatible digital currency addresses are extracted.
+ */
+import { parseSdnAdvancedXml, parseSdnCsv, parseSdnFile } from '../dist/lib/ofacParser.js';
+
+const ETH_ADDR = '0x098B716B8Aaf21512996dC57EB0615e2383E2f96';
+const USDT_ADDR = '0x7F367cC41522cE07553e823bf3be79A889DEbe1B';
+const BTC_ADDR = '1AjZPMsnmpdK2Rv9KQNfMurTXinscVro9V';
+const TRON_USDT = 'TX8kb1zZMHhuvBwJDyE8hhK3VJUMKnJUbN';
+
+const XML_FIXTURE = `<?xml version="1.0" encoding="utf-8"?>
+<Sanctions xmlns="http://www.un.org/sanctions/1.0">
+  <DateOfIssue><Year>2024</Year><Month>5</Month><Day>14</Day></DateOfIssue>
+  <ReferenceValueSets>
+    <FeatureTypeValues>
+      <FeatureType ID="8" FeatureTypeGroupID="1">Vessel Call Sign</FeatureType>
+      <FeatureType ID="344" FeatureTypeGroupID="3">Digital Currency Address - XBT</FeatureType>
+      <FeatureType ID="345" FeatureTypeGroupID="3">Digital Currency Address - ETH</FeatureType>
+      <FeatureType ID="887" FeatureTypeGroupID="3">Digital Currency Address - USDT</FeatureType>
+    </FeatureTypeValues>
+  </ReferenceValueSets>
+  <DistinctParties>
+    <DistinctParty FixedRef="27138">
+      <Profile ID="27138" PartySubTypeID="4">
+        <Identity ID="12345" FixedRef="27138" Primary="true">
+          <Alias FixedRef="27138" AliasTypeID="1403" Primary="true">
+            <DocumentedName ID="1" FixedRef="27138">
+              <DocumentedNamePart><NamePartValue NamePartGroupID="1">LAZARUS &amp; CO</NamePartValue></DocumentedNamePart>
+            </DocumentedName>
+          </Alias>
+        </Identity>
+        <Feature ID="1001" FeatureTypeID="345">
+          <FeatureVersion ID="1" ReliabilityID="1"><VersionDetail DetailTypeID="1432">${ETH_ADDR}</VersionDetail></FeatureVersion>
+        </Feature>
+        <Feature ID="1002" FeatureTypeID="344">
+          <FeatureVersion ID="2" ReliabilityID="1"><VersionDetail DetailTypeID="1432">${BTC_ADDR}</VersionDetail></FeatureVersion>
+        </Feature>
+        <Feature ID="1003" FeatureTypeID="887">
+          <FeatureVersion ID="3" ReliabilityID="1"><VersionDetail DetailTypeID="1432">${TRON_USDT}</VersionDetail></FeatureVersion>
+        </Feature>
+        <Feature ID="1004" FeatureTypeID="887">
+          <FeatureVersion ID="4" ReliabilityID="1"><VersionDetail DetailTypeID="1432">${USDT_ADDR}</VersionDetail></FeatureVersion>
+        </Feature>
+      </Profile>
+    </DistinctParty>
+    <DistinctParty FixedRef="30000">
+      <Profile ID="30000" PartySubTypeID="4">
+        <Feature ID="2001" FeatureTypeID="8">
+          <FeatureVersion ID="5" ReliabilityID="1"><VersionDetail DetailTypeID="1432">ABCD</VersionDetail></FeatureVersion>
+        </Feature>
+      </Profile>
+    </DistinctParty>
+  </DistinctParties>
+</Sanctions>`;
+
+const CSV_FIXTURE = [
+  `27138,"LAZARUS & CO","-0- ","DPRK3","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","Digital Currency Address - ETH ${ETH_ADDR}; Digital Currency Address - XBT ${BTC_ADDR}; alt. Digital Currency Address - USDT ${TRON_USDT}; Secondary sanctions risk: ""DPRK"" program."`,
+  `30000,"SHIP ONE","vessel","IRAN","-0- ","9HA1234","Crude Oil Tanker","-0- ","-0- ","Malta","-0- ","Vessel Registration Identification IMO 1234567."`,
+  `30001,"EXCHANGE LTD","-0- ","CYBER2","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","-0- ","Digital Currency Address - USDT ${USDT_ADDR};"`,
+].join('\r\n');
+
+function assertAddresses(parsed, label) {
+  const found = parsed.entries.map((e) => `${e.ticker}:${e.address}`).sort();
+  const expected = [`ETH:${ETH_ADDR.toLowerCase()}`, `USDT:${USDT_ADDR.toLowerCase()}`].sort();
+  if (JSON.stringify(found) !== JSON.stringify(expected)) {
+    throw new Error(`${label}: expected ${expected.join(', ')}, got ${found.join(', ')}`);
+  }
+}
+
+async function main() {
+  console.log('=== OFAC SDN Parser Test ===\n');
+
+  // 1. Advanced XML
+  console.log('1. Parsing SDN advanced XML...');
+  const xml = parseSdnAdvancedXml(XML_FIXTURE);
+  assertAddresses(xml, 'XML');
+  if (xml.publicationDate !== '2024-05-14') throw new Error(`Wrong issue date: ${xml.publicationDate}`);
+  const eth = xml.entries.find((e) => e.ticker === 'ETH');
+  if (eth.entityId !== '27138' || eth.name !== 'LAZARUS & CO') {
+    throw new Error(`Wrong entity metadata: ${eth.entityId} ${eth.name}`);
+  }
+  console.log('   PASS: EVM addresses, issue date and entity extracted\n');
+
+  // 2. CSV
+  console.log('2. Parsing SDN CSV...');
+  const csv = parseSdnCsv(CSV_FIXTURE);
+  assertAddresses(csv, 'CSV');
+  const usdt = csv.entries.find((e) => e.ticker === 'USDT');
+  if (usdt.entityId !== '30001' || usdt.name !== 'EXCHANGE LTD') {
+    throw new Error(`Wrong entity metadata: ${usdt.entityId} ${usdt.name}`);
+  }
+  console.log('   PASS: Quoted remarks parsed, non-EVM addresses skipped\n');
+
+  // 3. Format detection
+  console.log('3. Detecting format by extension...');
+  if (parseSdnFile('sdn_advanced.xml', XML_FIXTURE).format !== 'xml') throw new Error('XML not detected');
+  if (parseSdnFile('SDN.CSV', CSV_FIXTURE).format !== 'csv') throw new Error('CSV not detected');
+  const json = parseSdnFile('sdn_list.json', JSON.stringify({ addresses: [ETH_ADDR, BTC_ADDR] }));
+  if (json.entries.length !== 1) throw new Error('JSON list not parsed');
+  let threw = false;
+  try {
+    parseSdnFile('sdn.pdf', '');
+  } catch {
+    threw = true;
+  }
+  if (!threw) throw new Error('Unsupported format accepted');
+  console.log('   PASS: Formats detected\n');
+
+  console.log('=== All OFAC parser checks passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,121 @@
+/**
+ * Check decoding and classification of PrivacyPool / TokenPool withdraw()
+ * reverts as they arrive in ethers errors.
+ */
+import { ethers } from 'ethers';
+import {
+  classifyWithdrawError,
+  decodePaymasterRejection,
+  decodeRevertData,
+  decodeUserOpRevert,
+} from '../dist/lib/revertReasons.js';
+
+const POOL = new ethers.Interface([
+  'error NullifierAlreadySpent()',
+  'error InvalidWithdrawProof()',
+  'error MerkleTreeFull()',
+]);
+
+const ENTRY_POINT = new ethers.Interface([
+  'error FailedOp(uint256 opIndex, string reason)',
+  'error FailedOpWithRevert(uint256 opIndex, string reason, bytes inner)',
+]);
+
+const PAYMASTER = new ethers.Interface(['error NullifierAlreadyUsed()', 'error GasCostExceedsMax()']);
+
+function revertString(message) {
+  return '0x08c379a0' + ethers.AbiCoder.defaultAbiCoder().encode(['string'], [message]).slice(2);
+}
+
+// Shaped like ethers v6 CALL_EXCEPTION errors, with and without nesting
+function callException(data) {
+  return Object.assign(new Error('execution reverted'), { code: 'CALL_EXCEPTION', data });
+}
+
+function nestedRpcError(data) {
+  return Object.assign(new Error('could not coalesce error'), {
+    code: 'UNKNOWN_ERROR',
+    error: { code: 3, message: 'execution reverted', data },
+  });
+}
+
+async function main() {
+  console.log('=== Revert Classification Checks ===\n');
+
+  // 1. Decoding
+  console.log('1. Decoding revert data...');
+  if (decodeRevertData(POOL.encodeErrorResult('InvalidWithdrawProof', [])) !== 'InvalidWithdrawProof') {
+    throw new Error('Custom error not decoded');
+  }
+  if (decodeRevertData(revertString('Invalid ASP root')) !== 'Invalid ASP root') {
+    throw new Error('Revert string not decoded');
+  }
+  if (decodeRevertData('0xdeadbeef') !== null) throw new Error('Unknown selector decoded');
+  console.log('   PASS: Custom errors and revert strings decoded\n');
+
+  // 2. Permanent failures
+  console.log('2. Classifying permanent reverts...');
+  const spent = classifyWithdrawError(
+    callException(POOL.encodeErrorResult('NullifierAlreadySpent', []))
+  );
+  if (spent.class !== 'permanent' || !spent.reason.startsWith('NullifierAlreadySpent')) {
+    throw new Error(`Spent nullifier misclassified: ${JSON.stringify(spent)}`);
+  }
+  const aspRoot = classifyWithdrawError(nestedRpcError(revertString('Invalid ASP root')));
+  if (aspRoot.class !== 'permanent' || aspRoot.reason !== 'Invalid ASP root') {
+    throw new Error(`Nested revert string misclassified: ${JSON.stringify(aspRoot)}`);
+  }
+  console.log('   PASS: Proof, nullifier and root reverts are permanent\n');
+
+  // 3. Transient failures
+  console.log('3. Classifying transient errors...');
+  const timeout = classifyWithdrawError(
+    Object.assign(new Error('request timeout'), { code: 'TIMEOUT' })
+  );
+  if (timeout.class !== 'transient' || timeout.reason !== 'request timeout') {
+    throw new Error(`Timeout misclassified: ${JSON.stringify(timeout)}`);
+  }
+  const unknown = classifyWithdrawError(callException(POOL.encodeErrorResult('MerkleTreeFull', [])));
+  if (unknown.class !== 'transient' || unknown.reason !== 'Reverted: MerkleTreeFull') {
+    throw new Error(`Unlisted revert misclassified: ${JSON.stringify(unknown)}`);
+  }
+  const bare = classifyWithdrawError(callException('0x'));
+  if (bare.class !== 'transient') throw new Error('Revert without data treated as permanent');
+  console.log('   PASS: RPC errors and unlisted reverts are retried\n');
+
+  // 4. EntryPoint rejections of sponsored UserOperations
+  console.log('4. Decoding EntryPoint UserOp failures...');
+  const nullifierUsed = ENTRY_POINT.encodeErrorResult('FailedOpWithRevert', [
+    0,
+    'AA33 reverted',
+    PAYMASTER.encodeErrorResult('NullifierAlreadyUsed', []),
+  ]);
+  if (decodeUserOpRevert(nullifierUsed) !== 'AA33 reverted: NullifierAlreadyUsed: Sponsorship nullifier already used') {
+    throw new Error(`Paymaster error not decoded: ${decodeUserOpRevert(nullifierUsed)}`);
+  }
+  const aspRootRevert = ENTRY_POINT.encodeErrorResult('FailedOpWithRevert', [0, 'AA33 reverted', revertString('Invalid ASP root')]);
+  if (decodeUserOpRevert(aspRootRevert) !== 'AA33 reverted: Invalid ASP root') {
+    throw new Error('Paymaster revert string not decoded');
+  }
+  const signature = ENTRY_POINT.encodeErrorResult('FailedOp', [0, 'AA24 signature error']);
+  if (decodeUserOpRevert(signature) !== 'AA24 signature error') throw new Error('FailedOp not decoded');
+  const opaque = ENTRY_POINT.encodeErrorResult('FailedOpWithRevert', [0, 'AA33 reverted', '0xdeadbeef']);
+  if (decodeUserOpRevert(opaque) !== 'AA33 reverted') throw new Error('Unknown inner revert mishandled');
+  if (decodeUserOpRevert(POOL.encodeErrorResult('NullifierAlreadySpent', [])) !== null) {
+    throw new Error('Non-EntryPoint revert decoded as a UserOp failure');
+  }
+  if (decodePaymasterRejection(nullifierUsed) !== decodeUserOpRevert(nullifierUsed)) {
+    throw new Error('Paymaster rejection not decoded');
+  }
+  if (decodePaymasterRejection(aspRootRevert) !== null || decodePaymasterRejection(signature) !== null) {
+    throw new Error('Non-rejection decoded as a paymaster rejection');
+  }
+  console.log('   PASS: AA codes and paymaster errors decoded\n');
+
+  console.log('=== All revert classification checks passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});
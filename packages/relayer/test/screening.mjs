@@ -0,0 +1,137 @@
+/**
+ * Screening providers and policy: runs the HTTP risk-API provider against a
+ * local stub and checks how the policy combines provider results.
+ */
+import http from 'node:http';
+import { evaluateScreening } from '../dist/lib/screeningPolicy.js';
+import {
+  AddressListProvider,
+  AllowlistProvider,
+  HttpRiskApiProvider,
+} from '../dist/lib/screeningProviders.js';
+
+const CLEAN = '0x1111111111111111111111111111111111111111';
+const RISKY = '0x2222222222222222222222222222222222222222';
+const SANCTIONED = '0x3333333333333333333333333333333333333333';
+const EXCHANGE = '0x4444444444444444444444444444444444444444';
+
+const POLICY = {
+  reviewThreshold: 0.4,
+  blockThreshold: 0.8,
+  weights: { risk_api: 1, denylist: 1 },
+  vetoProviders: ['denylist'],
+};
+
+// Stub risk API: scores 0-100 under data.score, requires an API key
+function startStub() {
+  const scores = { [CLEAN]: 5, [RISKY]: 90, [SANCTIONED]: 100, [EXCHANGE]: 95 };
+  const server = http.createServer((req, res) => {
+    if (req.headers['x-api-key'] !== 'test-key') {
+      res.writeHead(401).end();
+      return;
+    }
+    const address = decodeURIComponent(req.url.split('/').pop()).toLowerCase();
+    if (!(address in scores)) {
+      res.writeHead(500).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ data: { score: scores[address], labels: scores[address] > 50 ? ['mixer'] : [] } }));
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function screenAll(providers, address) {
+  return Promise.all(
+    providers.map(async (p) => {
+      try {
+        return await p.screen(address);
+      } catch (err) {
+        return { provider: p.name, score: null, flags: [], error: err.message };
+      }
+    })
+  );
+}
+
+async function main() {
+  console.log('=== Screening Policy Test ===\n');
+  const server = await startStub();
+  const { port } = server.address();
+
+  try {
+    const riskApi = new HttpRiskApiProvider('risk_api', {
+      url: `http://127.0.0.1:${port}/v1/address/{address}`,
+      apiKey: 'test-key',
+      apiKeyHeader: 'X-API-Key',
+      scoreField: 'data.score',
+      flagsField: 'data.labels',
+      scoreScale: 100,
+      timeoutMs: 2000,
+    });
+    const denylist = new AddressListProvider('denylist', (a) => a === SANCTIONED, 'denylist_match');
+    const allowlist = new AllowlistProvider('exchanges', new Set([EXCHANGE]));
+    const providers = [riskApi, denylist, allowlist];
+
+    // 1. HTTP provider parses the stub response
+    console.log('1. Querying HTTP risk API stub...');
+    const risky = await riskApi.screen(RISKY);
+    if (risky.score !== 0.9) throw new Error(`Expected score 0.9, got ${risky.score}`);
+    if (!risky.flags.includes('risk_api:mixer')) throw new Error('Missing provider flag');
+    const unauthorized = new HttpRiskApiProvider('risk_api', { url: `http://127.0.0.1:${port}/{address}` });
+    await unauthorized.screen(CLEAN).then(
+      () => { throw new Error('Expected HTTP 401 to throw'); },
+      (err) => { if (!err.message.includes('401')) throw err; }
+    );
+    console.log('   PASS: Score scaled and flags prefixed\n');
+
+    // 2. Policy decisions
+    console.log('2. Evaluating policy decisions...');
+    const expectations = [
+      [CLEAN, 'approve'],
+      [RISKY, 'review'], // mean of 0.9 and 0.0
+      [SANCTIONED, 'block'], // denylist veto
+      [EXCHANGE, 'approve'], // allowlisted
+    ];
+    for (const [address, expected] of expectations) {
+      const results = await screenAll(providers, address);
+      const { decision, riskScore } = evaluateScreening(results, POLICY);
+      console.log(`   ${address.slice(0, 6)}...: ${decision} (${riskScore.toFixed(2)})`);
+      if (decision !== expected) throw new Error(`Expected ${expected} for ${address}, got ${decision}`);
+    }
+    const blockOnly = evaluateScreening(await screenAll([riskApi], RISKY), POLICY);
+    if (blockOnly.decision !== 'block') throw new Error('High weighted score should block');
+    console.log('   PASS: Decisions match policy\n');
+
+    // 3. Provider failures
+    console.log('3. Handling provider failures...');
+    const unknown = '0x5555555555555555555555555555555555555555';
+    const partial = evaluateScreening(await screenAll(providers, unknown), POLICY);
+    if (partial.decision !== 'approve' || !partial.flags.includes('risk_api_unavailable')) {
+      throw new Error('Failed provider should be flagged and left out of the mean');
+    }
+    let threw = false;
+    try {
+      evaluateScreening(await screenAll([riskApi], unknown), POLICY);
+    } catch {
+      threw = true;
+    }
+    if (!threw) throw new Error('Evaluation without any score should throw');
+    const listDown = new AddressListProvider('denylist', () => { throw new Error('list not loaded'); }, 'denylist_match');
+    for (const address of [CLEAN, EXCHANGE]) {
+      const unchecked = evaluateScreening(await screenAll([riskApi, listDown, allowlist], address), POLICY);
+      if (unchecked.decision !== 'review') {
+        throw new Error(`Expected review without the veto provider, got ${unchecked.decision}`);
+      }
+    }
+    console.log('   PASS: Unavailable providers flagged, no-score evaluation throws, missing veto reviews\n');
+  } finally {
+    server.close();
+  }
+
+  console.log('=== All screening checks passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});
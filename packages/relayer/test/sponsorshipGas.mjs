@@ -0,0 +1,70 @@
+/**
+ * Check that sponsored ops' fee caps are fitted under the paymaster's
+ * maxGasSponsorship, and rejected when that would undercut the base fee.
+ */
+import {
+  DEFAULT_GAS_LIMITS,
+  fitFeesToSponsorship,
+  sameGasLimits,
+  totalGasLimit,
+} from '../dist/lib/sponsorshipGas.js';
+
+const GWEI = 1_000_000_000n;
+
+const LIMITS = {
+  preVerificationGas: 50_000n,
+  verificationGasLimit: 400_000n,
+  callGasLimit: 200_000n,
+  paymasterVerificationGasLimit: 300_000n,
+  paymasterPostOpGasLimit: 50_000n,
+};
+
+async function main() {
+  console.log('=== Sponsorship Gas Checks ===\n');
+
+  // 1. Limits
+  console.log('1. Summing gas limits...');
+  if (totalGasLimit(LIMITS) !== 1_000_000n) throw new Error(`Total is ${totalGasLimit(LIMITS)}`);
+  if (totalGasLimit(DEFAULT_GAS_LIMITS) !== 1_450_000n) throw new Error('Default total changed');
+  if (!sameGasLimits(LIMITS, { ...LIMITS })) throw new Error('Equal limits differ');
+  if (sameGasLimits(LIMITS, { ...LIMITS, paymasterPostOpGasLimit: 60_000n })) {
+    throw new Error('Paymaster limits ignored');
+  }
+  console.log('   PASS: All five limits counted and compared\n');
+
+  // 2. Fitting
+  console.log('2. Fitting fee caps...');
+  const fees = { maxFeePerGas: 5n * GWEI, maxPriorityFeePerGas: 2n * GWEI };
+  if (fitFeesToSponsorship(LIMITS, fees, 10_000_000n * GWEI, GWEI) !== fees) {
+    throw new Error('Fees under the cap were changed');
+  }
+  const lowered = fitFeesToSponsorship(LIMITS, fees, 3_000_000n * GWEI, GWEI);
+  if (lowered?.maxFeePerGas !== 3n * GWEI || lowered.maxPriorityFeePerGas !== 2n * GWEI) {
+    throw new Error(`Expected 3 gwei cap, got ${JSON.stringify(lowered, (_, v) => String(v))}`);
+  }
+  const squeezed = fitFeesToSponsorship(LIMITS, fees, 1_500_000n * GWEI, GWEI);
+  if (squeezed?.maxPriorityFeePerGas !== squeezed?.maxFeePerGas) {
+    throw new Error('Priority fee not capped at maxFeePerGas');
+  }
+  if (totalGasLimit(LIMITS) * lowered.maxFeePerGas > 3_000_000n * GWEI) {
+    throw new Error('Fitted cost exceeds maxGasSponsorship');
+  }
+  console.log('   PASS: Fee caps lowered to fit, priority fee capped\n');
+
+  // 3. Rejections
+  console.log('3. Rejecting ops the paymaster cannot cover...');
+  if (fitFeesToSponsorship(LIMITS, fees, 500_000n * GWEI, GWEI) !== null) {
+    throw new Error('Fee below the base fee accepted');
+  }
+  if (fitFeesToSponsorship(LIMITS, fees, 999_999n, 0n) !== null) {
+    throw new Error('Zero fee accepted');
+  }
+  console.log('   PASS: Caps below the base fee or zero rejected\n');
+
+  console.log('=== All sponsorship gas checks passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,106 @@
+/**
+ * Check the sponsorship policy: SimpleAccount callData decoding, target and
+ * selector allowlists, the factory allowlist and the per-op gas ceiling.
+ */
+import { ethers } from 'ethers';
+import {
+  decodeAccountCalls,
+  evaluateSponsorship,
+  toSelector,
+} from '../dist/lib/sponsorshipPolicy.js';
+
+const TOKEN = '0x1111111111111111111111111111111111111111';
+const ROUTER = '0x2222222222222222222222222222222222222222';
+const OTHER = '0x3333333333333333333333333333333333333333';
+const FACTORY = '0x4444444444444444444444444444444444444444';
+
+const ACCOUNT = new ethers.Interface([
+  'function execute(address dest, uint256 value, bytes func)',
+  'function executeBatch(address[] dest, uint256[] value, bytes[] func)',
+  'function executeBatch(address[] dest, bytes[] func)',
+]);
+const ERC20 = new ethers.Interface([
+  'function transfer(address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+]);
+
+const transfer = ERC20.encodeFunctionData('transfer', [OTHER, 1n]);
+const approve = ERC20.encodeFunctionData('approve', [ROUTER, 1n]);
+
+const POLICY = {
+  factories: [FACTORY],
+  targets: { [TOKEN]: [toSelector('transfer(address,uint256)')], [ROUTER]: [] },
+  maxGasPerOp: 1_000_000n,
+};
+
+function op(callData, overrides = {}) {
+  return { initCode: '0x', callData, gasLimit: 500_000n, ...overrides };
+}
+
+async function main() {
+  console.log('=== Sponsorship Policy Checks ===\n');
+
+  // 1. Decoding
+  console.log('1. Decoding SimpleAccount calls...');
+  const single = decodeAccountCalls(ACCOUNT.encodeFunctionData('execute', [TOKEN, 0n, transfer]));
+  if (single?.length !== 1 || single[0].target.toLowerCase() !== TOKEN || single[0].data !== transfer) {
+    throw new Error('execute not decoded');
+  }
+  const batch = decodeAccountCalls(
+    ACCOUNT.encodeFunctionData('executeBatch(address[],uint256[],bytes[])', [[TOKEN, ROUTER], [], [transfer, '0x']])
+  );
+  if (batch?.length !== 2 || batch[1].value !== 0n) throw new Error('executeBatch (v0.7) not decoded');
+  const legacy = decodeAccountCalls(
+    ACCOUNT.encodeFunctionData('executeBatch(address[],bytes[])', [[TOKEN], [transfer]])
+  );
+  if (legacy?.length !== 1) throw new Error('executeBatch (v0.6) not decoded');
+  if (decodeAccountCalls(transfer) !== null) throw new Error('Non-account call decoded');
+  if (toSelector('transfer(address, uint256)') !== '0xa9059cbb') throw new Error('Signature selector wrong');
+  console.log('   PASS: execute and both executeBatch forms decoded\n');
+
+  // 2. Allowed ops
+  console.log('2. Allowing listed calls...');
+  const allowed = [
+    op(ACCOUNT.encodeFunctionData('execute', [TOKEN, 0n, transfer])),
+    op(ACCOUNT.encodeFunctionData('execute', [ROUTER, 0n, '0x38ed1739'])),
+    op(ACCOUNT.encodeFunctionData('execute', [TOKEN, 0n, transfer]), { initCode: FACTORY + 'abcdef' }),
+  ];
+  for (const candidate of allowed) {
+    const violation = evaluateSponsorship(candidate, POLICY);
+    if (violation) throw new Error(`Allowed op rejected: ${violation.message}`);
+  }
+  const open = { factories: null, targets: null, maxGasPerOp: null };
+  if (evaluateSponsorship(op('0xdeadbeef'), open) !== null) throw new Error('Open policy rejected an op');
+  console.log('   PASS: Listed targets, selectors and factories sponsored\n');
+
+  // 3. Rejections
+  console.log('3. Rejecting unlisted calls...');
+  const cases = [
+    [op(transfer), 'unsupported_call'],
+    [op(ACCOUNT.encodeFunctionData('execute', [OTHER, 0n, transfer])), 'target_not_allowed'],
+    [op(ACCOUNT.encodeFunctionData('execute', [TOKEN, 0n, approve])), 'selector_not_allowed'],
+    [op(ACCOUNT.encodeFunctionData('execute', [TOKEN, 0n, transfer]), { initCode: OTHER + 'abcdef' }), 'factory_not_allowed'],
+    [op(ACCOUNT.encodeFunctionData('execute', [TOKEN, 0n, transfer]), { gasLimit: 2_000_000n }), 'gas_limit_exceeded'],
+  ];
+  for (const [candidate, code] of cases) {
+    const violation = evaluateSponsorship(candidate, POLICY);
+    if (violation?.code !== code) {
+      throw new Error(`Expected ${code}, got ${violation ? violation.code : 'allowed'}`);
+    }
+  }
+  const inBatch = evaluateSponsorship(
+    op(ACCOUNT.encodeFunctionData('executeBatch(address[],uint256[],bytes[])', [[TOKEN, OTHER], [0n, 0n], [transfer, '0x']])),
+    POLICY
+  );
+  if (inBatch?.code !== 'target_not_allowed' || inBatch.callIndex !== 1 || inBatch.target !== OTHER) {
+    throw new Error(`Batch violation not located: ${JSON.stringify(inBatch)}`);
+  }
+  console.log('   PASS: Each violation reported with its code and call\n');
+
+  console.log('=== All sponsorship policy checks passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});
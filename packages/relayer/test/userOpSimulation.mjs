@@ -0,0 +1,174 @@
+/**
+ * Check the simulateValidation call built for a sponsored op whose gas and
+ * fees the relayer chose, and how its results are classified: a failed
+ * account signature is pending, only paymaster rejections are final.
+ */
+import { createRequire } from 'node:module';
+import { getUserOpHash } from '@privacy-paymaster/sdk';
+import { ethers } from 'ethers';
+import { DEFAULT_GAS_LIMITS, fitFeesToSponsorship } from '../dist/lib/sponsorshipGas.js';
+import {
+  DUMMY_SIGNATURE,
+  classifySimulation,
+  simulateValidationCall,
+} from '../dist/lib/userOpSimulation.js';
+
+const require = createRequire(import.meta.url);
+const SIMULATIONS = require('@account-abstraction/contracts/artifacts/EntryPointSimulations.json');
+const SIMULATIONS_INTERFACE = new ethers.Interface(SIMULATIONS.abi);
+
+const ENTRY_POINT = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+const PAYMASTER = '0x5555555555555555555555555555555555555555';
+const SENDER = '0x6666666666666666666666666666666666666666';
+const GWEI = 1_000_000_000n;
+const NOW = 1_800_000_000;
+
+const PAYMASTER_ERRORS = new ethers.Interface([
+  'error NullifierAlreadyUsed()',
+  'error InvalidMerkleRoot()',
+  'error InvalidMembershipProof()',
+  'error GasCostExceedsMax()',
+  'error InvalidPaymasterDataLength()',
+]);
+
+function packUint128(high, low) {
+  return ethers.solidityPacked(['uint128', 'uint128'], [high, low]);
+}
+
+// The op sponsorUserOp builds: default limits, fees fitted under maxGasSponsorship, unsigned
+function relayerBuiltOp() {
+  const limits = DEFAULT_GAS_LIMITS;
+  const fees = fitFeesToSponsorship(
+    limits,
+    { maxFeePerGas: 5n * GWEI, maxPriorityFeePerGas: 2n * GWEI },
+    2_900_000n * GWEI,
+    GWEI
+  );
+  if (fees.maxFeePerGas !== 2n * GWEI) throw new Error('Fees were not lowered to fit');
+  return {
+    sender: SENDER,
+    nonce: ethers.toBeHex(7),
+    initCode: '0x',
+    callData: '0xb61d27f6',
+    accountGasLimits: packUint128(limits.verificationGasLimit, limits.callGasLimit),
+    preVerificationGas: ethers.toBeHex(limits.preVerificationGas),
+    gasFees: packUint128(fees.maxFeePerGas, fees.maxPriorityFeePerGas),
+    paymasterAndData: ethers.concat([
+      PAYMASTER,
+      packUint128(limits.paymasterVerificationGasLimit, limits.paymasterPostOpGasLimit),
+      ethers.zeroPadValue('0x01', 32 * 11),
+    ]),
+    signature: '0x',
+  };
+}
+
+function validationResult(accountValidationData, paymasterValidationData = 0n) {
+  const stake = [0n, 0n];
+  return SIMULATIONS_INTERFACE.encodeFunctionResult('simulateValidation', [
+    [
+      [100_000n, 2_900_000n * GWEI, accountValidationData, paymasterValidationData, '0x'],
+      stake,
+      stake,
+      stake,
+      [ethers.ZeroAddress, stake],
+    ],
+  ]);
+}
+
+function validationData(aggregator, validUntil, validAfter) {
+  return BigInt(aggregator) | (BigInt(validUntil) << 160n) | (BigInt(validAfter) << 208n);
+}
+
+function failedOpWithRevert(reason, inner) {
+  return SIMULATIONS_INTERFACE.encodeErrorResult('FailedOpWithRevert', [0, reason, inner]);
+}
+
+function expect(outcome, status, reason) {
+  if (outcome.status !== status || (reason !== undefined && outcome.reason !== reason)) {
+    throw new Error(`Expected ${status} (${reason}), got ${JSON.stringify(outcome)}`);
+  }
+}
+
+async function main() {
+  console.log('=== UserOp Simulation Checks ===\n');
+
+  // 1. The eth_call for a relayer-built op
+  console.log('1. Building simulateValidation for an unsigned op...');
+  const userOp = relayerBuiltOp();
+  const [call, block, overrides] = simulateValidationCall(ENTRY_POINT, userOp);
+  if (call.to !== ENTRY_POINT || block !== 'latest') throw new Error('Call not sent to the EntryPoint');
+  if (overrides[ENTRY_POINT]?.code !== SIMULATIONS.deployedBytecode) {
+    throw new Error('EntryPoint code not overridden with EntryPointSimulations');
+  }
+  const [simulated] = SIMULATIONS_INTERFACE.decodeFunctionData('simulateValidation', call.data);
+  for (const field of ['accountGasLimits', 'preVerificationGas', 'gasFees', 'paymasterAndData']) {
+    if (ethers.toBeHex(simulated[field]) !== ethers.toBeHex(userOp[field])) {
+      throw new Error(`${field} changed in the simulated op`);
+    }
+  }
+  if (simulated.signature !== DUMMY_SIGNATURE || ethers.dataLength(DUMMY_SIGNATURE) !== 65) {
+    throw new Error('Unsigned op not simulated with the dummy signature');
+  }
+  // ECDSA accounts must get a (wrong) signer back, not a revert
+  ethers.recoverAddress(getUserOpHash(userOp, ENTRY_POINT, 56), DUMMY_SIGNATURE);
+  const signed = { ...userOp, signature: '0x' + '11'.repeat(65) };
+  const [signedCall] = simulateValidationCall(ENTRY_POINT, signed);
+  const [signedOp] = SIMULATIONS_INTERFACE.decodeFunctionData('simulateValidation', signedCall.data);
+  if (signedOp.signature !== signed.signature) throw new Error('Client signature replaced');
+  console.log('   PASS: Relayer gas and fees kept, dummy signature only when unsigned\n');
+
+  // 2. Validation results
+  console.log('2. Classifying validation results...');
+  expect(classifySimulation({ returnData: validationResult(0n) }, NOW), 'valid');
+  expect(
+    classifySimulation({ returnData: validationResult(1n) }, NOW),
+    'signaturePending',
+    'AA24 signature error'
+  );
+  expect(
+    classifySimulation({ returnData: validationResult(validationData(1, NOW - 60, 0)) }, NOW),
+    'failed',
+    'AA22 expired or not due'
+  );
+  expect(
+    classifySimulation({ returnData: validationResult(validationData(0, 0, NOW + 60)) }, NOW),
+    'failed',
+    'AA22 expired or not due'
+  );
+  expect(
+    classifySimulation({ returnData: validationResult(validationData(0, NOW + 60, NOW - 60)) }, NOW),
+    'valid'
+  );
+  expect(classifySimulation({ returnData: validationResult(SENDER) }, NOW), 'failed');
+  expect(classifySimulation({ returnData: validationResult(0n, 1n) }, NOW), 'failed', 'AA34 signature error');
+  console.log('   PASS: sigFailed pending, time range and aggregators enforced\n');
+
+  // 3. Reverts
+  console.log('3. Classifying EntryPoint reverts...');
+  for (const name of ['NullifierAlreadyUsed', 'InvalidMerkleRoot', 'InvalidMembershipProof', 'GasCostExceedsMax']) {
+    const outcome = classifySimulation(
+      { revertData: failedOpWithRevert('AA33 reverted', PAYMASTER_ERRORS.encodeErrorResult(name, [])) },
+      NOW
+    );
+    expect(outcome, 'rejected');
+    if (!outcome.reason.startsWith(`AA33 reverted: ${name}: `)) throw new Error(`Bad reason: ${outcome.reason}`);
+  }
+  const malformed = failedOpWithRevert(
+    'AA33 reverted',
+    PAYMASTER_ERRORS.encodeErrorResult('InvalidPaymasterDataLength', [])
+  );
+  expect(classifySimulation({ revertData: malformed }, NOW), 'failed');
+  const ecdsa = failedOpWithRevert('AA23 reverted', '0xf645eedf');
+  expect(classifySimulation({ revertData: ecdsa }, NOW), 'signaturePending', 'AA23 reverted');
+  const prefund = SIMULATIONS_INTERFACE.encodeErrorResult('FailedOp', [0, "AA21 didn't pay prefund"]);
+  expect(classifySimulation({ revertData: prefund }, NOW), 'failed', "AA21 didn't pay prefund");
+  expect(classifySimulation({ revertData: '0xdeadbeef' }, NOW), 'failed', 'reverted with 0xdeadbeef');
+  console.log('   PASS: Only paymaster rejections are final\n');
+
+  console.log('=== All UserOp simulation checks passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});
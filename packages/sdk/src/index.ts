@@ -28,6 +28,8 @@ export {
   buildPaymasterData,
   buildSponsoredUserOp,
 } from "./sponsor";
+export { ENTRY_POINT_V07_ADDRESS, getUserOpHash, packUserOp } from "./userOp";
+export type { UserOperationLike } from "./userOp";
 
 // ── Merkle tree ─────────────────────────────────────────────────────────────
 export {
@@ -0,0 +1,75 @@
+/**
+ * ERC-4337 v0.7 UserOperation hashing.
+ *
+ * Mirrors EntryPoint v0.7 `getUserOpHash()` so a UserOperation can be
+ * tracked (and signed) by the hash the EntryPoint emits in its
+ * UserOperationEvent, without an RPC round trip:
+ *
+ *   keccak256(abi.encode(
+ *     keccak256(abi.encode(sender, nonce, keccak256(initCode),
+ *       keccak256(callData), accountGasLimits, preVerificationGas, gasFees,
+ *       keccak256(paymasterAndData))),
+ *     entryPoint,
+ *     chainId))
+ *
+ * The signature is not part of the hash.
+ */
+
+import { ethers } from "ethers";
+import type { PackedUserOperation } from "./types";
+
+/** Canonical EntryPoint v0.7 deployment address. */
+export const ENTRY_POINT_V07_ADDRESS = "0x0000000071727De22E5E9d8BAf0edAc6f37da032";
+
+/**
+ * A PackedUserOperation whose numeric fields may be given as hex or decimal
+ * strings, as relayers and bundlers pass them over JSON-RPC.
+ */
+export type UserOperationLike = Omit<PackedUserOperation, "nonce" | "preVerificationGas"> & {
+  nonce: ethers.BigNumberish;
+  preVerificationGas: ethers.BigNumberish;
+};
+
+/**
+ * Encode the UserOperation fields covered by the hash (PackedUserOperation
+ * minus the signature, with dynamic fields hashed).
+ *
+ * @param userOp The UserOperation to encode.
+ * @returns The ABI-encoded fields.
+ */
+export function packUserOp(userOp: UserOperationLike): string {
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    ["address", "uint256", "bytes32", "bytes32", "bytes32", "uint256", "bytes32", "bytes32"],
+    [
+      userOp.sender,
+      userOp.nonce,
+      ethers.keccak256(userOp.initCode),
+      ethers.keccak256(userOp.callData),
+      userOp.accountGasLimits,
+      userOp.preVerificationGas,
+      userOp.gasFees,
+      ethers.keccak256(userOp.paymasterAndData),
+    ]
+  );
+}
+
+/**
+ * Compute the hash EntryPoint v0.7 assigns a UserOperation.
+ *
+ * @param userOp The UserOperation (its signature is ignored).
+ * @param entryPoint Address of the EntryPoint the op is sent to.
+ * @param chainId Chain the EntryPoint is deployed on.
+ * @returns The userOpHash as a 0x-prefixed bytes32 hex string.
+ */
+export function getUserOpHash(
+  userOp: UserOperationLike,
+  entryPoint: string,
+  chainId: ethers.BigNumberish
+): string {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["bytes32", "address", "uint256"],
+      [ethers.keccak256(packUserOp(userOp)), entryPoint, chainId]
+    )
+  );
+}
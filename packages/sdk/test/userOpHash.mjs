@@ -0,0 +1,165 @@
+/**
+ * Tests for the EntryPoint v0.7 userOpHash. Checks a fixed vector and the
+ * hash's inputs, then compares against the EntryPoint's own
+ * getUserOpHash(): on RPC_URL and ENTRY_POINT_ADDRESS if set (e.g. a
+ * DeployLocal.s.sol deployment), otherwise on an EntryPoint deployed to a
+ * fresh Anvil with forge. Without anvil and forge that step is skipped;
+ * the fixed vector already covers the hash.
+ */
+import { spawn, execFileSync } from 'node:child_process';
+import { fileURLToPath } from 'node:url';
+import { ethers } from 'ethers';
+import { getUserOpHash, ENTRY_POINT_V07_ADDRESS } from '../dist/userOp.js';
+
+const ENTRY_POINT_ABI = [
+  'function getUserOpHash(tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature) userOp) view returns (bytes32)',
+];
+
+const CONTRACTS_DIR = fileURLToPath(new URL('../../contracts/', import.meta.url));
+const ANVIL_PORT = process.env.ANVIL_PORT || '8546';
+// Anvil's first default account
+const ANVIL_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+function hasCommand(command) {
+  try {
+    execFileSync(command, ['--version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Start Anvil and deploy the EntryPoint from packages/contracts to it.
+ * Returns null if anvil or forge is not installed.
+ */
+async function startLocalEntryPoint() {
+  if (!hasCommand('anvil') || !hasCommand('forge')) return null;
+
+  const anvil = spawn('anvil', ['--port', ANVIL_PORT, '--silent'], { stdio: 'ignore' });
+  const rpcUrl = `http://127.0.0.1:${ANVIL_PORT}`;
+  try {
+    const provider = new ethers.JsonRpcProvider(rpcUrl, undefined, { staticNetwork: true });
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await provider.getBlockNumber();
+        break;
+      } catch (err) {
+        if (attempt >= 50) throw new Error(`Anvil did not start: ${err.message}`);
+        await new Promise((resolve) => setTimeout(resolve, 200));
+      }
+    }
+    provider.destroy();
+
+    const output = execFileSync(
+      'forge',
+      [
+        'create',
+        'lib/account-abstraction/contracts/core/EntryPoint.sol:EntryPoint',
+        '--rpc-url', rpcUrl,
+        '--private-key', ANVIL_PRIVATE_KEY,
+        '--broadcast',
+        '--json',
+      ],
+      { cwd: CONTRACTS_DIR, encoding: 'utf8' }
+    );
+    const { deployedTo } = JSON.parse(output.slice(output.indexOf('{')));
+    return { rpcUrl, entryPointAddress: deployedTo, stop: () => anvil.kill() };
+  } catch (err) {
+    anvil.kill();
+    throw err;
+  }
+}
+
+function packUint128(high, low) {
+  return ethers.zeroPadValue(ethers.toBeHex((high << 128n) | low), 32);
+}
+
+const userOp = {
+  sender: '0x1111111111111111111111111111111111111111',
+  nonce: 5n,
+  initCode: '0x',
+  callData: '0xdeadbeef',
+  accountGasLimits: packUint128(500000n, 300000n),
+  preVerificationGas: 50000n,
+  gasFees: packUint128(1000000000n, 1000000000n),
+  paymasterAndData: '0x2222222222222222222222222222222222222222',
+  signature: '0x1234',
+};
+
+async function main() {
+  console.log('=== UserOp Hash Tests ===\n');
+
+  // 1. Fixed vector (BSC mainnet, canonical EntryPoint)
+  console.log('1. Checking a fixed vector...');
+  const hash = getUserOpHash(userOp, ENTRY_POINT_V07_ADDRESS, 56);
+  const expected = '0x142f6c968b36eaa8b56d521f0c3d0164ad6c4af6d2ac9067c5e072c7b01a7bf4';
+  if (hash !== expected) throw new Error(`Expected ${expected}, got ${hash}`);
+  console.log('   PASS: Matches the vector\n');
+
+  // 2. Domain and signature
+  console.log('2. Checking hash inputs...');
+  if (getUserOpHash(userOp, ENTRY_POINT_V07_ADDRESS, 97) === hash) {
+    throw new Error('Hash does not depend on chainId');
+  }
+  if (getUserOpHash(userOp, userOp.sender, 56) === hash) {
+    throw new Error('Hash does not depend on the EntryPoint address');
+  }
+  if (getUserOpHash({ ...userOp, signature: '0x' }, ENTRY_POINT_V07_ADDRESS, 56) !== hash) {
+    throw new Error('Hash depends on the signature');
+  }
+  if (getUserOpHash({ ...userOp, callData: '0xdeadbeee' }, ENTRY_POINT_V07_ADDRESS, 56) === hash) {
+    throw new Error('Hash does not depend on callData');
+  }
+  console.log('   PASS: chainId, EntryPoint and fields covered; signature excluded\n');
+
+  // 3. Numeric fields as JSON-RPC strings
+  console.log('3. Checking string-encoded numeric fields...');
+  const fromHex = getUserOpHash(
+    { ...userOp, nonce: '0x5', preVerificationGas: '0xc350' },
+    ENTRY_POINT_V07_ADDRESS,
+    '0x38'
+  );
+  if (fromHex !== hash) throw new Error('Hex-encoded fields hash differently');
+  console.log('   PASS: Hex strings and bigints agree\n');
+
+  // 4. Against a deployed EntryPoint
+  console.log('4. Comparing with EntryPoint.getUserOpHash()...');
+  let local = null;
+  if (!process.env.RPC_URL || !process.env.ENTRY_POINT_ADDRESS) {
+    local = await startLocalEntryPoint();
+    if (!local) {
+      console.log('   SKIP: install Foundry, or set RPC_URL and ENTRY_POINT_ADDRESS\n');
+    }
+  }
+  const rpcUrl = local?.rpcUrl ?? process.env.RPC_URL;
+  const entryPointAddress = local?.entryPointAddress ?? process.env.ENTRY_POINT_ADDRESS;
+  if (rpcUrl && entryPointAddress) {
+    try {
+      const provider = new ethers.JsonRpcProvider(rpcUrl);
+      const entryPoint = new ethers.Contract(entryPointAddress, ENTRY_POINT_ABI, provider);
+      const { chainId } = await provider.getNetwork();
+      const ops = [
+        userOp,
+        { ...userOp, nonce: (7n << 64n) | 3n, initCode: '0x3333333333333333333333333333333333333333abcdef' },
+        { ...userOp, paymasterAndData: ethers.concat([userOp.paymasterAndData, packUint128(100000n, 50000n), ethers.randomBytes(352)]) },
+      ];
+      for (const op of ops) {
+        const onChain = await entryPoint.getUserOpHash(op);
+        const computed = getUserOpHash(op, entryPointAddress, chainId);
+        if (onChain !== computed) throw new Error(`EntryPoint returned ${onChain}, computed ${computed}`);
+      }
+      provider.destroy();
+      console.log(`   PASS: ${ops.length} ops match on chain ${chainId}\n`);
+    } finally {
+      local?.stop();
+    }
+  }
+
+  console.log('=== All userOpHash tests passed! ===');
+}
+
+main().catch((err) => {
+  console.error('FAIL:', err.message);
+  process.exit(1);
+});